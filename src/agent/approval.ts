@@ -0,0 +1,260 @@
+import type { ResponseComputerToolCall } from "openai/resources/responses/responses";
+import { AIMessage, BaseMessage } from "@langchain/core/messages";
+import { LangGraphRunnableConfig } from "@langchain/langgraph";
+import type { UIMessage } from "@langchain/langgraph-sdk/react-ui";
+import { createInterruptUi } from "./interrupt";
+
+export type ComputerAction = ResponseComputerToolCall["action"];
+
+export type SafetyCheck = ResponseComputerToolCall.PendingSafetyCheck;
+
+/**
+ * Classes of computer actions which pause the run until a human approves them.
+ * - `safety_check`: the model attached pending safety checks to the call.
+ * - `keypress`: a keypress matching one of the destructive shortcuts below.
+ * - `password`: typing while the model is talking about credentials. The VM
+ *   does not expose the focused element, so this is a heuristic.
+ * - `all`: every action.
+ */
+export type ApprovalActionClass =
+  | "safety_check"
+  | "keypress"
+  | "password"
+  | "all";
+
+export const DEFAULT_APPROVAL_ACTION_CLASSES: ApprovalActionClass[] = [
+  "safety_check",
+  "keypress",
+  "password",
+];
+
+const RISKY_KEY_COMBINATIONS = [
+  ["ctrl", "w"],
+  ["ctrl", "q"],
+  ["ctrl", "shift", "w"],
+  ["ctrl", "shift", "delete"],
+  ["alt", "f4"],
+  ["cmd", "q"],
+  ["cmd", "w"],
+  ["super", "l"],
+];
+
+const SENSITIVE_TEXT_PATTERN =
+  /password|passphrase|passcode|\bpin\b|credit card|card number|cvv|social security/i;
+
+export interface ComputerActionApprovalRequest {
+  toolCallId: string;
+  callId: string;
+  action: ComputerAction;
+  reasons: string[];
+}
+
+export type ComputerActionApprovalDecision =
+  | { decision: "approve" }
+  | { decision: "edit"; action: ComputerAction }
+  | { decision: "reject"; reason?: string };
+
+/**
+ * The value passed to `interrupt`. Carries a UI message so the client can
+ * render the approval card while the run is paused.
+ */
+export interface ComputerActionApprovalInterrupt
+  extends ComputerActionApprovalRequest {
+  type: "computer_action_approval";
+  ui: UIMessage;
+}
+
+/**
+ * Key of the AI message's `additional_kwargs` recording rejected call IDs.
+ */
+export const REJECTED_CALLS_KEY = "rejected_computer_calls";
+
+/**
+ * Key of the AI message's `additional_kwargs` recording the safety checks a
+ * human acknowledged, by call ID. The call's output has to echo them, or the
+ * API rejects the next request.
+ */
+export const ACKNOWLEDGED_CALLS_KEY = "acknowledged_computer_calls";
+
+function normalizeKey(key: string): string {
+  const lower = key.toLowerCase();
+  if (lower === "control") return "ctrl";
+  if (lower === "meta" || lower === "command") return "cmd";
+  return lower;
+}
+
+/**
+ * Resolves the action classes requiring approval from the run's configurable
+ * fields, falling back to the `CUA_APPROVAL_ACTIONS` environment variable.
+ */
+export function getApprovalActionClasses(
+  config: LangGraphRunnableConfig,
+): ApprovalActionClass[] {
+  const configured = config.configurable?.approvalActionClasses;
+  if (Array.isArray(configured)) {
+    return configured;
+  }
+  if (process.env.CUA_APPROVAL_ACTIONS !== undefined) {
+    return process.env.CUA_APPROVAL_ACTIONS.split(",")
+      .map((c) => c.trim())
+      .filter(Boolean) as ApprovalActionClass[];
+  }
+  return DEFAULT_APPROVAL_ACTION_CLASSES;
+}
+
+/**
+ * Returns the reasons a computer call requires human approval. An empty array
+ * means the action may run without interruption.
+ */
+export function getApprovalReasons(
+  toolCall: ResponseComputerToolCall,
+  message: BaseMessage,
+  actionClasses: ApprovalActionClass[],
+): string[] {
+  const reasons: string[] = [];
+  const { action } = toolCall;
+
+  if (actionClasses.includes("all")) {
+    reasons.push("All computer actions require approval.");
+  }
+
+  if (actionClasses.includes("safety_check")) {
+    for (const check of toolCall.pending_safety_checks ?? []) {
+      reasons.push(`Safety check: ${check.message}`);
+    }
+  }
+
+  if (actionClasses.includes("keypress") && action.type === "keypress") {
+    const keys = action.keys.map(normalizeKey);
+    const combination = RISKY_KEY_COMBINATIONS.find(
+      (combo) =>
+        combo.length === keys.length && combo.every((k) => keys.includes(k)),
+    );
+    if (combination) {
+      reasons.push(
+        `The shortcut ${combination.join("+")} may close windows or discard data.`,
+      );
+    }
+  }
+
+  if (actionClasses.includes("password") && action.type === "type") {
+    const context = JSON.stringify([
+      message.content,
+      message.additional_kwargs?.reasoning,
+    ]);
+    if (SENSITIVE_TEXT_PATTERN.test(context)) {
+      reasons.push("The text may be entered into a sensitive field.");
+    }
+  }
+
+  return reasons;
+}
+
+export function createApprovalInterrupt(
+  request: ComputerActionApprovalRequest,
+  message: BaseMessage,
+  config: LangGraphRunnableConfig,
+): ComputerActionApprovalInterrupt {
+  return {
+    ...request,
+    type: "computer_action_approval",
+    ui: createInterruptUi(config, {
+      id: `computer-action-approval-${request.toolCallId}`,
+      name: "computer-action-approval",
+      props: { ...request },
+      metadata: { message_id: message.id },
+    }),
+  };
+}
+
+function replaceAction(
+  outputs: unknown,
+  callId: string,
+  action: ComputerAction,
+) {
+  if (!Array.isArray(outputs)) return outputs;
+  return outputs.map((output) =>
+    output?.type === "computer_call" && output.call_id === callId
+      ? { ...output, action }
+      : output,
+  );
+}
+
+/**
+ * Returns a copy of the AI message with the computer call's action replaced.
+ * The copy keeps the original ID, so the messages reducer swaps it in place.
+ *
+ * @param rejectionReason - When set, records the call as rejected so the
+ * follow up node can tell the model the action never ran.
+ */
+export function withComputerCallAction(
+  message: AIMessage,
+  callId: string,
+  action: ComputerAction,
+  rejectionReason?: string,
+): AIMessage {
+  const additionalKwargs: Record<string, unknown> = {
+    ...message.additional_kwargs,
+    tool_outputs: replaceAction(
+      message.additional_kwargs?.tool_outputs,
+      callId,
+      action,
+    ),
+  };
+  if (rejectionReason !== undefined) {
+    additionalKwargs[REJECTED_CALLS_KEY] = {
+      ...(message.additional_kwargs?.[REJECTED_CALLS_KEY] as object),
+      [callId]: rejectionReason,
+    };
+  }
+
+  return new AIMessage({
+    id: message.id,
+    content: message.content,
+    tool_calls: message.tool_calls,
+    additional_kwargs: additionalKwargs,
+    response_metadata: {
+      ...message.response_metadata,
+      output: replaceAction(message.response_metadata?.output, callId, action),
+    },
+  });
+}
+
+/**
+ * Returns a copy of the AI message recording the call's pending safety checks
+ * as acknowledged. The copy keeps the original ID, so the messages reducer
+ * swaps it in place.
+ */
+export function withAcknowledgedSafetyChecks(
+  message: AIMessage,
+  callId: string,
+  checks: SafetyCheck[],
+): AIMessage {
+  return new AIMessage({
+    id: message.id,
+    content: message.content,
+    tool_calls: message.tool_calls,
+    additional_kwargs: {
+      ...message.additional_kwargs,
+      [ACKNOWLEDGED_CALLS_KEY]: {
+        ...(message.additional_kwargs?.[ACKNOWLEDGED_CALLS_KEY] as object),
+        [callId]: checks,
+      },
+    },
+    response_metadata: message.response_metadata,
+  });
+}
+
+/**
+ * The safety checks acknowledged for a call of the AI message, if any.
+ */
+export function getAcknowledgedSafetyChecks(
+  message: BaseMessage,
+  callId: string,
+): SafetyCheck[] | undefined {
+  return (
+    message.additional_kwargs?.[ACKNOWLEDGED_CALLS_KEY] as
+      | Record<string, SafetyCheck[]>
+      | undefined
+  )?.[callId];
+}
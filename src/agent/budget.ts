@@ -0,0 +1,218 @@
+import type { BaseMessage } from "@langchain/core/messages";
+import { estimateTokens } from "./context";
+import { readNumber } from "./env";
+
+/**
+ * Limits of a single Scout run. A limit of 0 disables it.
+ */
+export interface RunBudget {
+  maxIterations: number;
+  maxWallClockMs: number;
+  /**
+   * Input and output tokens of all model calls.
+   */
+  maxTokens: number;
+  maxCostUsd: number;
+  maxScreenshots: number;
+}
+
+/**
+ * Dollars per million tokens, used to estimate the cost of a run.
+ */
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+export interface BudgetUsage {
+  /**
+   * The run the usage belongs to: the LangGraph run ID, or a random ID when
+   * the graph is invoked without one. Usage starts over with every run.
+   */
+  run_id: string;
+  /**
+   * Time the run was active before `resumed_at`. Time spent paused at an
+   * interrupt does not count.
+   */
+  active_ms: number;
+  /**
+   * When the clock last started: at the start of the run, or when it
+   * resumed from an interrupt.
+   */
+  resumed_at: number;
+  iterations: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+  screenshots: number;
+  /**
+   * The limit which stopped the run.
+   */
+  exceeded?: BudgetLimit;
+}
+
+export type BudgetLimit = keyof RunBudget;
+
+export const DEFAULT_RUN_BUDGET: RunBudget = {
+  maxIterations: 40,
+  maxWallClockMs: 30 * 60 * 1000,
+  maxTokens: 2000000,
+  maxCostUsd: 5,
+  maxScreenshots: 100,
+};
+
+// List prices at the time of writing. Models are matched by prefix, so
+// dated snapshots use the price of their family.
+const MODEL_PRICING: Record<string, ModelPricing> = {
+  "gpt-5-nano": { input: 0.05, output: 0.4 },
+  "gpt-5-mini": { input: 0.25, output: 2 },
+  "gpt-5": { input: 1.25, output: 10 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "claude-opus-4": { input: 15, output: 75 },
+  "claude-sonnet-4": { input: 3, output: 15 },
+  "claude-haiku-4": { input: 1, output: 5 },
+  "claude-3-5-haiku": { input: 0.8, output: 4 },
+};
+
+/**
+ * Looks up the pricing of a model. Unknown models are priced like `gpt-5`.
+ */
+export function getModelPricing(modelName: string): ModelPricing {
+  const match = Object.keys(MODEL_PRICING)
+    .filter((prefix) => modelName.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return MODEL_PRICING[match ?? "gpt-5"];
+}
+
+/**
+ * Reads the limits from `AGENT_BUDGET_*` environment variables.
+ */
+export function loadRunBudget(): RunBudget {
+  return {
+    maxIterations: readNumber(
+      process.env.AGENT_BUDGET_MAX_ITERATIONS,
+      DEFAULT_RUN_BUDGET.maxIterations,
+    ),
+    maxWallClockMs:
+      readNumber(
+        process.env.AGENT_BUDGET_MAX_MINUTES,
+        DEFAULT_RUN_BUDGET.maxWallClockMs / 60000,
+      ) * 60000,
+    maxTokens: readNumber(
+      process.env.AGENT_BUDGET_MAX_TOKENS,
+      DEFAULT_RUN_BUDGET.maxTokens,
+    ),
+    maxCostUsd: readNumber(
+      process.env.AGENT_BUDGET_MAX_COST_USD,
+      DEFAULT_RUN_BUDGET.maxCostUsd,
+    ),
+    maxScreenshots: readNumber(
+      process.env.AGENT_BUDGET_MAX_SCREENSHOTS,
+      DEFAULT_RUN_BUDGET.maxScreenshots,
+    ),
+  };
+}
+
+export function createBudgetUsage(runId: string): BudgetUsage {
+  return {
+    run_id: runId,
+    active_ms: 0,
+    resumed_at: Date.now(),
+    iterations: 0,
+    input_tokens: 0,
+    output_tokens: 0,
+    cost_usd: 0,
+    screenshots: 0,
+  };
+}
+
+/**
+ * Time the run has been active, including the time since `resumed_at`.
+ */
+export function getActiveMs(usage: BudgetUsage): number {
+  return usage.active_ms + Date.now() - usage.resumed_at;
+}
+
+/**
+ * Adds the time since `resumed_at` to the active time. Nodes record it when
+ * they end, so that a pause at the next node's interrupt is left out.
+ */
+export function recordActiveTime(usage: BudgetUsage): BudgetUsage {
+  const now = Date.now();
+  return {
+    ...usage,
+    active_ms: usage.active_ms + now - usage.resumed_at,
+    resumed_at: now,
+  };
+}
+
+/**
+ * Starts the clock again when the run resumes from an interrupt, dropping
+ * the time spent paused.
+ */
+export function restartClock(usage: BudgetUsage): BudgetUsage {
+  return { ...usage, resumed_at: Date.now() };
+}
+
+/**
+ * Adds a model call to the usage. Falls back to estimates when the model
+ * reports no token usage.
+ */
+export function addModelUsage(
+  usage: BudgetUsage,
+  response: BaseMessage,
+  estimatedInputTokens: number,
+  pricing: ModelPricing,
+): BudgetUsage {
+  const metadata = (
+    response as {
+      usage_metadata?: { input_tokens: number; output_tokens: number };
+    }
+  ).usage_metadata;
+  const inputTokens = metadata?.input_tokens ?? estimatedInputTokens;
+  const outputTokens = metadata?.output_tokens ?? estimateTokens([response]);
+  return {
+    ...usage,
+    iterations: usage.iterations + 1,
+    input_tokens: usage.input_tokens + inputTokens,
+    output_tokens: usage.output_tokens + outputTokens,
+    cost_usd:
+      usage.cost_usd +
+      (inputTokens * pricing.input + outputTokens * pricing.output) / 1e6,
+  };
+}
+
+/**
+ * The first limit the usage has reached, if any.
+ */
+export function getExceededLimit(
+  usage: BudgetUsage,
+  budget: RunBudget,
+): BudgetLimit | undefined {
+  const used: Record<BudgetLimit, number> = {
+    maxIterations: usage.iterations,
+    maxWallClockMs: getActiveMs(usage),
+    maxTokens: usage.input_tokens + usage.output_tokens,
+    maxCostUsd: usage.cost_usd,
+    maxScreenshots: usage.screenshots,
+  };
+  return (Object.keys(used) as BudgetLimit[]).find(
+    (limit) => budget[limit] > 0 && used[limit] >= budget[limit],
+  );
+}
+
+const LIMIT_DESCRIPTIONS: Record<BudgetLimit, string> = {
+  maxIterations: "iteration",
+  maxWallClockMs: "time",
+  maxTokens: "token",
+  maxCostUsd: "cost",
+  maxScreenshots: "screenshot",
+};
+
+export function describeLimit(limit: BudgetLimit): string {
+  return `${LIMIT_DESCRIPTIONS[limit]} budget`;
+}
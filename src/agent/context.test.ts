@@ -0,0 +1,146 @@
+import { describe, expect, it, vi } from "vitest";
+import sharp from "sharp";
+import {
+  AIMessage,
+  BaseMessage,
+  HumanMessage,
+  MessageContentComplex,
+  ToolMessage,
+} from "@langchain/core/messages";
+import { RunnableLambda } from "@langchain/core/runnables";
+import {
+  compactScreenshots,
+  DEFAULT_CONTEXT_CONFIG,
+  manageContext,
+} from "./context";
+import { MemoryScreenshotStore, ScreenshotStore } from "./screenshot-store";
+
+async function screenshot(): Promise<string> {
+  const image = await sharp({
+    create: { width: 1024, height: 768, channels: 3, background: "#336699" },
+  })
+    .png()
+    .toBuffer();
+  return `data:image/png;base64,${image.toString("base64")}`;
+}
+
+function observation(url: string): HumanMessage {
+  return new HumanMessage({
+    content: [
+      { type: "text", text: "[System Observation] Screenshot" },
+      { type: "image_url", image_url: { url, detail: "high" } },
+    ],
+  });
+}
+
+function getImageUrl(message: { content: unknown }): string {
+  const part = (message.content as MessageContentComplex[]).find(
+    (p) => p.type === "image_url",
+  ) as { image_url: { url: string } };
+  return part.image_url.url;
+}
+
+const config = {
+  ...DEFAULT_CONTEXT_CONFIG,
+  highDetailScreenshots: 1,
+  lowDetailScreenshots: 1,
+};
+
+describe("compactScreenshots", () => {
+  it("keeps low detail screenshots inline, downscaled", async () => {
+    const url = await screenshot();
+    const [compacted] = await compactScreenshots(
+      [observation(url), observation(url)],
+      { ...config, screenshotStore: new MemoryScreenshotStore() },
+    );
+
+    const low = getImageUrl(compacted);
+    expect(low.startsWith("data:image/png;base64,")).toBe(true);
+    const metadata = await sharp(
+      Buffer.from(low.split(",")[1], "base64"),
+    ).metadata();
+    expect([metadata.width, metadata.height]).toEqual([512, 384]);
+  });
+
+  it("only moves screenshots to a store with public URLs", async () => {
+    const url = await screenshot();
+    const store: ScreenshotStore = {
+      publicUrls: true,
+      save: vi.fn(async () => "https://storage.example.com/a.png"),
+    };
+
+    const [compacted] = await compactScreenshots(
+      [observation(url), observation(url)],
+      { ...config, screenshotStore: store },
+    );
+
+    expect(getImageUrl(compacted)).toBe("https://storage.example.com/a.png");
+    expect(store.save).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("manageContext", () => {
+  function toolTurn(id: string): BaseMessage[] {
+    return [
+      new AIMessage({
+        id: `call-${id}`,
+        content: "",
+        tool_calls: [{ id, name: "ls", args: { path: `/${id}` } }],
+      }),
+      new ToolMessage({ id: `result-${id}`, tool_call_id: id, content: id }),
+    ];
+  }
+
+  it("leaves summarized tool turns in the history", async () => {
+    const transcripts: string[] = [];
+    const summarizer = RunnableLambda.from(async (input: BaseMessage[]) => {
+      transcripts.push(String(input[1].content));
+      return new AIMessage(`summary ${transcripts.length}`);
+    });
+    const contextConfig = {
+      ...DEFAULT_CONTEXT_CONFIG,
+      maxTokens: 0,
+      keepRecentMessages: 1,
+      summarizer,
+    };
+    const history = [
+      new HumanMessage({ id: "task", content: "List the files." }),
+      ...toolTurn("a"),
+      new AIMessage({ id: "answer", content: "Done." }),
+    ];
+
+    const first = await manageContext(
+      history,
+      undefined,
+      undefined,
+      contextConfig,
+    );
+
+    expect(first.updates).toEqual([]);
+    expect(first.summary).toBe("summary 1");
+    expect(first.summaryEndId).toBe("answer");
+    expect(first.messages.map((m) => m.id)).toEqual([
+      undefined,
+      "task",
+      "answer",
+    ]);
+
+    const second = await manageContext(
+      [...history, ...toolTurn("b"), new AIMessage({ id: "b", content: "" })],
+      first.summary,
+      first.summaryEndId,
+      contextConfig,
+    );
+
+    // Only the new tool turn is summarized, on top of the previous summary.
+    expect(transcripts[1]).toContain("Previous summary:\nsummary 1");
+    expect(transcripts[1]).toContain('ls({"path":"/b"})');
+    expect(transcripts[1]).not.toContain('ls({"path":"/a"})');
+    expect(second.messages.map((m) => m.id)).toEqual([
+      undefined,
+      "task",
+      "answer",
+      "b",
+    ]);
+  });
+});
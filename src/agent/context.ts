@@ -0,0 +1,371 @@
+import {
+  BaseMessage,
+  HumanMessage,
+  isAIMessage,
+  isHumanMessage,
+  isToolMessage,
+  MessageContentComplex,
+  SystemMessage,
+} from "@langchain/core/messages";
+import type { BaseLanguageModelInput } from "@langchain/core/language_models/base";
+import type { Runnable } from "@langchain/core/runnables";
+import sharp from "sharp";
+import { readNumber } from "./env";
+import type { ScreenshotStore } from "./screenshot-store";
+
+/**
+ * Prefix of the human messages which carry tool observations, such as the
+ * screenshot taken after a `computer` call.
+ */
+export const OBSERVATION_PREFIX = "[System Observation]";
+
+export interface ContextConfig {
+  /**
+   * Estimated size of the model input above which old tool turns are
+   * summarized.
+   */
+  maxTokens: number;
+  /**
+   * Most recent screenshots sent at full resolution.
+   */
+  highDetailScreenshots: number;
+  /**
+   * Screenshots after those sent at low resolution. Older ones are replaced
+   * by their caption.
+   */
+  lowDetailScreenshots: number;
+  /**
+   * Most recent messages which are never summarized.
+   */
+  keepRecentMessages: number;
+  /**
+   * Model which writes the summaries. Without one, only screenshots are
+   * compacted.
+   */
+  summarizer?: Runnable<BaseLanguageModelInput, BaseMessage>;
+  /**
+   * Store which screenshots are moved to once they drop to low detail, so
+   * the history keeps their URL instead of their base64 data. Only used when
+   * its URLs are public, since the model provider has to fetch them.
+   */
+  screenshotStore?: ScreenshotStore;
+}
+
+export const DEFAULT_CONTEXT_CONFIG: ContextConfig = {
+  maxTokens: 120000,
+  highDetailScreenshots: 2,
+  lowDetailScreenshots: 3,
+  keepRecentMessages: 12,
+};
+
+/**
+ * Reads the context limits from `AGENT_CONTEXT_*` environment variables.
+ */
+export function loadContextConfig(): ContextConfig {
+  return {
+    maxTokens: readNumber(
+      process.env.AGENT_CONTEXT_MAX_TOKENS,
+      DEFAULT_CONTEXT_CONFIG.maxTokens,
+    ),
+    highDetailScreenshots: readNumber(
+      process.env.AGENT_CONTEXT_HIGH_DETAIL_SCREENSHOTS,
+      DEFAULT_CONTEXT_CONFIG.highDetailScreenshots,
+    ),
+    lowDetailScreenshots: readNumber(
+      process.env.AGENT_CONTEXT_LOW_DETAIL_SCREENSHOTS,
+      DEFAULT_CONTEXT_CONFIG.lowDetailScreenshots,
+    ),
+    keepRecentMessages: readNumber(
+      process.env.AGENT_CONTEXT_KEEP_RECENT_MESSAGES,
+      DEFAULT_CONTEXT_CONFIG.keepRecentMessages,
+    ),
+  };
+}
+
+// OpenAI's image pricing for a 1024x768 screenshot: 85 base tokens, plus 170
+// for each of the four 512px tiles at high detail.
+const HIGH_DETAIL_IMAGE_TOKENS = 765;
+const LOW_DETAIL_IMAGE_TOKENS = 85;
+const CHARS_PER_TOKEN = 4;
+// Tool results in the summarizer's transcript are trimmed to this length.
+const MAX_TRANSCRIPT_RESULT_CHARS = 2000;
+// Low detail images are seen at 512px at most, so nothing larger is kept.
+const LOW_DETAIL_IMAGE_SIZE = 512;
+const PNG_DATA_URL_PREFIX = "data:image/png;base64,";
+
+type ImagePart = Extract<MessageContentComplex, { type: "image_url" }>;
+
+function isImagePart(part: MessageContentComplex): part is ImagePart {
+  return part.type === "image_url";
+}
+
+function getImageDetail(part: ImagePart): string | undefined {
+  return typeof part.image_url === "string" ? undefined : part.image_url.detail;
+}
+
+export function getText(message: BaseMessage): string {
+  if (typeof message.content === "string") return message.content;
+  return message.content
+    .map((part) => (part.type === "text" ? String(part.text) : ""))
+    .join("");
+}
+
+/**
+ * Roughly estimates the tokens a list of messages takes up in the model
+ * input: four characters per token, plus a fixed cost per image.
+ */
+export function estimateTokens(messages: BaseMessage[]): number {
+  let chars = 0;
+  let tokens = 0;
+  for (const message of messages) {
+    if (typeof message.content === "string") {
+      chars += message.content.length;
+    } else {
+      for (const part of message.content) {
+        if (isImagePart(part)) {
+          tokens +=
+            getImageDetail(part) === "low"
+              ? LOW_DETAIL_IMAGE_TOKENS
+              : HIGH_DETAIL_IMAGE_TOKENS;
+        } else if (part.type === "text") {
+          chars += String(part.text).length;
+        }
+      }
+    }
+    if (isAIMessage(message) && message.tool_calls?.length) {
+      chars += JSON.stringify(message.tool_calls).length;
+    }
+  }
+  return tokens + Math.ceil(chars / CHARS_PER_TOKEN);
+}
+
+function hasImage(message: BaseMessage): boolean {
+  return (
+    typeof message.content !== "string" && message.content.some(isImagePart)
+  );
+}
+
+/**
+ * Scales a PNG data URL down to the size the model sees at low detail.
+ */
+async function downscale(url: string): Promise<string> {
+  const image = await sharp(
+    Buffer.from(url.slice(PNG_DATA_URL_PREFIX.length), "base64"),
+  )
+    .resize(LOW_DETAIL_IMAGE_SIZE, LOW_DETAIL_IMAGE_SIZE, {
+      fit: "inside",
+      withoutEnlargement: true,
+    })
+    .png()
+    .toBuffer();
+  return `${PNG_DATA_URL_PREFIX}${image.toString("base64")}`;
+}
+
+/**
+ * Lowers the detail of older screenshots, downscaling them and moving them
+ * to the `screenshotStore` when its URLs are public, and replaces the oldest
+ * with their caption. Returns the
+ * changed messages, which keep their IDs so they replace the originals in
+ * `chat_history`.
+ */
+export async function compactScreenshots(
+  messages: BaseMessage[],
+  config: ContextConfig,
+): Promise<BaseMessage[]> {
+  const replacements: BaseMessage[] = [];
+  const screenshots = messages.filter(hasImage).reverse();
+
+  for (const [index, message] of screenshots.entries()) {
+    if (index < config.highDetailScreenshots) continue;
+    const keepLowDetail =
+      index < config.highDetailScreenshots + config.lowDetailScreenshots;
+    const parts = message.content as MessageContentComplex[];
+    if (
+      keepLowDetail &&
+      parts.every(
+        (part) => !isImagePart(part) || getImageDetail(part) === "low",
+      )
+    ) {
+      continue;
+    }
+
+    const content: MessageContentComplex[] = [];
+    for (const part of parts) {
+      if (!isImagePart(part)) {
+        content.push(part);
+      } else if (keepLowDetail) {
+        let url =
+          typeof part.image_url === "string"
+            ? part.image_url
+            : part.image_url.url;
+        if (url.startsWith(PNG_DATA_URL_PREFIX)) {
+          url = await downscale(url);
+          if (config.screenshotStore?.publicUrls) {
+            url = await config.screenshotStore.save(url);
+          }
+        }
+        content.push({ type: "image_url", image_url: { url, detail: "low" } });
+      }
+    }
+    if (!keepLowDetail) {
+      content.push({
+        type: "text",
+        text: "[Screenshot removed to save context]",
+      });
+    }
+    replacements.push(new HumanMessage({ id: message.id, content }));
+  }
+
+  return replacements;
+}
+
+/**
+ * Whether a message belongs to a tool turn: a call, its result, or an
+ * observation. User messages and final answers are never summarized.
+ */
+function isToolTurnMessage(message: BaseMessage): boolean {
+  return (
+    isToolMessage(message) ||
+    (isAIMessage(message) && !!message.tool_calls?.length) ||
+    (isHumanMessage(message) && getText(message).startsWith(OBSERVATION_PREFIX))
+  );
+}
+
+/**
+ * Renders messages as plain text for a model which writes a summary of them.
+ */
+export function toTranscript(messages: BaseMessage[]): string {
+  return messages
+    .map((message) => {
+      if (isToolMessage(message)) {
+        const result = getText(message);
+        return `Result of ${message.name ?? "tool"}: ${
+          result.length > MAX_TRANSCRIPT_RESULT_CHARS
+            ? `${result.substring(0, MAX_TRANSCRIPT_RESULT_CHARS)}...[truncated]`
+            : result
+        }`;
+      }
+      if (isAIMessage(message)) {
+        const calls = (message.tool_calls ?? [])
+          .map((call) => `${call.name}(${JSON.stringify(call.args)})`)
+          .join("\n");
+        return `Agent: ${getText(message)}\nCalled:\n${calls}`;
+      }
+      return `${getText(message)}${hasImage(message) ? " [screenshot]" : ""}`;
+    })
+    .join("\n\n");
+}
+
+const SUMMARY_PROMPT = `You compress the working memory of an autonomous agent. Summarize the tool calls, results and observations below, merging them with the previous summary if there is one.
+Keep everything the agent still needs: file paths, commands and their outcomes, URLs, findings, values, errors and how they were resolved, and the current state of the environment. Drop details of steps which no longer matter. Reply with the summary only.`;
+
+/**
+ * Wraps the running summary as the message which stands in for the
+ * summarized tool turns in the model input.
+ */
+export function createContextSummaryMessage(summary: string): HumanMessage {
+  return new HumanMessage(
+    `[System Context Summary] Earlier tool calls and observations were summarized to save context:\n\n${summary}`,
+  );
+}
+
+/**
+ * Index of the message the summary ends at. Without the message, e.g. after
+ * a handoff, nothing is summarized.
+ */
+function getSummaryEnd(
+  history: BaseMessage[],
+  summaryEndId: string | undefined,
+): number {
+  return summaryEndId
+    ? Math.max(
+        0,
+        history.findIndex((m) => m.id === summaryEndId),
+      )
+    : 0;
+}
+
+/**
+ * The messages the model still sees in full: all from `summaryEndId` on, and
+ * before it the user messages and answers, whose tool turns the summary
+ * covers.
+ */
+export function getUnsummarizedMessages(
+  history: BaseMessage[],
+  summaryEndId: string | undefined,
+): BaseMessage[] {
+  const end = getSummaryEnd(history, summaryEndId);
+  return [
+    ...history.slice(0, end).filter((m) => !isToolTurnMessage(m)),
+    ...history.slice(end),
+  ];
+}
+
+export interface ManagedContext {
+  /**
+   * The model input: the summary, if any, followed by the compacted history.
+   */
+  messages: BaseMessage[];
+  /**
+   * Compacted screenshots for the `chat_history` reducer, which keep their
+   * IDs so they replace the originals.
+   */
+  updates: BaseMessage[];
+  summary?: string;
+  /**
+   * ID of the first message after the tool turns the summary covers.
+   */
+  summaryEndId?: string;
+  tokens: number;
+}
+
+/**
+ * Compacts the history before a model call. Screenshots are always compacted.
+ * Once the estimated input exceeds `maxTokens`, tool turns older than the
+ * recent messages are folded into the running summary and left out of the
+ * model input. They stay in the history, so the thread still shows them.
+ */
+export async function manageContext(
+  history: BaseMessage[],
+  summary: string | undefined,
+  summaryEndId: string | undefined,
+  config: ContextConfig,
+): Promise<ManagedContext> {
+  const updates = await compactScreenshots(history, config);
+  const replaced = new Map(updates.map((m) => [m.id, m]));
+  const compacted = history.map((m) => replaced.get(m.id) ?? m);
+  let messages = getUnsummarizedMessages(compacted, summaryEndId);
+
+  const withSummary = () =>
+    summary ? [createContextSummaryMessage(summary), ...messages] : messages;
+  let tokens = estimateTokens(withSummary());
+
+  if (tokens > config.maxTokens && config.summarizer) {
+    const start = getSummaryEnd(compacted, summaryEndId);
+    // The boundary is a message which stays, and never separates tool
+    // results from the call which requested them.
+    let cut = Math.max(
+      start,
+      compacted.length - Math.max(1, config.keepRecentMessages),
+    );
+    while (cut > start && isToolMessage(compacted[cut])) cut--;
+
+    const summarized = compacted.slice(start, cut).filter(isToolTurnMessage);
+    if (summarized.length) {
+      const response = await config.summarizer
+        .withConfig({ tags: ["nostream"] })
+        .invoke([
+          new SystemMessage(SUMMARY_PROMPT),
+          new HumanMessage(
+            `${summary ? `Previous summary:\n${summary}\n\n` : ""}Tool turns:\n${toTranscript(summarized)}`,
+          ),
+        ]);
+      summary = getText(response);
+      summaryEndId = compacted[cut].id;
+      messages = getUnsummarizedMessages(compacted, summaryEndId);
+      tokens = estimateTokens(withSummary());
+    }
+  }
+
+  return { messages: withSummary(), updates, summary, summaryEndId, tokens };
+}
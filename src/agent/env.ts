@@ -0,0 +1,11 @@
+/**
+ * Parses a number from an environment variable, falling back when it is unset
+ * or not a number.
+ */
+export function readNumber(
+  value: string | undefined,
+  fallback: number,
+): number {
+  const parsed = parseFloat(value || "");
+  return Number.isNaN(parsed) ? fallback : parsed;
+}
@@ -0,0 +1,218 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  EnvironmentAPI,
+  EnvironmentError,
+  HttpEnvironment,
+  HttpEnvironmentConfig,
+} from "./environment";
+import {
+  MockEnvironmentServer,
+  startMockEnvironmentServer,
+} from "./mock-server";
+
+function unavailable(status = 503, retryAfterMs?: number) {
+  return new EnvironmentError("Runtime is busy", status, undefined, {
+    retryAfterMs,
+  });
+}
+
+function delay<T>(ms: number, value: T): Promise<T> {
+  return new Promise((resolve) => setTimeout(() => resolve(value), ms));
+}
+
+describe("HttpEnvironment", () => {
+  let server: MockEnvironmentServer | undefined;
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await server?.close();
+    server = undefined;
+  });
+
+  /**
+   * Serves `executeTool` through the mock server, so the client sees real
+   * status codes and headers.
+   */
+  async function connect(
+    executeTool: EnvironmentAPI["executeTool"],
+    config: Partial<HttpEnvironmentConfig> = {},
+  ) {
+    const runtime = { executeTool: vi.fn(executeTool) };
+    server = await startMockEnvironmentServer({ environment: runtime });
+    const environment = new HttpEnvironment({
+      baseUrl: server.url,
+      ...config,
+      retry: { baseDelayMs: 1, ...config.retry },
+    });
+    return { runtime, environment };
+  }
+
+  it("retries idempotent tools on transient failures", async () => {
+    let calls = 0;
+    const { runtime, environment } = await connect(async () => {
+      if (++calls < 3) throw unavailable();
+      return { files: [] };
+    });
+
+    expect(
+      await environment.executeTool("ls", { path: "/project/workspace" }),
+    ).toEqual({ files: [] });
+    expect(runtime.executeTool).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not retry tools which are not idempotent", async () => {
+    const { runtime, environment } = await connect(async () => {
+      throw unavailable();
+    });
+
+    const error = await environment
+      .executeTool("write", { file_path: "/project/workspace/a", content: "" })
+      .catch((e) => e);
+
+    expect(error).toMatchObject({ status: 503, attempts: 1, retryable: true });
+    expect(runtime.executeTool).toHaveBeenCalledTimes(1);
+  });
+
+  it("only retries computer calls which take a screenshot", async () => {
+    const { runtime, environment } = await connect(async () => {
+      throw unavailable();
+    });
+
+    await environment
+      .executeTool("computer", { action: "left_click" })
+      .catch(() => {});
+    await environment
+      .executeTool("computer", { action: "screenshot" })
+      .catch(() => {});
+
+    expect(runtime.executeTool).toHaveBeenCalledTimes(4);
+  });
+
+  it("backs off exponentially between attempts", async () => {
+    // No jitter, so each delay is the full backoff.
+    vi.spyOn(Math, "random").mockReturnValue(1);
+    const { environment } = await connect(
+      async () => {
+        throw unavailable();
+      },
+      { retry: { baseDelayMs: 100, maxAttempts: 3 } },
+    );
+
+    const startedAt = Date.now();
+    const error = await environment
+      .executeTool("read", { file_path: "/project/workspace/a" })
+      .catch((e) => e);
+
+    expect(error).toMatchObject({ attempts: 3 });
+    // 100ms, then 200ms.
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(300);
+  });
+
+  it("waits as long as Retry-After asks", async () => {
+    let calls = 0;
+    const { environment } = await connect(async () => {
+      if (++calls === 1) throw unavailable(429, 1000);
+      return "ok";
+    });
+
+    const startedAt = Date.now();
+    expect(await environment.executeTool("web_search", { query: "a" })).toBe(
+      "ok",
+    );
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(1000);
+  });
+
+  it("times out each tool after its own timeout", async () => {
+    const { environment } = await connect(() => delay(300, "late"), {
+      timeoutMs: 5000,
+      toolTimeoutsMs: { grep: 50 },
+      retry: { maxAttempts: 1 },
+    });
+
+    const startedAt = Date.now();
+    const error = await environment
+      .executeTool("grep", { pattern: "a" })
+      .catch((e) => e);
+
+    expect(error).toMatchObject({
+      message: "Request timed out after 50ms",
+      retryable: true,
+    });
+    expect(Date.now() - startedAt).toBeLessThan(300);
+  });
+
+  it("opens the circuit after consecutive failures", async () => {
+    const { runtime, environment } = await connect(
+      async () => {
+        throw unavailable();
+      },
+      {
+        retry: { maxAttempts: 1 },
+        circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 60000 },
+      },
+    );
+    const read = () =>
+      environment
+        .executeTool("read", { file_path: "/project/workspace/a" })
+        .catch((e) => e);
+
+    await read();
+    await read();
+    const error = (await read()) as EnvironmentError;
+
+    expect(error).toMatchObject({ circuitOpen: true, retryable: true });
+    expect(error.retryAfterMs).toBeGreaterThan(0);
+    expect(runtime.executeTool).toHaveBeenCalledTimes(2);
+  });
+
+  it("lets a single trial call through once the circuit is half open", async () => {
+    let failing = true;
+    const { runtime, environment } = await connect(
+      async () => {
+        if (failing) throw unavailable();
+        return delay(100, "ok");
+      },
+      {
+        retry: { maxAttempts: 1 },
+        circuitBreaker: { failureThreshold: 1, resetTimeoutMs: 50 },
+      },
+    );
+    const read = () =>
+      environment
+        .executeTool("read", { file_path: "/project/workspace/a" })
+        .catch((e) => e);
+
+    await read();
+    await delay(60, undefined);
+    failing = false;
+    const [trial, concurrent] = await Promise.all([read(), read()]);
+
+    expect(trial).toBe("ok");
+    expect(concurrent).toMatchObject({ circuitOpen: true });
+    expect(runtime.executeTool).toHaveBeenCalledTimes(2);
+    // The trial's success closed the circuit.
+    expect(await read()).toBe("ok");
+  });
+
+  it("opens the circuit again when the trial call fails", async () => {
+    const { runtime, environment } = await connect(
+      async () => {
+        throw unavailable();
+      },
+      {
+        retry: { maxAttempts: 1 },
+        circuitBreaker: { failureThreshold: 1, resetTimeoutMs: 50 },
+      },
+    );
+    const read = () =>
+      environment
+        .executeTool("read", { file_path: "/project/workspace/a" })
+        .catch((e) => e);
+
+    await read();
+    await delay(60, undefined);
+    expect(await read()).toMatchObject({ status: 503 });
+    expect(await read()).toMatchObject({ circuitOpen: true });
+    expect(runtime.executeTool).toHaveBeenCalledTimes(2);
+  });
+});
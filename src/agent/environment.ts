@@ -5,37 +5,166 @@ export interface EnvironmentAPI {
    * @param input - Parameters conforming to the tool's Zod schema.
    */
   executeTool(tool: string, input: unknown): Promise<unknown>;
+  /**
+   * Execute a tool, yielding its output as it is produced. The final event is
+   * always a `result` carrying the same value `executeTool` would resolve to.
+   * Optional; callers fall back to `executeTool` when it is not implemented.
+   */
+  executeToolStream?(
+    tool: string,
+    input: unknown,
+  ): AsyncIterable<ToolStreamEvent>;
+}
+
+/**
+ * One line of a streamed tool call, sent as NDJSON by the runtime.
+ */
+export type ToolStreamEvent =
+  | { type: "stdout" | "stderr"; data: string }
+  | { type: "result"; result: unknown };
+
+export interface EnvironmentErrorOptions {
+  /**
+   * Number of requests made before giving up.
+   */
+  attempts?: number;
+  /**
+   * Whether the failure was transient, e.g. a timeout, a 429 or a 5xx.
+   */
+  retryable?: boolean;
+  /**
+   * Delay requested by the runtime's `Retry-After` header.
+   */
+  retryAfterMs?: number;
+  /**
+   * Set when the call was rejected without a request because the circuit is open.
+   */
+  circuitOpen?: boolean;
 }
 
 /**
  * Error wrapper for environment interaction failures.
  */
 export class EnvironmentError extends Error {
+  public attempts?: number;
+  public retryable: boolean;
+  public retryAfterMs?: number;
+  public circuitOpen: boolean;
+
   constructor(
     message: string,
     public status?: number,
     public details?: unknown,
+    options: EnvironmentErrorOptions = {},
   ) {
     super(message);
     this.name = "EnvironmentError";
+    this.attempts = options.attempts;
+    this.retryable = options.retryable ?? false;
+    this.retryAfterMs = options.retryAfterMs;
+    this.circuitOpen = options.circuitOpen ?? false;
   }
 }
 
+export interface RetryConfig {
+  /**
+   * Total attempts for idempotent tools, including the first. Defaults to 3.
+   */
+  maxAttempts?: number;
+  /**
+   * Delay before the first retry, doubled on each subsequent one. Defaults to 500ms.
+   */
+  baseDelayMs?: number;
+  /**
+   * Upper bound for a single delay, including `Retry-After`. Defaults to 10s.
+   */
+  maxDelayMs?: number;
+  /**
+   * Tools safe to call more than once. `computer` is only retried for screenshots.
+   */
+  idempotentTools?: string[];
+}
+
+export interface CircuitBreakerConfig {
+  /**
+   * Consecutive runtime failures which open the circuit. Defaults to 5.
+   */
+  failureThreshold?: number;
+  /**
+   * How long the circuit stays open before a single trial request is let
+   * through. Defaults to 30s.
+   */
+  resetTimeoutMs?: number;
+}
+
 export interface HttpEnvironmentConfig {
   baseUrl: string;
   apiKey?: string;
+  /**
+   * Default request timeout, used for tools without an entry in `toolTimeoutsMs`.
+   */
   timeoutMs?: number;
+  /**
+   * Per tool request timeouts. Merged over `DEFAULT_TOOL_TIMEOUTS_MS`.
+   */
+  toolTimeoutsMs?: Record<string, number>;
+  retry?: RetryConfig;
+  circuitBreaker?: CircuitBreakerConfig;
+}
+
+export const DEFAULT_IDEMPOTENT_TOOLS = [
+  "read",
+  "ls",
+  "glob",
+  "grep",
+  "web_search",
+  "computer",
+];
+
+export const DEFAULT_TOOL_TIMEOUTS_MS: Record<string, number> = {
+  read: 15000,
+  ls: 15000,
+  glob: 15000,
+  grep: 30000,
+};
+
+// bash_run's own `timeout` argument is in seconds; the request allows for it plus this grace period.
+const BASH_RUN_GRACE_MS = 15000;
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
 }
 
 /**
  * HTTP implementation of the environment API that forwards tool calls to the
  * remote AISDK5 runtime.
+ *
+ * Idempotent tools are retried with exponential backoff and jitter on transient
+ * failures. Consecutive runtime failures open a circuit breaker, which fails
+ * calls immediately until `resetTimeoutMs` has passed. Then one trial call is
+ * let through: its success closes the circuit, its failure opens it again.
  */
 export class HttpEnvironment implements EnvironmentAPI {
-  private config: Required<Omit<HttpEnvironmentConfig, "apiKey">> & {
+  private config: Required<
+    Omit<HttpEnvironmentConfig, "apiKey" | "retry" | "circuitBreaker">
+  > & {
     apiKey: string;
+    retry: Required<RetryConfig>;
+    circuitBreaker: Required<CircuitBreakerConfig>;
   };
 
+  private consecutiveFailures = 0;
+  private circuitOpenedAt?: number;
+  private trialInFlight = false;
+
   constructor(config: HttpEnvironmentConfig) {
     if (!config.baseUrl) {
       throw new Error("Environment runtime base URL is required.");
@@ -44,61 +173,292 @@ export class HttpEnvironment implements EnvironmentAPI {
       baseUrl: config.baseUrl,
       apiKey: config.apiKey || "",
       timeoutMs: config.timeoutMs || 65000,
+      toolTimeoutsMs: {
+        ...DEFAULT_TOOL_TIMEOUTS_MS,
+        ...config.toolTimeoutsMs,
+      },
+      retry: {
+        maxAttempts: config.retry?.maxAttempts ?? 3,
+        baseDelayMs: config.retry?.baseDelayMs ?? 500,
+        maxDelayMs: config.retry?.maxDelayMs ?? 10000,
+        idempotentTools:
+          config.retry?.idempotentTools ?? DEFAULT_IDEMPOTENT_TOOLS,
+      },
+      circuitBreaker: {
+        failureThreshold: config.circuitBreaker?.failureThreshold ?? 5,
+        resetTimeoutMs: config.circuitBreaker?.resetTimeoutMs ?? 30000,
+      },
     };
   }
 
   async executeTool(tool: string, input: unknown): Promise<unknown> {
-    const signal = AbortSignal.timeout(this.config.timeoutMs);
+    const maxAttempts = this.isIdempotent(tool, input)
+      ? Math.max(1, this.config.retry.maxAttempts)
+      : 1;
 
-    try {
-      const response = await fetch(`${this.config.baseUrl}/tools/${tool}`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          ...(this.config.apiKey
-            ? { Authorization: `Bearer ${this.config.apiKey}` }
-            : {}),
-        },
-        body: JSON.stringify(input),
-        signal,
-      });
-
-      let body: any;
-      const contentType = response.headers.get("content-type");
+    for (let attempt = 1; ; attempt++) {
+      const isTrial = this.checkCircuit();
       try {
-        if (contentType && contentType.includes("application/json")) {
-          body = await response.json();
-        } else {
-          body = await response.text();
+        const result = await this.request(tool, input);
+        this.recordSuccess();
+        return result;
+      } catch (error: any) {
+        const environmentError = error as EnvironmentError;
+        environmentError.attempts = attempt;
+        this.recordError(environmentError);
+        if (!environmentError.retryable || attempt >= maxAttempts) {
+          throw environmentError;
         }
-      } catch (e) {
-        body = {
-          error: "Failed to parse response body from environment runtime",
-        };
+        await sleep(this.getRetryDelay(attempt, environmentError));
+      } finally {
+        if (isTrial) this.trialInFlight = false;
       }
+    }
+  }
 
-      if (!response.ok) {
-        const errorMessage =
-          body?.error ||
-          body?.message ||
-          String(body) ||
-          `Environment call failed with status ${response.status}`;
-        throw new EnvironmentError(String(errorMessage), response.status, body);
-      }
+  private isIdempotent(tool: string, input: unknown): boolean {
+    if (!this.config.retry.idempotentTools.includes(tool)) return false;
+    if (tool === "computer") {
+      return (
+        (input as { action?: string } | undefined)?.action === "screenshot"
+      );
+    }
+    return true;
+  }
 
-      return body;
-    } catch (error: any) {
-      if (error.name === "TimeoutError" || error.name === "AbortError") {
-        throw new EnvironmentError(
-          `Request timed out after ${this.config.timeoutMs}ms`,
-        );
+  private getTimeout(tool: string, input: unknown): number {
+    const configured =
+      this.config.toolTimeoutsMs[tool] ?? this.config.timeoutMs;
+    if (tool === "bash_run") {
+      const commandTimeout = (input as { timeout?: number } | undefined)
+        ?.timeout;
+      if (typeof commandTimeout === "number") {
+        return Math.max(configured, commandTimeout * 1000 + BASH_RUN_GRACE_MS);
       }
-      if (error instanceof EnvironmentError) {
-        throw error;
+    }
+    return configured;
+  }
+
+  private getRetryDelay(attempt: number, error: EnvironmentError): number {
+    const { baseDelayMs, maxDelayMs } = this.config.retry;
+    if (error.retryAfterMs !== undefined) {
+      return Math.min(error.retryAfterMs, maxDelayMs);
+    }
+    const backoff = Math.min(baseDelayMs * 2 ** (attempt - 1), maxDelayMs);
+    // Full jitter, so concurrent callers don't retry in lockstep.
+    return Math.random() * backoff;
+  }
+
+  /**
+   * Throws while the circuit is open. Once it is half open, lets the first
+   * call through as the trial and keeps failing the others until the trial
+   * settles. Returns whether this call is the trial.
+   */
+  private checkCircuit(): boolean {
+    if (this.circuitOpenedAt === undefined) return false;
+    const { resetTimeoutMs } = this.config.circuitBreaker;
+    const remainingMs = this.circuitOpenedAt + resetTimeoutMs - Date.now();
+    if (remainingMs > 0 || this.trialInFlight) {
+      throw new EnvironmentError(
+        remainingMs > 0
+          ? `Environment runtime is unavailable after ${this.consecutiveFailures} consecutive failures. Retrying in ${Math.ceil(remainingMs / 1000)}s.`
+          : `Environment runtime is unavailable after ${this.consecutiveFailures} consecutive failures. A trial request is in progress.`,
+        undefined,
+        undefined,
+        {
+          circuitOpen: true,
+          retryable: true,
+          retryAfterMs: Math.max(0, remainingMs),
+        },
+      );
+    }
+    this.trialInFlight = true;
+    return true;
+  }
+
+  private recordSuccess() {
+    this.consecutiveFailures = 0;
+    this.circuitOpenedAt = undefined;
+  }
+
+  /**
+   * Only transient failures count towards the circuit breaker. Any other
+   * error was answered by the runtime, which is therefore up.
+   */
+  private recordError(error: EnvironmentError) {
+    if (!error.retryable) {
+      this.recordSuccess();
+      return;
+    }
+    this.consecutiveFailures++;
+    if (
+      this.consecutiveFailures >= this.config.circuitBreaker.failureThreshold
+    ) {
+      this.circuitOpenedAt = Date.now();
+    }
+  }
+
+  /**
+   * Streams a tool call as NDJSON. Runtimes which do not support streaming
+   * answer with plain JSON, which is yielded as a single `result` event.
+   * Streamed calls are never retried, but do count towards the circuit breaker.
+   */
+  async *executeToolStream(
+    tool: string,
+    input: unknown,
+  ): AsyncGenerator<ToolStreamEvent> {
+    const isTrial = this.checkCircuit();
+    const timeoutMs = this.getTimeout(tool, input);
+
+    try {
+      const response = await this.post(
+        tool,
+        input,
+        AbortSignal.timeout(timeoutMs),
+        "application/x-ndjson",
+      );
+      if (
+        !response.body ||
+        !response.headers.get("content-type")?.includes("application/x-ndjson")
+      ) {
+        yield { type: "result", result: await this.parseBody(response) };
+      } else {
+        const decoder = new TextDecoder();
+        let buffer = "";
+        const reader = response.body.getReader();
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          buffer += decoder.decode(value, { stream: true });
+          const lines = buffer.split("\n");
+          buffer = lines.pop() ?? "";
+          for (const line of lines) {
+            if (line.trim()) yield this.parseStreamLine(line);
+          }
+        }
+        if (buffer.trim()) yield this.parseStreamLine(buffer);
       }
+      this.recordSuccess();
+    } catch (error: any) {
+      const environmentError = this.toEnvironmentError(error, timeoutMs);
+      environmentError.attempts = 1;
+      this.recordError(environmentError);
+      throw environmentError;
+    } finally {
+      // Also runs when the caller stops reading early.
+      if (isTrial) this.trialInFlight = false;
+    }
+  }
+
+  private parseStreamLine(line: string): ToolStreamEvent {
+    let event: any;
+    try {
+      event = JSON.parse(line);
+    } catch {
+      throw new EnvironmentError(
+        "Failed to parse streamed response from environment runtime",
+        undefined,
+        line,
+      );
+    }
+    // Failures after the response has started are sent in-band.
+    if (event?.type === "error") {
       throw new EnvironmentError(
-        `Network or configuration error: ${error.message}`,
+        String(event.error ?? "Streamed tool call failed"),
+        event.status,
+        event.details,
       );
     }
+    return event;
+  }
+
+  private async request(tool: string, input: unknown): Promise<unknown> {
+    const timeoutMs = this.getTimeout(tool, input);
+
+    try {
+      const response = await this.post(
+        tool,
+        input,
+        AbortSignal.timeout(timeoutMs),
+      );
+      return await this.parseBody(response);
+    } catch (error: any) {
+      throw this.toEnvironmentError(error, timeoutMs);
+    }
+  }
+
+  /**
+   * Sends the tool call, throwing an `EnvironmentError` for non 2xx responses.
+   */
+  private async post(
+    tool: string,
+    input: unknown,
+    signal: AbortSignal,
+    accept = "application/json",
+  ): Promise<Response> {
+    const response = await fetch(`${this.config.baseUrl}/tools/${tool}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: accept,
+        ...(this.config.apiKey
+          ? { Authorization: `Bearer ${this.config.apiKey}` }
+          : {}),
+      },
+      body: JSON.stringify(input),
+      signal,
+    });
+
+    if (!response.ok) {
+      const body: any = await this.parseBody(response);
+      const errorMessage =
+        body?.error ||
+        body?.message ||
+        String(body) ||
+        `Environment call failed with status ${response.status}`;
+      throw new EnvironmentError(String(errorMessage), response.status, body, {
+        retryable: response.status === 429 || response.status >= 500,
+        retryAfterMs:
+          response.status === 429 || response.status === 503
+            ? parseRetryAfter(response.headers.get("retry-after"))
+            : undefined,
+      });
+    }
+
+    return response;
+  }
+
+  private async parseBody(response: Response): Promise<unknown> {
+    const contentType = response.headers.get("content-type");
+    try {
+      if (contentType && contentType.includes("application/json")) {
+        return await response.json();
+      }
+      return await response.text();
+    } catch (e) {
+      return {
+        error: "Failed to parse response body from environment runtime",
+      };
+    }
+  }
+
+  private toEnvironmentError(error: any, timeoutMs: number): EnvironmentError {
+    if (error.name === "TimeoutError" || error.name === "AbortError") {
+      return new EnvironmentError(
+        `Request timed out after ${timeoutMs}ms`,
+        undefined,
+        undefined,
+        { retryable: true },
+      );
+    }
+    if (error instanceof EnvironmentError) {
+      return error;
+    }
+    return new EnvironmentError(
+      `Network or configuration error: ${error.message}`,
+      undefined,
+      undefined,
+      { retryable: true },
+    );
   }
 }
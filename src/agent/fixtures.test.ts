@@ -0,0 +1,126 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { AIMessage, BaseMessage, HumanMessage } from "@langchain/core/messages";
+import { RunnableLambda } from "@langchain/core/runnables";
+import { createScoutGraph } from "./scout";
+import { MockEnvironment } from "./mock-environment";
+import {
+  FixtureMismatchError,
+  FixtureModel,
+  FixturePlayer,
+  FixtureRecorder,
+} from "./fixtures";
+
+const TURNS = [
+  new AIMessage({
+    content: "",
+    tool_calls: [
+      {
+        name: "read",
+        args: { file_path: "/project/workspace/index.ts" },
+        id: "call_read",
+        type: "tool_call",
+      },
+      {
+        name: "bash_run",
+        args: { command: "bun test", description: "Run the test suite" },
+        id: "call_bash",
+        type: "tool_call",
+      },
+    ],
+  }),
+  new AIMessage("The tests pass."),
+];
+
+/**
+ * Records a scripted model instead of creating the configured one, so the
+ * recording needs no network access either.
+ */
+class ScriptedRecorder extends FixtureRecorder {
+  private turn = 0;
+
+  wrapModel(): FixtureModel {
+    return super.wrapModel(() =>
+      RunnableLambda.from(async () => TURNS[this.turn++]),
+    );
+  }
+}
+
+function createEnvironment() {
+  return new MockEnvironment({
+    files: { "/project/workspace/index.ts": "export {};" },
+    shell: [{ match: "bun test", stdout: "1 pass" }],
+  });
+}
+
+function getContents(state: Record<string, any>) {
+  return (state.chat_history as BaseMessage[]).map(
+    (message) => message.content,
+  );
+}
+
+describe("FixtureRecorder and FixturePlayer", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "scout-fixture-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("replays a recorded Scout run", async () => {
+    const path = join(directory, "run.json");
+    const input = {
+      chat_history: [new HumanMessage("Run the tests.")],
+    };
+
+    const recorder = new ScriptedRecorder(path);
+    const recorded = await (
+      await createScoutGraph({
+        environmentApi: recorder.wrapEnvironment(createEnvironment()),
+        fixture: recorder,
+      })
+    ).invoke(input);
+
+    const player = await FixturePlayer.load(path);
+    expect(player.fixture.model).toHaveLength(2);
+    expect(player.fixture.tools.map((e) => e.tool).sort()).toEqual([
+      "bash_run",
+      "read",
+    ]);
+    const replayed = await (
+      await createScoutGraph({
+        environmentApi: player.environment(),
+        fixture: player,
+      })
+    ).invoke(input);
+
+    expect(getContents(replayed)).toEqual(getContents(recorded));
+    expect(player.getUnused()).toEqual({ model: 0, tools: 0 });
+  });
+
+  it("fails a replay which diverges from the recording", async () => {
+    const path = join(directory, "run.json");
+    const recorder = new ScriptedRecorder(path);
+    await (
+      await createScoutGraph({
+        environmentApi: recorder.wrapEnvironment(createEnvironment()),
+        fixture: recorder,
+      })
+    ).invoke({ chat_history: [new HumanMessage("Run the tests.")] });
+
+    const player = await FixturePlayer.load(path);
+    const replay = await createScoutGraph({
+      environmentApi: player.environment(),
+      fixture: player,
+    });
+
+    await expect(
+      replay.invoke({ chat_history: [new HumanMessage("Lint the code.")] }),
+    ).rejects.toThrow(FixtureMismatchError);
+  });
+});
@@ -0,0 +1,471 @@
+import { createHash } from "node:crypto";
+import { readFile, writeFile } from "node:fs/promises";
+import {
+  AIMessage,
+  AIMessageChunk,
+  BaseMessage,
+  coerceMessageLikeToMessage,
+  HumanMessage,
+  isAIMessage,
+  isToolMessage,
+  MessageContent,
+  UsageMetadata,
+} from "@langchain/core/messages";
+import type { ToolCall } from "@langchain/core/messages/tool";
+import type { BaseLanguageModelInput } from "@langchain/core/language_models/base";
+import { Runnable, RunnableLambda } from "@langchain/core/runnables";
+import {
+  EnvironmentAPI,
+  EnvironmentError,
+  ToolStreamEvent,
+} from "./environment";
+import type { VmProvider } from "./vm-provider";
+
+/**
+ * A model call, keyed by a hash of its input.
+ */
+export interface ModelExchange {
+  key: string;
+  response: {
+    id?: string;
+    content: MessageContent;
+    tool_calls: ToolCall[];
+    usage_metadata?: UsageMetadata;
+    /**
+     * Carry the output of the Responses API, e.g. the computer use model's
+     * computer calls and the response ID the next request continues.
+     */
+    additional_kwargs?: Record<string, unknown>;
+    response_metadata?: Record<string, unknown>;
+  };
+}
+
+/**
+ * An environment tool call, keyed by the tool and its input. Calls of a
+ * `VmProvider` method are recorded as tool `vm.<method>` with the arguments
+ * as input.
+ */
+export interface ToolExchange {
+  key: string;
+  tool: string;
+  input: unknown;
+  /**
+   * Output streamed before the result, for calls made through
+   * `executeToolStream`.
+   */
+  events?: ToolStreamEvent[];
+  result?: unknown;
+  error?: {
+    name: string;
+    message: string;
+    status?: number;
+    details?: unknown;
+    retryable?: boolean;
+  };
+}
+
+export interface Fixture {
+  version: 1;
+  model: ModelExchange[];
+  tools: ToolExchange[];
+}
+
+/**
+ * Model which can be recorded or replayed: a chat model, or a chat model
+ * with tools bound.
+ */
+export type FixtureModel = Runnable<
+  BaseLanguageModelInput,
+  AIMessage | AIMessageChunk
+>;
+
+/**
+ * The `VmProvider` methods which are recorded and replayed.
+ */
+const VM_PROVIDER_METHODS = [
+  "create",
+  "list",
+  "get",
+  "status",
+  "pause",
+  "resume",
+  "stop",
+  "screenshot",
+  "streamUrl",
+  "computer",
+  "authenticate",
+  "snapshot",
+  "listSnapshots",
+  "restore",
+] as const;
+
+type VmProviderMethod = (...args: unknown[]) => Promise<unknown>;
+
+/**
+ * Thrown on replay when the agent makes a call the fixture has no recording
+ * for, i.e. the trajectory diverged from the recorded one.
+ */
+export class FixtureMismatchError extends Error {
+  constructor(
+    message: string,
+    public key: string,
+  ) {
+    super(message);
+    this.name = "FixtureMismatchError";
+  }
+}
+
+/**
+ * JSON with object keys sorted, so equal values always serialize the same.
+ */
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, v) =>
+    v && typeof v === "object" && !Array.isArray(v)
+      ? Object.fromEntries(
+          Object.keys(v)
+            .sort()
+            .map((k) => [k, v[k]]),
+        )
+      : v,
+  );
+}
+
+function hash(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+function toMessages(input: BaseLanguageModelInput): BaseMessage[] {
+  if (typeof input === "string") return [new HumanMessage(input)];
+  if (Array.isArray(input)) return input.map(coerceMessageLikeToMessage);
+  return input.toChatMessages();
+}
+
+/**
+ * Hashes what the model sees of its input. Message IDs are left out since
+ * the workflow generates them randomly.
+ */
+export function getModelRequestKey(input: BaseLanguageModelInput): string {
+  const messages = toMessages(input).map((message) => ({
+    type: message._getType(),
+    content: message.content,
+    tool_calls: isAIMessage(message)
+      ? message.tool_calls?.map(({ name, args, id }) => ({ name, args, id }))
+      : undefined,
+    tool_call_id: isToolMessage(message) ? message.tool_call_id : undefined,
+  }));
+  return hash(stableStringify(messages));
+}
+
+export function getToolRequestKey(tool: string, input: unknown): string {
+  return `${tool}:${hash(stableStringify(input ?? null))}`;
+}
+
+function toError(exchange: ToolExchange): Error {
+  const { name, message, status, details, retryable } = exchange.error!;
+  if (name === "EnvironmentError") {
+    return new EnvironmentError(message, status, details, { retryable });
+  }
+  const error = new Error(message);
+  error.name = name;
+  return error;
+}
+
+/**
+ * Captures the model calls and environment tool calls of a run. Wrap the
+ * agent's model with `wrapModel` and its environment with
+ * `wrapEnvironment`, or its VM provider with `wrapVmProvider`, then `save`
+ * the fixture for `FixturePlayer`.
+ */
+export class FixtureRecorder {
+  readonly fixture: Fixture = { version: 1, model: [], tools: [] };
+
+  private saving: Promise<void> = Promise.resolve();
+
+  /**
+   * @param path - When set, the fixture is written there after every call,
+   * so runs which crash or are cancelled still leave a fixture behind.
+   */
+  constructor(private path?: string) {}
+
+  wrapModel(createModel: () => FixtureModel): FixtureModel {
+    const model = createModel();
+    return RunnableLambda.from(
+      async (input: BaseLanguageModelInput, config) => {
+        const response = await model.invoke(input, config);
+        this.fixture.model.push({
+          key: getModelRequestKey(input),
+          response: {
+            id: response.id,
+            content: response.content,
+            tool_calls: response.tool_calls ?? [],
+            usage_metadata: response.usage_metadata,
+            additional_kwargs: response.additional_kwargs,
+            response_metadata: response.response_metadata,
+          },
+        });
+        await this.autosave();
+        return response;
+      },
+    ).withConfig({ runName: "FixtureRecorder" });
+  }
+
+  wrapEnvironment(environment: EnvironmentAPI): EnvironmentAPI {
+    const record = this.record.bind(this);
+    const recordError = this.recordError.bind(this);
+    const call = this.call.bind(this);
+
+    const wrapped: EnvironmentAPI = {
+      executeTool: (tool, input) =>
+        call(tool, input, () => environment.executeTool(tool, input)),
+    };
+
+    if (environment.executeToolStream) {
+      const executeToolStream = environment.executeToolStream.bind(environment);
+      wrapped.executeToolStream = async function* (tool, input) {
+        const events: ToolStreamEvent[] = [];
+        try {
+          for await (const event of executeToolStream(tool, input)) {
+            if (event.type === "result") {
+              await record(tool, input, { events, result: event.result });
+            } else {
+              events.push(event);
+            }
+            yield event;
+          }
+        } catch (error) {
+          await recordError(tool, input, error);
+          throw error;
+        }
+      };
+    }
+
+    return wrapped;
+  }
+
+  wrapVmProvider(provider: VmProvider): VmProvider {
+    const wrapped: Record<string, unknown> = {
+      images: provider.images,
+      hasTimeout: provider.hasTimeout,
+      recordsOwners: provider.recordsOwners,
+    };
+    for (const method of VM_PROVIDER_METHODS) {
+      const run = provider[method] as VmProviderMethod | undefined;
+      if (!run) continue;
+      wrapped[method] = (...args: unknown[]) =>
+        this.call(`vm.${method}`, args, () => run.apply(provider, args));
+    }
+    if (provider.withApiKey) {
+      wrapped.withApiKey = (apiKey: string) =>
+        this.wrapVmProvider(provider.withApiKey!(apiKey));
+    }
+    return wrapped as unknown as VmProvider;
+  }
+
+  async save(path: string | undefined = this.path): Promise<void> {
+    if (!path) throw new Error("No fixture path to save to.");
+    // Writes are chained so concurrent tool calls never interleave them.
+    this.saving = this.saving.then(() =>
+      writeFile(path, JSON.stringify(this.fixture, null, 2)),
+    );
+    return this.saving;
+  }
+
+  private async autosave(): Promise<void> {
+    if (this.path) await this.save();
+  }
+
+  private async record(
+    tool: string,
+    input: unknown,
+    outcome: Pick<ToolExchange, "events" | "result" | "error">,
+  ): Promise<void> {
+    this.fixture.tools.push({
+      key: getToolRequestKey(tool, input),
+      tool,
+      input,
+      ...outcome,
+    });
+    await this.autosave();
+  }
+
+  private recordError(
+    tool: string,
+    input: unknown,
+    error: unknown,
+  ): Promise<void> {
+    const { name, message } =
+      error instanceof Error ? error : new Error(String(error));
+    return this.record(tool, input, {
+      error:
+        error instanceof EnvironmentError
+          ? {
+              name,
+              message,
+              status: error.status,
+              details: error.details,
+              retryable: error.retryable,
+            }
+          : { name, message },
+    });
+  }
+
+  /**
+   * Runs a call and records its result, or the error it threw.
+   */
+  private async call<T>(
+    tool: string,
+    input: unknown,
+    run: () => Promise<T>,
+  ): Promise<T> {
+    try {
+      const result = await run();
+      await this.record(tool, input, { result });
+      return result;
+    } catch (error) {
+      await this.recordError(tool, input, error);
+      throw error;
+    }
+  }
+}
+
+export interface FixturePlayerOptions {
+  /**
+   * When false, a model call without a matching recording gets the earliest
+   * unused response instead of failing, e.g. to replay a fixture after a
+   * prompt change. Defaults to true.
+   */
+  strict?: boolean;
+}
+
+/**
+ * Serves a recorded fixture back without any network access. Calls are
+ * matched by their input rather than their position, so concurrent tool
+ * calls and sub-agents may run in any order. Identical calls get their
+ * recordings in the order they were made.
+ */
+export class FixturePlayer {
+  private usedModel = new Set<ModelExchange>();
+
+  private usedTools = new Set<ToolExchange>();
+
+  constructor(
+    readonly fixture: Fixture,
+    private options: FixturePlayerOptions = {},
+  ) {}
+
+  static async load(
+    path: string,
+    options?: FixturePlayerOptions,
+  ): Promise<FixturePlayer> {
+    const fixture = JSON.parse(await readFile(path, "utf-8")) as Fixture;
+    if (fixture.version !== 1) {
+      throw new Error(`Unsupported fixture version: ${fixture.version}`);
+    }
+    return new FixturePlayer(fixture, options);
+  }
+
+  /**
+   * Returns the replay model. The real model is never created.
+   */
+  wrapModel(_createModel?: () => FixtureModel): FixtureModel {
+    return RunnableLambda.from(async (input: BaseLanguageModelInput) => {
+      const key = getModelRequestKey(input);
+      const unused = this.fixture.model.filter(
+        (exchange) => !this.usedModel.has(exchange),
+      );
+      const exchange =
+        unused.find((e) => e.key === key) ??
+        (this.options.strict === false ? unused[0] : undefined);
+      if (!exchange) {
+        throw new FixtureMismatchError(
+          `No recorded model response for request ${key}. The run diverged from the fixture, which needs to be recorded again.`,
+          key,
+        );
+      }
+      this.usedModel.add(exchange);
+      return new AIMessage(exchange.response);
+    }).withConfig({ runName: "FixturePlayer" });
+  }
+
+  /**
+   * Returns an environment which answers tool calls from the fixture.
+   */
+  environment(): EnvironmentAPI {
+    const take = this.take.bind(this);
+
+    return {
+      executeTool: async (tool, input) => this.replay(tool, input),
+      async *executeToolStream(tool, input) {
+        const exchange = take(tool, input);
+        yield* exchange.events ?? [];
+        if (exchange.error) throw toError(exchange);
+        yield { type: "result", result: exchange.result };
+      },
+    };
+  }
+
+  /**
+   * Returns a VM provider which answers calls from the fixture. It has no
+   * images of its own, since only the recorded instances exist.
+   */
+  vmProvider(): VmProvider {
+    const provider: Record<string, unknown> = {
+      images: [],
+      hasTimeout: false,
+      recordsOwners: false,
+    };
+    for (const method of VM_PROVIDER_METHODS) {
+      provider[method] = async (...args: unknown[]) =>
+        this.replay(`vm.${method}`, args);
+    }
+    return provider as unknown as VmProvider;
+  }
+
+  /**
+   * Recordings not served yet. A replay which followed the recorded
+   * trajectory to the end leaves none.
+   */
+  getUnused(): { model: number; tools: number } {
+    return {
+      model: this.fixture.model.length - this.usedModel.size,
+      tools: this.fixture.tools.length - this.usedTools.size,
+    };
+  }
+
+  private take(tool: string, input: unknown): ToolExchange {
+    const key = getToolRequestKey(tool, input);
+    const exchange = this.fixture.tools.find(
+      (e) => e.key === key && !this.usedTools.has(e),
+    );
+    if (!exchange) {
+      throw new FixtureMismatchError(
+        `No recorded result for ${tool} with input ${JSON.stringify(input)}.`,
+        key,
+      );
+    }
+    this.usedTools.add(exchange);
+    return exchange;
+  }
+
+  /**
+   * Returns the recorded result of a call, or throws its recorded error.
+   */
+  private async replay(tool: string, input: unknown): Promise<unknown> {
+    const exchange = this.take(tool, input);
+    if (exchange.error) throw toError(exchange);
+    return exchange.result;
+  }
+}
+
+/**
+ * Creates the fixture a graph served by `langgraph dev` replays from, when
+ * `replayPath` is set, or records to, when `recordPath` is set.
+ */
+export async function loadFixture(options: {
+  recordPath?: string;
+  replayPath?: string;
+}): Promise<FixtureRecorder | FixturePlayer | undefined> {
+  if (options.replayPath) return FixturePlayer.load(options.replayPath);
+  if (options.recordPath) return new FixtureRecorder(options.recordPath);
+  return undefined;
+}
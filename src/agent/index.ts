@@ -1,5 +1,4 @@
 import {
-  createCua,
   CUAAnnotation,
   CUAState,
   CUAUpdate,
@@ -11,13 +10,38 @@ import {
   uiMessageReducer,
 } from "@langchain/langgraph-sdk/react-ui/server";
 import type ComponentMap from "./ui/index";
-import { Annotation, LangGraphRunnableConfig } from "@langchain/langgraph";
+import {
+  Annotation,
+  Command,
+  interrupt,
+  LangGraphRunnableConfig,
+} from "@langchain/langgraph";
+import { AIMessage, HumanMessage } from "@langchain/core/messages";
 import {
   type UIMessage,
   type RemoveUIMessage,
 } from "@langchain/langgraph-sdk/react-ui";
-import { createClient } from "@supabase/supabase-js";
-import { v4 as uuidv4 } from "uuid";
+import { createScreenshotStore, ScreenshotStore } from "./screenshot-store";
+import {
+  ComputerActionApprovalDecision,
+  ComputerActionApprovalInterrupt,
+  createApprovalInterrupt,
+  getApprovalActionClasses,
+  getApprovalReasons,
+  REJECTED_CALLS_KEY,
+  withAcknowledgedSafetyChecks,
+  withComputerCallAction,
+} from "./approval";
+import {
+  TAKEOVER_CALLS_KEY,
+  TakeoverInterrupt,
+  TakeoverResponse,
+  withTakeover,
+} from "./takeover";
+import { createLocalCua } from "./local-cua";
+import { createVmProvider } from "./vm-provider";
+import { FixturePlayer, loadFixture } from "./fixtures";
+import { INSTANCE_TIMEOUT_HOURS, TAKEOVER_NAMESPACE } from "../lib/constants";
 
 const GraphAnnotation = Annotation.Root({
   ...CUAAnnotation.spec,
@@ -29,73 +53,13 @@ const GraphAnnotation = Annotation.Root({
 
 type GraphState = typeof GraphAnnotation.State & CUAState;
 
-function convertBase64ToBlob(screenshot: string): Blob | null {
-  let base64Data = screenshot;
-  if (screenshot.startsWith("data:image/png;base64,")) {
-    base64Data = screenshot.slice("data:image/png;base64,".length);
-  }
-
-  try {
-    // Decode the base64 string
-    const byteCharacters = atob(base64Data);
-    // Create an array of byte values
-    const byteNumbers = new Array(byteCharacters.length);
-    for (let i = 0; i < byteCharacters.length; i++) {
-      byteNumbers[i] = byteCharacters.charCodeAt(i);
-    }
-    // Convert to a typed array
-    const byteArray = new Uint8Array(byteNumbers);
-    // Create and return the Blob
-    return new Blob([byteArray], { type: "image/png" });
-  } catch (error) {
-    console.error("Failed to convert base64 to Blob:", error);
-    // Return null or handle the error as appropriate
-    return null;
-  }
-}
+let screenshotStore: ScreenshotStore | undefined;
 
 async function uploadScreenshot(screenshot: string): Promise<string> {
-  const supabaseUrl = process.env.SUPABASE_URL;
-  const supabaseApiKey = process.env.SUPABASE_API_KEY;
-  if (!supabaseUrl || !supabaseApiKey) {
-    throw new Error("Missing Supabase credentials");
-  }
-
-  const bucketName = "cua-screenshots";
-
-  const client = createClient(supabaseUrl, supabaseApiKey);
-
-  const fileName = `${uuidv4()}.png`;
-
-  const blob = convertBase64ToBlob(screenshot);
-  if (!blob) {
-    console.error("Failed to convert screenshot to blob. Aborting upload.");
-    throw new Error("Failed to process screenshot for upload.");
-  }
-
-  const { error: uploadError } = await client.storage
-    .from(bucketName)
-    .upload(fileName, blob, {
-      contentType: "image/png",
-      duplex: "half",
-      upsert: false,
-    });
-
-  if (uploadError) {
-    throw new Error(`Failed to upload screenshot: ${uploadError.message}`);
-  }
-
-  const expiresIn = 60 * 60 * 24 * 90; // 90 days
-
-  const { data, error: signedUrlError } = await client.storage
-    .from(bucketName)
-    .createSignedUrl(fileName, expiresIn);
-
-  if (signedUrlError) {
-    throw new Error(`Failed to create signed URL: ${signedUrlError.message}`);
-  }
-
-  return data.signedUrl;
+  // Created lazily so a misconfigured store surfaces as a run error instead of
+  // preventing the graph from loading.
+  screenshotStore ??= createScreenshotStore();
+  return screenshotStore.save(screenshot);
 }
 
 async function beforeNode(
@@ -103,8 +67,86 @@ async function beforeNode(
   config: LangGraphRunnableConfig,
 ): Promise<CUAUpdate> {
   const ui = typedUi<typeof ComponentMap>(config);
-  const lastMessage = state.messages[state.messages.length - 1];
-  const toolCalls = getToolOutputs(lastMessage);
+  let lastMessage = state.messages[state.messages.length - 1];
+  let toolCalls = getToolOutputs(lastMessage);
+
+  // Only the last computer call is executed, so only it needs approval. This
+  // runs before any UI is pushed since the node re-runs from the top on resume.
+  const pendingToolCall = toolCalls?.[toolCalls.length - 1];
+  const approvalReasons = pendingToolCall
+    ? getApprovalReasons(
+        pendingToolCall,
+        lastMessage,
+        getApprovalActionClasses(config),
+      )
+    : [];
+  // The human asked to take control. Pause until they hand it back; the
+  // store request is only removed then, so resuming reaches the interrupt.
+  const takeover =
+    pendingToolCall && state.instanceId
+      ? await config.store?.get(TAKEOVER_NAMESPACE, state.instanceId)
+      : undefined;
+  if (pendingToolCall && takeover) {
+    const response = interrupt<TakeoverInterrupt, TakeoverResponse>({
+      type: "takeover",
+      instanceId: state.instanceId!,
+    });
+    await config.store?.delete(TAKEOVER_NAMESPACE, state.instanceId!);
+    lastMessage = withTakeover(
+      lastMessage as AIMessage,
+      pendingToolCall.call_id,
+      response.summary,
+    );
+    toolCalls = getToolOutputs(lastMessage);
+  } else if (pendingToolCall && approvalReasons.length) {
+    const request = {
+      toolCallId: pendingToolCall.id,
+      callId: pendingToolCall.call_id,
+      action: pendingToolCall.action,
+      reasons: approvalReasons,
+    };
+    const response = interrupt<
+      ComputerActionApprovalInterrupt,
+      ComputerActionApprovalDecision
+    >(createApprovalInterrupt(request, lastMessage, config));
+
+    if (response.decision === "edit") {
+      lastMessage = withComputerCallAction(
+        lastMessage as AIMessage,
+        pendingToolCall.call_id,
+        response.action,
+      );
+      toolCalls = getToolOutputs(lastMessage);
+    } else if (response.decision === "reject") {
+      // Swap in a harmless screenshot so the computer call still gets an output.
+      lastMessage = withComputerCallAction(
+        lastMessage as AIMessage,
+        pendingToolCall.call_id,
+        { type: "screenshot" },
+        response.reason ?? "",
+      );
+    }
+    // The card showed the safety checks whatever the decision, and the call's
+    // output is sent either way, so it has to acknowledge them.
+    if (pendingToolCall.pending_safety_checks?.length) {
+      lastMessage = withAcknowledgedSafetyChecks(
+        lastMessage as AIMessage,
+        pendingToolCall.call_id,
+        pendingToolCall.pending_safety_checks,
+      );
+    }
+
+    ui.push(
+      {
+        id: `computer-action-approval-${pendingToolCall.id}`,
+        name: "computer-action-approval",
+        props: { ...request, response },
+      },
+      {
+        message: lastMessage,
+      },
+    );
+  }
 
   const renderVMButton = state.ui.find(
     (message) => message.name === "render-vm-button",
@@ -201,38 +243,117 @@ async function beforeNode(
     });
   }
 
+  if (lastMessage !== state.messages[state.messages.length - 1]) {
+    // The action was edited or rejected. Replace the AI message in place.
+    return { messages: [lastMessage] };
+  }
+
   return {};
 }
 
 async function afterNode(
   state: GraphState,
   config: LangGraphRunnableConfig,
-): Promise<CUAUpdate> {
+): Promise<CUAUpdate | Command> {
   const ui = typedUi<typeof ComponentMap>(config);
   const lastMessage = state.messages[state.messages.length - 1];
   if (isComputerCallToolMessage(lastMessage)) {
+    // The computer call which produced this screenshot lives on the preceding AI message.
+    const callMessage = state.messages
+      .slice(0, -1)
+      .findLast((m) =>
+        getToolOutputs(m)?.some(
+          (tc) => tc.call_id === lastMessage.tool_call_id,
+        ),
+      );
+    const action =
+      callMessage &&
+      getToolOutputs(callMessage)?.find(
+        (tc) => tc.call_id === lastMessage.tool_call_id,
+      )?.action;
     ui.push(
       {
         name: "computer-use-tool-output",
         props: {
           toolCallId: lastMessage.tool_call_id,
           screenshot: lastMessage.content as string,
+          action,
         },
       },
       {
         message: lastMessage,
       },
     );
+
+    const rejectionReason = (
+      callMessage?.additional_kwargs?.[REJECTED_CALLS_KEY] as
+        | Record<string, string>
+        | undefined
+    )?.[lastMessage.tool_call_id];
+    const takeoverSummary = (
+      callMessage?.additional_kwargs?.[TAKEOVER_CALLS_KEY] as
+        | Record<string, string>
+        | undefined
+    )?.[lastMessage.tool_call_id];
+    if (takeoverSummary !== undefined) {
+      // Unlike a rejection, the run goes on: the model continues from the
+      // screenshot with the human's summary.
+      return new Command({
+        update: { messages: [new HumanMessage(takeoverSummary)] },
+        goto: "callModel",
+      });
+    }
+    if (rejectionReason !== undefined) {
+      // Ending on a human message stops the run, and tells the model why on the next turn.
+      return {
+        messages: [
+          new HumanMessage(
+            `I rejected your last computer action, so it was not executed.${
+              rejectionReason ? ` Reason: ${rejectionReason}` : ""
+            }`,
+          ),
+        ],
+      };
+    }
   }
 
   return {};
 }
 
-export const graph = createCua({
+const cuaParams = {
   nodeBeforeAction: beforeNode,
   nodeAfterAction: afterNode,
   stateModifier: GraphAnnotation,
   recursionLimit: 150,
-  timeoutHours: 0.1,
+  timeoutHours: INSTANCE_TIMEOUT_HOURS,
   uploadScreenshot,
-});
+};
+
+const provider = createVmProvider();
+
+// Loaded once, since every resume of a run gets the graph again and has to
+// add to the same recording, or continue the same replay.
+let fixture: ReturnType<typeof loadFixture> | undefined;
+
+/**
+ * Entry point for the `agent` graph in `langgraph.json`.
+ *
+ * With `CUA_FIXTURE_REPLAY_PATH` set, the run is served from a recorded
+ * fixture and needs neither a VM nor OpenAI. With `CUA_FIXTURE_RECORD_PATH`
+ * set, the run is recorded to a fixture.
+ */
+export async function graph() {
+  fixture ??= loadFixture({
+    recordPath: process.env.CUA_FIXTURE_RECORD_PATH,
+    replayPath: process.env.CUA_FIXTURE_REPLAY_PATH,
+  });
+  const loaded = await fixture;
+  return createLocalCua({
+    ...cuaParams,
+    provider:
+      loaded instanceof FixturePlayer
+        ? loaded.vmProvider()
+        : (loaded?.wrapVmProvider(provider) ?? provider),
+    fixture: loaded,
+  });
+}
@@ -0,0 +1,23 @@
+import { LangGraphRunnableConfig } from "@langchain/langgraph";
+import type { UIMessage } from "@langchain/langgraph-sdk/react-ui";
+
+/**
+ * Builds the UI message an interrupt value carries, so the client can render
+ * the request while the run is paused. Like a pushed UI message, it records
+ * the ID of the run which made it.
+ */
+export function createInterruptUi(
+  config: LangGraphRunnableConfig,
+  ui: Omit<UIMessage, "type" | "metadata"> & {
+    metadata?: Record<string, unknown>;
+  },
+): UIMessage {
+  return {
+    type: "ui",
+    ...ui,
+    metadata: {
+      ...ui.metadata,
+      run_id: String(config.metadata?.run_id ?? config.runId ?? ""),
+    },
+  };
+}
@@ -0,0 +1,281 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { AIMessage, BaseMessage, HumanMessage } from "@langchain/core/messages";
+import { getToolOutputs } from "@langchain/langgraph-cua";
+import { createLocalCua } from "./local-cua";
+import { withAcknowledgedSafetyChecks } from "./approval";
+import { FixturePlayer, FixtureRecorder } from "./fixtures";
+import type { VmProvider } from "./vm-provider";
+
+const SAFETY_CHECK = {
+  id: "sc_1",
+  code: "malicious_instructions",
+  message: "The page asks to ignore the user.",
+};
+
+const provider: VmProvider = {
+  images: ["test"],
+  hasTimeout: false,
+  recordsOwners: false,
+  create: async () => ({ id: "vm-1", status: "running" }),
+  list: async () => [],
+  get: async (id) => ({ id, status: "running" }),
+  status: async () => "running",
+  pause: async () => {},
+  resume: async () => {},
+  stop: async () => {},
+  screenshot: async () => "iVBORw0KGgo=",
+  streamUrl: async () => "http://localhost:6080/vnc.html",
+  computer: async () => {},
+};
+
+function response(id: string, output: unknown[]) {
+  return { id, model: "computer-use-preview", output };
+}
+
+/**
+ * Answers the Responses API requests with `responses` in turn, and other
+ * screenshot downloads with a PNG. Data URLs are still read. Returns the
+ * request bodies sent to the API.
+ */
+function stubFetch(responses: unknown[]) {
+  const requests: any[] = [];
+  const { fetch } = globalThis;
+  vi.spyOn(globalThis, "fetch").mockImplementation(async (url, init) => {
+    if (String(url).startsWith("data:")) return fetch(url, init);
+    if (!String(url).endsWith("/responses")) {
+      return new Response(Buffer.from("png"));
+    }
+    requests.push(JSON.parse(init?.body as string));
+    return Response.json(responses.shift());
+  });
+  return requests;
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+});
+
+describe("createLocalCua", () => {
+  it("sends the acknowledged safety checks with the computer call output", async () => {
+    vi.stubEnv("OPENAI_API_KEY", "test");
+    const responses = [
+      response("resp_1", [
+        {
+          type: "computer_call",
+          id: "cu_1",
+          call_id: "call_1",
+          action: { type: "click", button: "left", x: 10, y: 20 },
+          pending_safety_checks: [SAFETY_CHECK],
+          status: "completed",
+        },
+      ]),
+      response("resp_2", [
+        {
+          type: "message",
+          id: "msg_1",
+          role: "assistant",
+          content: [{ type: "output_text", text: "Done.", annotations: [] }],
+        },
+      ]),
+    ];
+    const requests = stubFetch(responses);
+
+    const graph = createLocalCua({
+      provider,
+      // Stands in for the approval node, which acknowledges the checks the
+      // human saw.
+      nodeBeforeAction: async (state) => {
+        const message = state.messages[state.messages.length - 1];
+        const [call] = getToolOutputs(message) ?? [];
+        return {
+          messages: [
+            withAcknowledgedSafetyChecks(
+              message as AIMessage,
+              call.call_id,
+              call.pending_safety_checks,
+            ),
+          ],
+        };
+      },
+    });
+    const result = await graph.invoke({
+      messages: [new HumanMessage("Click the button.")],
+    });
+
+    expect(result.messages.at(-1)?.content).toEqual([
+      expect.objectContaining({ text: "Done." }),
+    ]);
+    expect(requests).toHaveLength(2);
+    expect(requests[1].previous_response_id).toBe("resp_1");
+    expect(requests[1].input).toEqual([
+      expect.objectContaining({
+        type: "computer_call_output",
+        call_id: "call_1",
+        acknowledged_safety_checks: [SAFETY_CHECK],
+      }),
+    ]);
+  });
+
+  it("sends computer call outputs without checks unchanged", async () => {
+    vi.stubEnv("OPENAI_API_KEY", "test");
+    const responses = [
+      response("resp_1", [
+        {
+          type: "computer_call",
+          id: "cu_1",
+          call_id: "call_1",
+          action: { type: "screenshot" },
+          pending_safety_checks: [],
+          status: "completed",
+        },
+      ]),
+      response("resp_2", []),
+    ];
+    const requests = stubFetch(responses);
+
+    await createLocalCua({ provider }).invoke({
+      messages: [new HumanMessage("Look at the screen.")],
+    });
+
+    expect(requests[1].input).toEqual([
+      expect.not.objectContaining({
+        acknowledged_safety_checks: expect.anything(),
+      }),
+    ]);
+  });
+
+  it("replays a recorded run without a VM or OpenAI", async () => {
+    vi.stubEnv("OPENAI_API_KEY", "test");
+    const responses = [
+      response("resp_1", [
+        {
+          type: "computer_call",
+          id: "cu_1",
+          call_id: "call_1",
+          action: { type: "screenshot" },
+          pending_safety_checks: [],
+          status: "completed",
+        },
+      ]),
+      response("resp_2", [
+        {
+          type: "message",
+          id: "msg_1",
+          role: "assistant",
+          content: [{ type: "output_text", text: "Done.", annotations: [] }],
+        },
+      ]),
+    ];
+    stubFetch(responses);
+    const input = { messages: [new HumanMessage("Look at the screen.")] };
+
+    const recorder = new FixtureRecorder();
+    const recorded = await createLocalCua({
+      provider: recorder.wrapVmProvider(provider),
+      fixture: recorder,
+    }).invoke(input);
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+
+    const player = new FixturePlayer(
+      JSON.parse(JSON.stringify(recorder.fixture)),
+    );
+    const replayed = await createLocalCua({
+      provider: player.vmProvider(),
+      fixture: player,
+    }).invoke(input);
+
+    expect(recorder.fixture.tools.map((e) => e.tool)).toEqual([
+      "vm.create",
+      "vm.streamUrl",
+      "vm.computer",
+      "vm.screenshot",
+    ]);
+    expect(replayed.messages.map((m: BaseMessage) => m.content)).toEqual(
+      recorded.messages.map((m: BaseMessage) => m.content),
+    );
+    expect(replayed.instanceId).toBe("vm-1");
+    expect(player.getUnused()).toEqual({ model: 0, tools: 0 });
+  });
+
+  it("sends the images of human messages inline", async () => {
+    vi.stubEnv("OPENAI_API_KEY", "test");
+    const requests = stubFetch([response("resp_1", [])]);
+
+    await createLocalCua({ provider }).invoke({
+      messages: [
+        new HumanMessage({
+          content: [
+            { type: "text", text: "I handed the computer back." },
+            {
+              type: "image_url",
+              image_url: { url: "http://localhost:3000/api/screenshots/a.png" },
+            },
+          ],
+        }),
+      ],
+    });
+
+    expect(fetch).toHaveBeenCalledWith(
+      "http://localhost:3000/api/screenshots/a.png",
+    );
+    expect(JSON.stringify(requests[0].input)).toContain(
+      `data:image/png;base64,${Buffer.from("png").toString("base64")}`,
+    );
+  });
+
+  it("logs the instance in with the auth state once", async () => {
+    vi.stubEnv("OPENAI_API_KEY", "test");
+    const screenshotCall = (id: string) => ({
+      type: "computer_call",
+      id: `cu_${id}`,
+      call_id: `call_${id}`,
+      action: { type: "screenshot" },
+      pending_safety_checks: [],
+      status: "completed",
+    });
+    stubFetch([
+      response("resp_1", [screenshotCall("1")]),
+      response("resp_2", [screenshotCall("2")]),
+      response("resp_3", []),
+    ]);
+    const authenticate = vi.fn(async () => {});
+
+    const result = await createLocalCua({
+      provider: { ...provider, authenticate },
+      authStateId: "auth_1",
+    }).invoke({ messages: [new HumanMessage("Open my inbox.")] });
+
+    expect(authenticate).toHaveBeenCalledTimes(1);
+    expect(authenticate).toHaveBeenCalledWith("vm-1", "auth_1");
+    expect(result.authenticatedId).toBe("auth_1");
+  });
+
+  it("drives the VM with the configured Scrapybara API key", async () => {
+    vi.stubEnv("OPENAI_API_KEY", "test");
+    stubFetch([
+      response("resp_1", [
+        {
+          type: "computer_call",
+          id: "cu_1",
+          call_id: "call_1",
+          action: { type: "screenshot" },
+          pending_safety_checks: [],
+          status: "completed",
+        },
+      ]),
+      response("resp_2", []),
+    ]);
+    const runProvider = { ...provider, create: vi.fn(provider.create) };
+    const withApiKey = vi.fn(() => runProvider);
+
+    await createLocalCua({
+      provider: { ...provider, withApiKey },
+      scrapybaraApiKey: "run-key",
+    }).invoke({ messages: [new HumanMessage("Look at the screen.")] });
+
+    expect(withApiKey).toHaveBeenCalledWith("run-key");
+    expect(runProvider.create).toHaveBeenCalled();
+  });
+});
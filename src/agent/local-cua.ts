@@ -0,0 +1,413 @@
+import {
+  Annotation,
+  AnnotationRoot,
+  Command,
+  END,
+  LangGraphRunnableConfig,
+  START,
+  StateGraph,
+} from "@langchain/langgraph";
+import {
+  createCua,
+  CUAAnnotation,
+  CUAConfigurable,
+  CUAState,
+  CUAUpdate,
+  getToolOutputs,
+  isComputerCallToolMessage,
+} from "@langchain/langgraph-cua";
+import {
+  BaseMessage,
+  HumanMessage,
+  isHumanMessage,
+  MessageContentComplex,
+  ToolMessage,
+} from "@langchain/core/messages";
+import { RunnableLambda } from "@langchain/core/runnables";
+import { ChatOpenAI } from "@langchain/openai";
+import type { ClientOptions } from "openai";
+import type { ResponseCreateParams } from "openai/resources/responses/responses";
+import { DISPLAY_HEIGHT, DISPLAY_WIDTH } from "../lib/constants";
+import { getAcknowledgedSafetyChecks, SafetyCheck } from "./approval";
+import { VmProvider } from "./vm-provider";
+import type { FixturePlayer, FixtureRecorder } from "./fixtures";
+
+type CreateCuaParams<StateModifier extends AnnotationRoot<any>> = NonNullable<
+  Parameters<typeof createCua<StateModifier>>[0]
+>;
+
+/**
+ * A node run before or after the computer action. Unlike with `createCua`, it
+ * may return a `Command` to route the run itself.
+ */
+type ActionNode<StateModifier extends AnnotationRoot<any>> = (
+  state: CUAState & StateModifier["State"],
+  config: LangGraphRunnableConfig,
+) => Promise<(CUAUpdate & StateModifier["Update"]) | Command>;
+
+type Configuration = typeof CUAConfigurable.State;
+
+const OPENAI_ENVIRONMENTS = {
+  web: "browser",
+  ubuntu: "ubuntu",
+  windows: "windows",
+} as const;
+
+function getConfiguration(config: LangGraphRunnableConfig): Configuration {
+  return config.configurable as Configuration;
+}
+
+function isUrl(value: string): boolean {
+  try {
+    return !!new URL(value);
+  } catch {
+    return false;
+  }
+}
+
+async function toDataUrl(url: string): Promise<string> {
+  const response = await fetch(url);
+  const base64 = Buffer.from(await response.arrayBuffer()).toString("base64");
+  return `data:image/png;base64,${base64}`;
+}
+
+function getUploadedImageUrl(part: MessageContentComplex): string | undefined {
+  if (part.type !== "image_url") return undefined;
+  const url =
+    typeof part.image_url === "string" ? part.image_url : part.image_url.url;
+  return url.startsWith("data:") ? undefined : url;
+}
+
+/**
+ * The computer use API only accepts base64 screenshots, so uploaded ones are
+ * downloaded again: the outputs of computer calls, and the images of human
+ * messages, such as the screen handed back after a take-over.
+ */
+async function inlineScreenshot(message: BaseMessage): Promise<BaseMessage> {
+  if (
+    isComputerCallToolMessage(message) &&
+    typeof message.content === "string" &&
+    isUrl(message.content)
+  ) {
+    return new ToolMessage({
+      ...(message as ToolMessage),
+      content: await toDataUrl(message.content),
+    });
+  }
+  if (
+    isHumanMessage(message) &&
+    Array.isArray(message.content) &&
+    message.content.some(getUploadedImageUrl)
+  ) {
+    const content = await Promise.all(
+      message.content.map(async (part): Promise<MessageContentComplex> => {
+        const url = getUploadedImageUrl(part);
+        return url
+          ? { type: "image_url", image_url: { url: await toDataUrl(url) } }
+          : part;
+      }),
+    );
+    return new HumanMessage({ ...(message as HumanMessage), content });
+  }
+  return message;
+}
+
+/**
+ * The Responses API conversion of `@langchain/openai` drops the acknowledged
+ * safety checks of computer call outputs, so the OpenAI client's `fetch` adds
+ * them back to the request body by call ID.
+ */
+function fetchWithAcknowledgedChecks(
+  messages: BaseMessage[],
+): NonNullable<ClientOptions["fetch"]> {
+  const acknowledgedChecks = new Map<string, SafetyCheck[]>();
+  for (const message of messages) {
+    const checks = message.additional_kwargs?.acknowledged_safety_checks;
+    if (isComputerCallToolMessage(message) && Array.isArray(checks)) {
+      acknowledgedChecks.set(message.tool_call_id, checks);
+    }
+  }
+
+  return (url, init) => {
+    if (!acknowledgedChecks.size || typeof init?.body !== "string") {
+      return fetch(url, init);
+    }
+    const request = JSON.parse(init.body) as ResponseCreateParams;
+    const input = Array.isArray(request.input)
+      ? request.input.map((item) => {
+          const checks =
+            item.type === "computer_call_output" &&
+            acknowledgedChecks.get(item.call_id);
+          return checks
+            ? { ...item, acknowledged_safety_checks: checks }
+            : item;
+        })
+      : request.input;
+    return fetch(url, { ...init, body: JSON.stringify({ ...request, input }) });
+  };
+}
+
+/**
+ * Same as the `callModel` node of `createCua`, which the package does not
+ * export.
+ */
+async function callModel(
+  state: CUAState,
+  config: LangGraphRunnableConfig,
+  fixture?: FixtureRecorder | FixturePlayer,
+): Promise<CUAUpdate> {
+  const { zdrEnabled, environment, prompt } = getConfiguration(config);
+  const lastMessage = state.messages[state.messages.length - 1];
+  // Without Zero Data Retention, OpenAI keeps the conversation, so only the
+  // new screenshot is sent.
+  const continuesResponse =
+    isComputerCallToolMessage(lastMessage) && !zdrEnabled;
+
+  const messages = continuesResponse ? [lastMessage] : state.messages;
+  const createModel = () =>
+    new ChatOpenAI({
+      model: "computer-use-preview",
+      useResponsesApi: true,
+      configuration: { fetch: fetchWithAcknowledgedChecks(messages) },
+    }).bindTools(
+      [
+        {
+          type: "computer_use_preview",
+          display_width: DISPLAY_WIDTH,
+          display_height: DISPLAY_HEIGHT,
+          environment: OPENAI_ENVIRONMENTS[environment],
+        },
+      ],
+      {
+        truncation: "auto",
+        previous_response_id: continuesResponse
+          ? state.messages[state.messages.length - 2].response_metadata.id
+          : undefined,
+      },
+    );
+  // A replay never creates the model, so it needs no API key.
+  const model = fixture ? fixture.wrapModel(createModel) : createModel();
+  const inline = RunnableLambda.from(inlineScreenshot).withConfig({
+    runName: "conditionally-update-tool-message-content",
+  });
+
+  const response = await model.invoke([
+    ...(prompt && !continuesResponse
+      ? [
+          typeof prompt === "string"
+            ? { role: "system", content: prompt }
+            : prompt,
+        ]
+      : []),
+    ...(await Promise.all(messages.map((m) => inline.invoke(m)))),
+  ]);
+
+  return { messages: response };
+}
+
+/**
+ * The provider with the run's `scrapybaraApiKey`, if it has one, as
+ * `createCua` uses the key of the run over its own.
+ */
+function getRunProvider(
+  provider: VmProvider,
+  config: LangGraphRunnableConfig,
+): VmProvider {
+  const { scrapybaraApiKey } = getConfiguration(config);
+  return scrapybaraApiKey && provider.withApiKey
+    ? provider.withApiKey(scrapybaraApiKey)
+    : provider;
+}
+
+async function createVMInstance(
+  state: CUAState,
+  config: LangGraphRunnableConfig,
+  provider: VmProvider,
+): Promise<CUAUpdate> {
+  if (state.instanceId) return {};
+
+  const { environment, timeoutHours } = getConfiguration(config);
+  provider = getRunProvider(provider, config);
+  // The thread's owner, so the instance routes let them act on the VM.
+  const userId = config.metadata?.user_id;
+  const instance = await provider.create({
+    environment,
+    timeoutHours,
+    userId: typeof userId === "string" ? userId : undefined,
+  });
+  return {
+    instanceId: instance.id,
+    streamUrl: state.streamUrl ?? (await provider.streamUrl(instance.id)),
+  };
+}
+
+async function takeComputerAction(
+  state: CUAState,
+  config: LangGraphRunnableConfig,
+  provider: VmProvider,
+  uploadScreenshot?: (screenshot: string) => Promise<string>,
+): Promise<CUAUpdate> {
+  if (!state.instanceId) {
+    throw new Error("Can not take computer action without an instance ID.");
+  }
+  const toolOutputs = getToolOutputs(state.messages[state.messages.length - 1]);
+  if (!toolOutputs?.length) {
+    throw new Error(
+      "Can not take computer action without a computer call in the last message.",
+    );
+  }
+
+  provider = getRunProvider(provider, config);
+  let { authenticatedId } = state;
+  const { authStateId } = getConfiguration(config);
+  if (authStateId && authStateId !== authenticatedId && provider.authenticate) {
+    await provider.authenticate(state.instanceId, authStateId);
+    authenticatedId = authStateId;
+  }
+
+  let { streamUrl } = state;
+  if (!streamUrl) {
+    // Written to the custom stream so the client can show the VM before the
+    // action completes.
+    streamUrl = await provider.streamUrl(state.instanceId);
+    config.writer?.({ streamUrl });
+  }
+
+  const output = toolOutputs[toolOutputs.length - 1];
+  const acknowledgedChecks = getAcknowledgedSafetyChecks(
+    state.messages[state.messages.length - 1],
+    output.call_id,
+  );
+  let computerCallToolMessage: BaseMessage | undefined;
+  try {
+    await provider.computer!(state.instanceId, output.action);
+    if (output.action.type === "wait") {
+      await new Promise((resolve) => setTimeout(resolve, 2000));
+    }
+
+    let screenshot = `data:image/png;base64,${await provider.screenshot(state.instanceId)}`;
+    if (uploadScreenshot) {
+      screenshot = await RunnableLambda.from(uploadScreenshot)
+        .withConfig({ runName: "upload-screenshot" })
+        .invoke(screenshot);
+    }
+    computerCallToolMessage = new ToolMessage({
+      tool_call_id: output.call_id,
+      additional_kwargs: {
+        type: "computer_call_output",
+        ...(acknowledgedChecks && {
+          acknowledged_safety_checks: acknowledgedChecks,
+        }),
+      },
+      content: screenshot,
+    });
+  } catch (e) {
+    console.error(
+      { error: e, computerCall: output },
+      "Failed to execute computer call.",
+    );
+  }
+
+  return {
+    messages: computerCallToolMessage ? [computerCallToolMessage] : [],
+    instanceId: state.instanceId,
+    streamUrl,
+    authenticatedId,
+  };
+}
+
+function takeActionOrEnd(state: CUAState) {
+  const toolOutputs = getToolOutputs(state.messages[state.messages.length - 1]);
+  if (!toolOutputs?.length) return END;
+  return state.instanceId ? "nodeBeforeAction" : "createVMInstance";
+}
+
+function reinvokeModelOrEnd(state: CUAState) {
+  return isComputerCallToolMessage(state.messages[state.messages.length - 1])
+    ? "callModel"
+    : END;
+}
+
+/**
+ * Builds the same graph as `createCua`, with the VM created and driven
+ * through `provider`. `createCua` has no way to swap its Scrapybara calls or
+ * its model, so its nodes are reproduced here.
+ *
+ * `authStateId` and the `scrapybaraApiKey` of a run work as with `createCua`
+ * where the provider supports them.
+ *
+ * With `fixture`, the model calls are recorded or replayed. Pair it with the
+ * fixture's VM provider.
+ */
+export function createLocalCua<
+  StateModifier extends AnnotationRoot<any> = typeof CUAAnnotation,
+>({
+  provider,
+  scrapybaraApiKey,
+  timeoutHours = 1.0,
+  zdrEnabled = false,
+  recursionLimit = 100,
+  authStateId,
+  environment = "web",
+  prompt,
+  nodeBeforeAction,
+  nodeAfterAction,
+  uploadScreenshot,
+  stateModifier,
+  fixture,
+}: Omit<
+  CreateCuaParams<StateModifier>,
+  "nodeBeforeAction" | "nodeAfterAction"
+> & {
+  provider: VmProvider;
+  nodeBeforeAction?: ActionNode<StateModifier>;
+  nodeAfterAction?: ActionNode<StateModifier>;
+  fixture?: FixtureRecorder | FixturePlayer;
+}) {
+  if (!provider.computer) {
+    throw new Error("The VM provider does not support computer actions.");
+  }
+
+  const StateAnnotation: AnnotationRoot<any> = Annotation.Root({
+    ...CUAAnnotation.spec,
+    ...stateModifier?.spec,
+  });
+
+  const workflow = new StateGraph(StateAnnotation, CUAConfigurable)
+    .addNode("callModel", (state, config) => callModel(state, config, fixture))
+    .addNode("createVMInstance", (state, config) =>
+      createVMInstance(state, config, provider),
+    )
+    .addNode("nodeBeforeAction", nodeBeforeAction ?? (async () => ({})))
+    .addNode("nodeAfterAction", nodeAfterAction ?? (async () => ({})))
+    .addNode("takeComputerAction", (state, config) =>
+      takeComputerAction(state, config, provider, uploadScreenshot),
+    )
+    .addEdge(START, "callModel")
+    .addConditionalEdges("callModel", takeActionOrEnd, [
+      "createVMInstance",
+      "nodeBeforeAction",
+      END,
+    ])
+    .addEdge("createVMInstance", "nodeBeforeAction")
+    .addEdge("nodeBeforeAction", "takeComputerAction")
+    .addEdge("takeComputerAction", "nodeAfterAction")
+    .addConditionalEdges("nodeAfterAction", reinvokeModelOrEnd, [
+      "callModel",
+      END,
+    ]);
+
+  const graph = workflow.compile();
+  graph.name = "Computer Use Agent";
+  return graph.withConfig({
+    configurable: {
+      scrapybaraApiKey,
+      timeoutHours,
+      zdrEnabled,
+      authStateId,
+      environment,
+      prompt,
+    },
+    recursionLimit,
+  });
+}
@@ -0,0 +1,175 @@
+import { describe, expect, it } from "vitest";
+import { EnvironmentError } from "./environment";
+import {
+  BLANK_SCREENSHOT,
+  globToRegExp,
+  MockEnvironment,
+} from "./mock-environment";
+
+function createEnvironment() {
+  return new MockEnvironment({
+    files: {
+      "/project/workspace/index.ts": "export const a = 1;\nexport const b = 2;",
+      "/project/workspace/src/util.ts": "export const a = 3;",
+      "/project/workspace/README.md": "# Project",
+    },
+    shell: [
+      { match: "bun test", stdout: "1 pass" },
+      { match: /^exit \d+$/, stderr: "failed", exit_code: 1 },
+    ],
+  });
+}
+
+describe("globToRegExp", () => {
+  it("matches single and nested path segments", () => {
+    expect(globToRegExp("*.ts").test("index.ts")).toBe(true);
+    expect(globToRegExp("*.ts").test("src/util.ts")).toBe(false);
+    expect(globToRegExp("**/*.ts").test("index.ts")).toBe(true);
+    expect(globToRegExp("**/*.ts").test("src/util.ts")).toBe(true);
+    expect(globToRegExp("?.md").test("a.md")).toBe(true);
+  });
+});
+
+describe("MockEnvironment", () => {
+  it("fakes the file tools on an in-memory sandbox", async () => {
+    const environment = createEnvironment();
+
+    expect(
+      await environment.executeTool("ls", { path: "/project/workspace" }),
+    ).toEqual({
+      path: "/project/workspace",
+      entries: ["README.md", "index.ts", "src/"],
+    });
+    expect(
+      await environment.executeTool("read", {
+        file_path: "/project/workspace/index.ts",
+        offset: 2,
+      }),
+    ).toMatchObject({ content: "     2\texport const b = 2;", total_lines: 2 });
+    expect(
+      await environment.executeTool("glob", { pattern: "**/*.ts" }),
+    ).toEqual({
+      matches: [
+        "/project/workspace/index.ts",
+        "/project/workspace/src/util.ts",
+      ],
+    });
+    expect(
+      await environment.executeTool("grep", {
+        pattern: "const a",
+        include: "*.ts",
+      }),
+    ).toEqual({
+      matches: [
+        {
+          file: "/project/workspace/index.ts",
+          line: 1,
+          text: "export const a = 1;",
+        },
+        {
+          file: "/project/workspace/src/util.ts",
+          line: 1,
+          text: "export const a = 3;",
+        },
+      ],
+    });
+
+    await environment.executeTool("write", {
+      file_path: "/project/workspace/new.ts",
+      content: "export {};",
+    });
+    await environment.executeTool("edit", {
+      file_path: "/project/workspace/README.md",
+      edits: [{ old_string: "Project", new_string: "Scout" }],
+    });
+    expect(environment.getFile("/project/workspace/new.ts")).toBe("export {};");
+    expect(environment.getFile("/project/workspace/README.md")).toBe("# Scout");
+    expect(environment.calls.map((call) => call.tool)).toEqual([
+      "ls",
+      "read",
+      "glob",
+      "grep",
+      "write",
+      "edit",
+    ]);
+  });
+
+  it("rejects paths outside of the sandbox and missing files", async () => {
+    const environment = createEnvironment();
+
+    await expect(
+      environment.executeTool("read", {
+        file_path: "/project/workspace/../../etc/passwd",
+      }),
+    ).rejects.toMatchObject({ status: 400 });
+    await expect(
+      environment.executeTool("read", {
+        file_path: "/project/workspace/missing.ts",
+      }),
+    ).rejects.toMatchObject({ status: 404 });
+    await expect(
+      environment.executeTool("unknown_tool", {}),
+    ).rejects.toBeInstanceOf(EnvironmentError);
+  });
+
+  it("only applies edits once every edit matches", async () => {
+    const environment = createEnvironment();
+
+    await expect(
+      environment.executeTool("edit", {
+        file_path: "/project/workspace/index.ts",
+        edits: [
+          { old_string: "a = 1", new_string: "a = 10" },
+          { old_string: "export", new_string: "declare" },
+        ],
+      }),
+    ).rejects.toThrow(/not unique/);
+    expect(environment.getFile("/project/workspace/index.ts")).toBe(
+      "export const a = 1;\nexport const b = 2;",
+    );
+  });
+
+  it("answers bash_run from the scripted shell", async () => {
+    const environment = createEnvironment();
+
+    expect(
+      await environment.executeTool("bash_run", { command: "bun test --bail" }),
+    ).toEqual({ stdout: "1 pass", stderr: "", exit_code: 0 });
+    expect(
+      await environment.executeTool("bash_run", { command: "exit 2" }),
+    ).toEqual({ stdout: "", stderr: "failed", exit_code: 1 });
+    expect(
+      await environment.executeTool("bash_run", { command: "make" }),
+    ).toMatchObject({ exit_code: 127 });
+  });
+
+  it("repeats the last screenshot and prefers configured responses", async () => {
+    const environment = new MockEnvironment({
+      screenshots: ["first", "second"],
+      responses: {
+        web_search: { results: [] },
+        image_generate: (input: { prompt: string }) => ({ url: input.prompt }),
+      },
+    });
+    const screenshots = [];
+    for (let i = 0; i < 3; i++) {
+      const result = (await environment.executeTool("computer", {
+        action: "screenshot",
+      })) as { screenshot: string };
+      screenshots.push(result.screenshot);
+    }
+
+    expect(screenshots).toEqual(["first", "second", "second"]);
+    expect(
+      await new MockEnvironment().executeTool("computer", {
+        action: "screenshot",
+      }),
+    ).toEqual({ action: "screenshot", screenshot: BLANK_SCREENSHOT });
+    expect(
+      await environment.executeTool("web_search", { query: "scout" }),
+    ).toEqual({ results: [] });
+    expect(
+      await environment.executeTool("image_generate", { prompt: "a cat" }),
+    ).toEqual({ url: "a cat" });
+  });
+});
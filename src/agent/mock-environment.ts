@@ -0,0 +1,332 @@
+import { posix } from "node:path";
+import {
+  EnvironmentAPI,
+  EnvironmentError,
+  ToolStreamEvent,
+} from "./environment";
+
+/**
+ * A 1x1 transparent PNG, used when no canned screenshots are configured.
+ */
+export const BLANK_SCREENSHOT =
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=";
+
+const SANDBOX_ROOTS = ["/project/workspace", "/home/scrapybara"];
+
+export interface MockShellResponse {
+  /**
+   * A command prefix or regular expression. The first matching entry wins.
+   */
+  match: string | RegExp;
+  stdout?: string;
+  stderr?: string;
+  exit_code?: number;
+}
+
+export interface MockToolCall {
+  tool: string;
+  input: unknown;
+}
+
+export interface MockEnvironmentConfig {
+  /**
+   * Initial file contents keyed by absolute path.
+   */
+  files?: Record<string, string>;
+  /**
+   * Scripted responses for `bash_run`. Unmatched commands exit with 127.
+   */
+  shell?: MockShellResponse[];
+  /**
+   * Base64 encoded PNGs returned by the `computer` tool, in order. The last
+   * screenshot is repeated once the list is exhausted.
+   */
+  screenshots?: string[];
+  /**
+   * Static results or handlers for any tool without a built-in fake,
+   * e.g. `web_search` or `image_generate`. Takes precedence over built-ins.
+   */
+  responses?: Record<string, unknown | ((input: any) => unknown)>;
+}
+
+/**
+ * Escapes a string for literal use inside a regular expression.
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Converts a glob pattern (`*`, `**` and `?`) to an anchored regular expression.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*" && pattern[i + 1] === "*") {
+      // `**/` matches zero or more directories.
+      if (pattern[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i += 1;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * In-process implementation of the environment API. Backs the file tools with
+ * a sandboxed in-memory filesystem, `bash_run` with a scripted shell and the
+ * `computer` tool with canned screenshots, so the Scout workflow can run
+ * without a live AISDK5 runtime.
+ */
+export class MockEnvironment implements EnvironmentAPI {
+  private files = new Map<string, string>();
+
+  private screenshotIndex = 0;
+
+  /**
+   * Every tool call received, in order. Useful for asserting on trajectories.
+   */
+  readonly calls: MockToolCall[] = [];
+
+  constructor(private config: MockEnvironmentConfig = {}) {
+    for (const [path, content] of Object.entries(config.files ?? {})) {
+      this.files.set(this.resolvePath(path), content);
+    }
+  }
+
+  /**
+   * Returns the current contents of a file, or undefined if it does not exist.
+   */
+  getFile(path: string): string | undefined {
+    return this.files.get(this.resolvePath(path));
+  }
+
+  async executeTool(tool: string, input: unknown): Promise<unknown> {
+    this.calls.push({ tool, input });
+    const args = (input ?? {}) as Record<string, any>;
+
+    const override = this.config.responses?.[tool];
+    if (override !== undefined) {
+      return typeof override === "function" ? await override(args) : override;
+    }
+
+    switch (tool) {
+      case "ls":
+        return this.ls(args.path, args.ignore);
+      case "read":
+        return this.read(args.file_path, args.offset, args.limit);
+      case "glob":
+        return this.glob(args.pattern, args.path);
+      case "grep":
+        return this.grep(args.pattern, args.include, args.path);
+      case "edit":
+        return this.edit(args.file_path, args.edits);
+      case "write":
+        return this.write(args.file_path, args.content);
+      case "bash_run":
+        return this.bashRun(args.command);
+      case "computer":
+        return this.computer(args.action);
+      case "message_update":
+      case "message_ask":
+      case "todo":
+        return { success: true };
+      default:
+        throw new EnvironmentError(
+          `Tool "${tool}" is not supported by the mock environment.`,
+          404,
+        );
+    }
+  }
+
+  /**
+   * Streams `stdout` and `stderr` of the result line by line before yielding it.
+   */
+  async *executeToolStream(
+    tool: string,
+    input: unknown,
+  ): AsyncGenerator<ToolStreamEvent> {
+    const result = await this.executeTool(tool, input);
+    const output = (result ?? {}) as Record<string, unknown>;
+    for (const stream of ["stdout", "stderr"] as const) {
+      const data = output[stream];
+      if (typeof data !== "string" || !data) continue;
+      for (const line of data.match(/[^\n]*\n|[^\n]+$/g) ?? []) {
+        yield { type: stream, data: line };
+      }
+    }
+    yield { type: "result", result };
+  }
+
+  private resolvePath(path: string): string {
+    const normalized = posix.normalize(path);
+    const inSandbox = SANDBOX_ROOTS.some(
+      (root) => normalized === root || normalized.startsWith(`${root}/`),
+    );
+    if (!posix.isAbsolute(normalized) || !inSandbox) {
+      throw new EnvironmentError(
+        `Path "${path}" is outside of the sandbox.`,
+        400,
+      );
+    }
+    return normalized;
+  }
+
+  private requireFile(path: string): [string, string] {
+    const resolved = this.resolvePath(path);
+    const content = this.files.get(resolved);
+    if (content === undefined) {
+      throw new EnvironmentError(`File not found: ${path}`, 404);
+    }
+    return [resolved, content];
+  }
+
+  private filesUnder(dir: string): string[] {
+    const prefix = dir.endsWith("/") ? dir : `${dir}/`;
+    return [...this.files.keys()].filter((f) => f.startsWith(prefix)).sort();
+  }
+
+  private ls(path: string, ignore: string[] = []) {
+    const dir = this.resolvePath(path);
+    const ignored = ignore.map(globToRegExp);
+    const entries = new Set<string>();
+    for (const file of this.filesUnder(dir)) {
+      const relative = file.slice(dir.length).replace(/^\//, "");
+      const [head, ...rest] = relative.split("/");
+      const entry = rest.length ? `${head}/` : head;
+      if (!ignored.some((re) => re.test(head))) {
+        entries.add(entry);
+      }
+    }
+    return { path: dir, entries: [...entries].sort() };
+  }
+
+  private read(path: string, offset = 1, limit?: number) {
+    const [resolved, content] = this.requireFile(path);
+    const lines = content.split("\n");
+    const start = offset - 1;
+    const end = limit ? start + limit : lines.length;
+    return {
+      file_path: resolved,
+      content: lines
+        .slice(start, end)
+        .map((line, i) => `${String(start + i + 1).padStart(6)}\t${line}`)
+        .join("\n"),
+      total_lines: lines.length,
+    };
+  }
+
+  private glob(pattern: string, path = SANDBOX_ROOTS[0]) {
+    const dir = this.resolvePath(path);
+    const re = globToRegExp(pattern);
+    return {
+      matches: this.filesUnder(dir).filter((file) =>
+        re.test(file.slice(dir.length + 1)),
+      ),
+    };
+  }
+
+  private grep(pattern: string, include?: string, path = SANDBOX_ROOTS[0]) {
+    const dir = this.resolvePath(path);
+    let re: RegExp;
+    try {
+      re = new RegExp(pattern);
+    } catch (e: any) {
+      throw new EnvironmentError(`Invalid regex: ${e.message}`, 400);
+    }
+    const includeRe = include ? globToRegExp(include) : undefined;
+    const matches: Array<{ file: string; line: number; text: string }> = [];
+    for (const file of this.filesUnder(dir)) {
+      if (includeRe && !includeRe.test(posix.basename(file))) continue;
+      this.files
+        .get(file)!
+        .split("\n")
+        .forEach((text, i) => {
+          if (re.test(text)) matches.push({ file, line: i + 1, text });
+        });
+    }
+    return { matches };
+  }
+
+  private edit(
+    path: string,
+    edits: Array<{
+      old_string: string;
+      new_string: string;
+      replace_all?: boolean;
+    }>,
+  ) {
+    const [resolved, original] = this.requireFile(path);
+    let content = original;
+    let replacements = 0;
+    for (const { old_string, new_string, replace_all } of edits) {
+      const occurrences = content.split(old_string).length - 1;
+      if (occurrences === 0) {
+        throw new EnvironmentError(
+          `old_string not found in ${path}`,
+          400,
+          old_string,
+        );
+      }
+      if (occurrences > 1 && !replace_all) {
+        throw new EnvironmentError(
+          `old_string is not unique in ${path} (${occurrences} matches). Set replace_all to true.`,
+          400,
+          old_string,
+        );
+      }
+      content = content.split(old_string).join(new_string);
+      replacements += occurrences;
+    }
+    // Only commit once every edit has applied, mirroring the runtime's atomic edits.
+    this.files.set(resolved, content);
+    return { success: true, file_path: resolved, replacements };
+  }
+
+  private write(path: string, content: string) {
+    const resolved = this.resolvePath(path);
+    this.files.set(resolved, content);
+    return { success: true, file_path: resolved, bytes: content.length };
+  }
+
+  private bashRun(command: string) {
+    const scripted = this.config.shell?.find(({ match }) =>
+      typeof match === "string"
+        ? command.startsWith(match)
+        : match.test(command),
+    );
+    if (!scripted) {
+      return {
+        stdout: "",
+        stderr: `mock shell: no scripted response for "${command}"`,
+        exit_code: 127,
+      };
+    }
+    return {
+      stdout: scripted.stdout ?? "",
+      stderr: scripted.stderr ?? "",
+      exit_code: scripted.exit_code ?? 0,
+    };
+  }
+
+  private computer(action: string) {
+    const screenshots = this.config.screenshots?.length
+      ? this.config.screenshots
+      : [BLANK_SCREENSHOT];
+    const screenshot =
+      screenshots[Math.min(this.screenshotIndex, screenshots.length - 1)];
+    this.screenshotIndex += 1;
+    return { action, screenshot };
+  }
+}
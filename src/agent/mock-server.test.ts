@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { EnvironmentError, HttpEnvironment } from "./environment";
+import {
+  MockEnvironmentServer,
+  startMockEnvironmentServer,
+} from "./mock-server";
+
+describe("startMockEnvironmentServer", () => {
+  let server: MockEnvironmentServer | undefined;
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  it("serves the mock environment to HttpEnvironment", async () => {
+    server = await startMockEnvironmentServer({
+      apiKey: "secret",
+      files: { "/project/workspace/index.ts": "export {};" },
+    });
+    const environment = new HttpEnvironment({
+      baseUrl: server.url,
+      apiKey: "secret",
+    });
+
+    await environment.executeTool("write", {
+      file_path: "/project/workspace/index.ts",
+      content: "export const a = 1;",
+    });
+
+    expect(
+      await environment.executeTool("read", {
+        file_path: "/project/workspace/index.ts",
+      }),
+    ).toMatchObject({ content: "     1\texport const a = 1;" });
+  });
+
+  it("reports environment errors with their status", async () => {
+    server = await startMockEnvironmentServer();
+    const environment = new HttpEnvironment({ baseUrl: server.url });
+
+    const error = await environment
+      .executeTool("read", { file_path: "/project/workspace/missing.ts" })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(EnvironmentError);
+    expect(error).toMatchObject({
+      status: 404,
+      message: "File not found: /project/workspace/missing.ts",
+    });
+  });
+
+  it("rejects requests without the API key and unknown routes", async () => {
+    server = await startMockEnvironmentServer({ apiKey: "secret" });
+
+    const unauthorized = await fetch(`${server.url}/tools/ls`, {
+      method: "POST",
+      body: JSON.stringify({ path: "/project/workspace" }),
+    });
+    const notFound = await fetch(`${server.url}/health`, {
+      headers: { Authorization: "Bearer secret" },
+    });
+
+    expect(unauthorized.status).toBe(401);
+    expect(notFound.status).toBe(404);
+  });
+});
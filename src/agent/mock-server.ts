@@ -0,0 +1,141 @@
+import { createServer, IncomingMessage, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { EnvironmentAPI, EnvironmentError } from "./environment";
+import { MockEnvironment, MockEnvironmentConfig } from "./mock-environment";
+
+export interface MockEnvironmentServerConfig extends MockEnvironmentConfig {
+  /**
+   * Port to listen on. Defaults to 0, which picks a free port.
+   */
+  port?: number;
+  /**
+   * When set, requests must send `Authorization: Bearer <apiKey>`.
+   */
+  apiKey?: string;
+  /**
+   * Serve an existing environment instead of creating a `MockEnvironment`.
+   */
+  environment?: EnvironmentAPI;
+}
+
+export interface MockEnvironmentServer {
+  /**
+   * Base URL to pass to `HttpEnvironment`.
+   */
+  url: string;
+  environment: EnvironmentAPI;
+  server: Server;
+  close: () => Promise<void>;
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  const raw = Buffer.concat(chunks).toString("utf8");
+  return raw ? JSON.parse(raw) : {};
+}
+
+/**
+ * Starts a local HTTP server speaking the same `POST /tools/:tool` contract as
+ * the AISDK5 runtime, backed by a `MockEnvironment` unless one is provided.
+ * Requests accepting `application/x-ndjson` are streamed when the environment
+ * implements `executeToolStream`.
+ */
+export async function startMockEnvironmentServer(
+  config: MockEnvironmentServerConfig = {},
+): Promise<MockEnvironmentServer> {
+  const environment = config.environment ?? new MockEnvironment(config);
+
+  const server = createServer(async (req, res) => {
+    const send = (
+      status: number,
+      body: unknown,
+      headers: Record<string, string> = {},
+    ) => {
+      res.writeHead(status, { "Content-Type": "application/json", ...headers });
+      res.end(JSON.stringify(body));
+    };
+
+    const match = req.url?.match(/^\/tools\/([a-z_]+)$/);
+    if (req.method !== "POST" || !match) {
+      send(404, { error: "Not found" });
+      return;
+    }
+
+    if (
+      config.apiKey &&
+      req.headers.authorization !== `Bearer ${config.apiKey}`
+    ) {
+      send(401, { error: "Unauthorized" });
+      return;
+    }
+
+    let input: unknown;
+    try {
+      input = await readJsonBody(req);
+    } catch {
+      send(400, { error: "Request body must be valid JSON" });
+      return;
+    }
+
+    if (
+      environment.executeToolStream &&
+      req.headers.accept?.includes("application/x-ndjson")
+    ) {
+      res.writeHead(200, { "Content-Type": "application/x-ndjson" });
+      try {
+        for await (const event of environment.executeToolStream(
+          match[1],
+          input,
+        )) {
+          res.write(`${JSON.stringify(event)}\n`);
+        }
+      } catch (error: any) {
+        // Headers are already sent, so errors are reported in-band.
+        res.write(
+          `${JSON.stringify({
+            type: "error",
+            error: error?.message ?? String(error),
+            status: error instanceof EnvironmentError ? error.status : 500,
+            details: error?.details,
+          })}\n`,
+        );
+      }
+      res.end();
+      return;
+    }
+
+    try {
+      send(200, await environment.executeTool(match[1], input));
+    } catch (error: any) {
+      if (error instanceof EnvironmentError) {
+        send(
+          error.status ?? 500,
+          { error: error.message, details: error.details },
+          error.retryAfterMs !== undefined
+            ? { "Retry-After": String(Math.ceil(error.retryAfterMs / 1000)) }
+            : {},
+        );
+        return;
+      }
+      send(500, { error: error?.message ?? String(error) });
+    }
+  });
+
+  await new Promise<void>((resolve) =>
+    server.listen(config.port ?? 0, "127.0.0.1", resolve),
+  );
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    environment,
+    server,
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        server.close((err) => (err ? reject(err) : resolve())),
+      ),
+  };
+}
@@ -0,0 +1,231 @@
+import { ChatAnthropic } from "@langchain/anthropic";
+import { AzureChatOpenAI, ChatOpenAI } from "@langchain/openai";
+import {
+  BaseMessage,
+  HumanMessage,
+  MessageContentComplex,
+  isHumanMessage,
+} from "@langchain/core/messages";
+import type { DynamicStructuredTool } from "@langchain/core/tools";
+import { getModelPricing, ModelPricing } from "./budget";
+
+/**
+ * - `openai`: the OpenAI API.
+ * - `azure`: an Azure OpenAI deployment, configured through the standard
+ *   `AZURE_OPENAI_API_*` variables.
+ * - `anthropic`: Claude through Anthropic's Messages API.
+ * - `openai-compatible`: any server speaking the OpenAI chat completions API,
+ *   such as vLLM or Ollama, at `baseUrl`.
+ */
+export type ModelProvider =
+  | "openai"
+  | "azure"
+  | "anthropic"
+  | "openai-compatible";
+
+export interface ModelConfig {
+  provider: ModelProvider;
+  modelName: string;
+  temperature: number;
+  /**
+   * API root of `anthropic` and `openai-compatible` providers. Anthropic
+   * defaults to its public API.
+   */
+  baseUrl?: string;
+  /**
+   * Defaults to the provider's usual environment variable.
+   */
+  apiKey?: string;
+  /**
+   * Whether the model accepts images. Screenshots sent to models which do
+   * not are replaced by a note.
+   */
+  supportsImages: boolean;
+}
+
+interface ProviderCapabilities {
+  /**
+   * Whether image parts may carry OpenAI's `detail` option.
+   */
+  imageDetail: boolean;
+  /**
+   * Whether images may be given by URL rather than inline as base64.
+   */
+  imageUrls: boolean;
+  /**
+   * Whether `parallel_tool_calls` may be sent with the tools.
+   */
+  parallelToolCalls: boolean;
+}
+
+const PROVIDER_CAPABILITIES: Record<ModelProvider, ProviderCapabilities> = {
+  openai: { imageDetail: true, imageUrls: true, parallelToolCalls: true },
+  azure: { imageDetail: true, imageUrls: true, parallelToolCalls: true },
+  // Claude calls tools in parallel without being asked.
+  anthropic: { imageDetail: false, imageUrls: false, parallelToolCalls: false },
+  // Local servers differ widely, so only the common subset is used.
+  "openai-compatible": {
+    imageDetail: false,
+    imageUrls: false,
+    parallelToolCalls: false,
+  },
+};
+
+const DEFAULT_MODEL_NAMES: Record<ModelProvider, string> = {
+  openai: "gpt-5",
+  azure: "gpt-5",
+  anthropic: "claude-sonnet-4-5",
+  "openai-compatible": "llama3.1",
+};
+
+export class ModelConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ModelConfigError";
+  }
+}
+
+function parseProvider(value: string | undefined): ModelProvider {
+  const provider = value || "openai";
+  if (!(provider in PROVIDER_CAPABILITIES)) {
+    throw new ModelConfigError(
+      `Unknown model provider '${provider}'. Expected one of: ${Object.keys(PROVIDER_CAPABILITIES).join(", ")}.`,
+    );
+  }
+  return provider as ModelProvider;
+}
+
+/**
+ * Resolves the model settings from `overrides` and the `AGENT_MODEL_*`
+ * environment variables.
+ */
+export function loadModelConfig(
+  overrides: Partial<ModelConfig> = {},
+): ModelConfig {
+  const provider =
+    overrides.provider ?? parseProvider(process.env.AGENT_MODEL_PROVIDER);
+  const config: ModelConfig = {
+    provider,
+    modelName:
+      overrides.modelName ??
+      process.env.AGENT_MODEL_NAME ??
+      DEFAULT_MODEL_NAMES[provider],
+    temperature:
+      overrides.temperature ??
+      parseFloat(process.env.AGENT_TEMPERATURE || "0.1"),
+    baseUrl: overrides.baseUrl ?? process.env.AGENT_MODEL_BASE_URL,
+    apiKey: overrides.apiKey ?? process.env.AGENT_MODEL_API_KEY,
+    supportsImages:
+      overrides.supportsImages ??
+      process.env.AGENT_MODEL_SUPPORTS_IMAGES !== "false",
+  };
+  if (provider === "openai-compatible" && !config.baseUrl) {
+    throw new ModelConfigError(
+      "AGENT_MODEL_BASE_URL must be set to the server's API root (e.g. http://localhost:11434/v1) for the openai-compatible provider.",
+    );
+  }
+  return config;
+}
+
+export type ChatModel = ChatOpenAI | ChatAnthropic;
+
+/**
+ * Creates the chat model for a provider. Local servers are reached through
+ * their OpenAI-compatible APIs.
+ */
+export function createChatModel(
+  config: ModelConfig,
+  options: { streaming?: boolean } = {},
+): ChatModel {
+  const fields = {
+    model: config.modelName,
+    temperature: config.temperature,
+    streaming: options.streaming ?? false,
+  };
+
+  switch (config.provider) {
+    case "openai":
+      return new ChatOpenAI({ ...fields, apiKey: config.apiKey });
+    case "azure":
+      return new AzureChatOpenAI({
+        ...fields,
+        azureOpenAIApiKey: config.apiKey,
+      });
+    case "anthropic":
+      return new ChatAnthropic({
+        ...fields,
+        apiKey: config.apiKey ?? process.env.ANTHROPIC_API_KEY,
+        anthropicApiUrl: config.baseUrl,
+      });
+    case "openai-compatible":
+      return new ChatOpenAI({
+        ...fields,
+        // Local servers usually ignore the key, but the client requires one.
+        apiKey: config.apiKey ?? "not-needed",
+        configuration: { baseURL: config.baseUrl },
+      });
+  }
+}
+
+/**
+ * Binds the tools with the options the provider supports.
+ */
+export function bindModelTools(
+  model: ChatModel,
+  tools: DynamicStructuredTool[],
+  config: ModelConfig,
+) {
+  return PROVIDER_CAPABILITIES[config.provider].parallelToolCalls
+    ? model.bindTools(tools, { parallel_tool_calls: true })
+    : model.bindTools(tools);
+}
+
+/**
+ * Rewrites screenshots into a form the provider accepts: without the
+ * `detail` option where it is unknown, and as a note for models without
+ * vision or, when given by URL, for providers which only take base64.
+ */
+export function adaptMessages(
+  messages: BaseMessage[],
+  config: ModelConfig,
+): BaseMessage[] {
+  const { imageDetail, imageUrls } = PROVIDER_CAPABILITIES[config.provider];
+  if (imageDetail && imageUrls && config.supportsImages) return messages;
+
+  return messages.map((message) => {
+    if (!isHumanMessage(message) || typeof message.content === "string") {
+      return message;
+    }
+    const content = message.content.map((part): MessageContentComplex => {
+      if (part.type !== "image_url") return part;
+      if (!config.supportsImages) {
+        return {
+          type: "text",
+          text: "[Screenshot omitted: the model does not accept images]",
+        };
+      }
+      const url =
+        typeof part.image_url === "string"
+          ? part.image_url
+          : part.image_url.url;
+      if (!imageUrls && !url.startsWith("data:")) {
+        return {
+          type: "text",
+          text: "[Screenshot omitted: the provider only accepts inline images]",
+        };
+      }
+      return imageDetail ? part : { type: "image_url", image_url: { url } };
+    });
+    return new HumanMessage({ id: message.id, content });
+  });
+}
+
+/**
+ * Prices the provider's token usage. Self-hosted models cost nothing per
+ * token.
+ */
+export function getProviderPricing(config: ModelConfig): ModelPricing {
+  return config.provider === "openai-compatible"
+    ? { input: 0, output: 0 }
+    : getModelPricing(config.modelName);
+}
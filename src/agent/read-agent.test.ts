@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { AIMessage, BaseMessage } from "@langchain/core/messages";
+import { RunnableLambda } from "@langchain/core/runnables";
+import {
+  Annotation,
+  END,
+  MemorySaver,
+  START,
+  StateGraph,
+} from "@langchain/langgraph";
+import { DynamicStructuredTool } from "@langchain/core/tools";
+import { createReadAgentGraph } from "./read-agent";
+
+/**
+ * Answers with the given turns in order, whatever its input.
+ */
+function scriptAgent(turns: AIMessage[]) {
+  return RunnableLambda.from(
+    async (_input: { chat_history: BaseMessage[] }) => turns.shift()!,
+  );
+}
+
+describe("createReadAgentGraph", () => {
+  it("turns a tool which throws into a failed step", async () => {
+    const read = new DynamicStructuredTool({
+      name: "read",
+      description: "Reads a file.",
+      schema: z.object({ file_path: z.string() }) as any,
+      func: async () => {
+        throw new Error("Runtime is unavailable");
+      },
+    });
+    const agent = scriptAgent([
+      new AIMessage({
+        content: "",
+        tool_calls: [
+          {
+            id: "call_read",
+            name: "read",
+            args: { file_path: "/project/workspace/README.md" },
+          },
+        ],
+      }),
+      new AIMessage("The README could not be read."),
+    ]);
+
+    const result = await createReadAgentGraph(agent, [read], 5, 1).invoke({
+      messages: [],
+      steps: [],
+      turns: 0,
+      status: "running",
+    });
+
+    expect(result.status).toBe("completed");
+    expect(result.steps).toEqual([
+      expect.objectContaining({ tool: "read", status: "failed" }),
+    ]);
+    expect(JSON.parse(result.steps[0].output)).toEqual({
+      error: "Runtime is unavailable",
+      tool: "read",
+      status: "FAILURE",
+    });
+  });
+
+  it("keeps its runs out of the parent's checkpoints", async () => {
+    const readAgent = createReadAgentGraph(
+      scriptAgent([new AIMessage("Nothing to read.")]),
+      [],
+      5,
+    );
+    const checkpointer = new MemorySaver();
+    const parent = new StateGraph(
+      Annotation.Root({ answer: Annotation<string> }),
+    )
+      .addNode("read_agent", async (_state, config) => {
+        const result = await readAgent.invoke(
+          { messages: [], steps: [], turns: 0, status: "running" },
+          config,
+        );
+        return { answer: result.status };
+      })
+      .addEdge(START, "read_agent")
+      .addEdge("read_agent", END)
+      .compile({ checkpointer });
+    const config = { configurable: { thread_id: "thread" } };
+
+    await parent.invoke({ answer: "" }, config);
+
+    const namespaces = new Set<string>();
+    for await (const { config: saved } of checkpointer.list(config)) {
+      namespaces.add(saved.configurable?.checkpoint_ns);
+    }
+    expect([...namespaces]).toEqual([""]);
+  });
+});
@@ -0,0 +1,351 @@
+import { randomUUID } from "node:crypto";
+import {
+  StateGraph,
+  END,
+  START,
+  LangGraphRunnableConfig,
+  messagesStateReducer,
+} from "@langchain/langgraph";
+import {
+  AIMessage,
+  BaseMessage,
+  HumanMessage,
+  ToolMessage,
+} from "@langchain/core/messages";
+import { DynamicStructuredTool } from "@langchain/core/tools";
+import type { Runnable } from "@langchain/core/runnables";
+import { typedUi } from "@langchain/langgraph-sdk/react-ui/server";
+import { ScoutTools } from "./tools/aisdk5";
+import { getPolicyApproval, isAllowed, ToolPolicyEngine } from "./tools/policy";
+import { getToolConcurrency, runToolCalls } from "./tools/parallel";
+import type ComponentMap from "./ui/index";
+import type { ReadAgentStep } from "./ui/read-agent-steps";
+
+/**
+ * The only tools a `read_agent` sub-agent is given and allowed to call.
+ */
+export const READ_AGENT_TOOLS = [
+  "ls",
+  "read",
+  "glob",
+  "grep",
+  "lsp",
+  "web_search",
+  "browser_navigate",
+];
+
+export const DEFAULT_READ_AGENT_MAX_STEPS = 10;
+
+// Tool output shown in the steps panel is trimmed, the model sees all of it.
+const MAX_STEP_OUTPUT_CHARS = 2000;
+
+type ReadAgentStatus = "running" | "completed" | "budget_exhausted" | "failed";
+
+interface ReadAgentState {
+  messages: BaseMessage[];
+  steps: ReadAgentStep[];
+  turns: number;
+  status: ReadAgentStatus;
+  summary?: string;
+}
+
+export interface ReadAgentOptions {
+  /**
+   * Maximum model turns before the sub-agent has to summarize.
+   */
+  maxSteps?: number;
+  /**
+   * Policy checked before the sub-agent is started at all. Its tools apply
+   * their own policy to every call.
+   */
+  policy?: ToolPolicyEngine;
+  /**
+   * Maximum tool calls run at once. Defaults to `AGENT_TOOL_CONCURRENCY`.
+   */
+  toolConcurrency?: number;
+}
+
+function getText(message: BaseMessage): string {
+  if (typeof message.content === "string") return message.content;
+  return message.content
+    .map((part) => (part.type === "text" ? String(part.text) : ""))
+    .join("");
+}
+
+function preview(value: string): string {
+  return value.length > MAX_STEP_OUTPUT_CHARS
+    ? `${value.substring(0, MAX_STEP_OUTPUT_CHARS)}\n...[Output truncated]`
+    : value;
+}
+
+/**
+ * Creates the sub-agent's graph: the agent and its tools loop until the agent
+ * answers without tool calls, or its turns run out and it is asked to
+ * summarize what it found so far.
+ */
+export function createReadAgentGraph(
+  agent: Runnable<{ chat_history: BaseMessage[] }, BaseMessage>,
+  tools: DynamicStructuredTool[],
+  maxSteps: number,
+  toolConcurrency: number = getToolConcurrency(),
+) {
+  const allowedTools = tools.filter((tool) =>
+    READ_AGENT_TOOLS.includes(tool.name),
+  );
+  // The sub-agent's tokens belong to its steps panel, not the parent thread.
+  const model = agent.withConfig({ tags: ["nostream"] });
+
+  async function runAgent(state: ReadAgentState) {
+    const response = await model.invoke({ chat_history: state.messages });
+    return { messages: [response], turns: state.turns + 1 };
+  }
+
+  async function executeTools(
+    state: ReadAgentState,
+    config: LangGraphRunnableConfig,
+  ): Promise<Partial<ReadAgentState>> {
+    const last = state.messages[state.messages.length - 1] as AIMessage;
+
+    const steps = await runToolCalls(
+      last.tool_calls ?? [],
+      async (call): Promise<ReadAgentStep> => {
+        const id = call.id ?? randomUUID();
+        const tool = allowedTools.find((t) => t.name === call.name);
+        if (!tool) {
+          const output = JSON.stringify({
+            error: `Tool '${call.name}' is not available to the read-only sub-agent. Allowed tools: ${READ_AGENT_TOOLS.join(", ")}.`,
+            tool: call.name,
+            status: "BLOCKED",
+          });
+          return {
+            id,
+            tool: call.name,
+            args: call.args,
+            status: "blocked",
+            output,
+          };
+        }
+        let output: string;
+        try {
+          output = String(await tool.invoke(call.args, config));
+        } catch (error: unknown) {
+          output = JSON.stringify({
+            error: error instanceof Error ? error.message : String(error),
+            tool: call.name,
+            status: "FAILURE",
+          });
+        }
+        return {
+          id,
+          tool: call.name,
+          args: call.args,
+          status: /"status":"(FAILURE|BLOCKED)"/.test(output)
+            ? "failed"
+            : "completed",
+          output,
+        };
+      },
+      toolConcurrency,
+    );
+    const messages = steps.map(
+      (step) =>
+        new ToolMessage({
+          tool_call_id: step.id,
+          name: step.tool,
+          content: step.output,
+        }),
+    );
+
+    return {
+      messages,
+      steps: [
+        ...state.steps,
+        ...steps.map((step) => ({ ...step, output: preview(step.output) })),
+      ],
+    };
+  }
+
+  /**
+   * Out of turns: answers the pending calls without running them and asks
+   * for a summary.
+   */
+  async function summarize(state: ReadAgentState) {
+    const last = state.messages[state.messages.length - 1] as AIMessage;
+    const skipped = (last.tool_calls ?? []).map(
+      (call) =>
+        new ToolMessage({
+          tool_call_id: call.id ?? randomUUID(),
+          name: call.name,
+          content: JSON.stringify({
+            error: "Not executed: the step budget is exhausted.",
+            status: "SKIPPED",
+          }),
+        }),
+    );
+    const request = new HumanMessage(
+      "You are out of steps. Do not call any more tools. Summarize what you found so far and what is still missing.",
+    );
+    const response = await model.invoke({
+      chat_history: [...state.messages, ...skipped, request],
+    });
+    return {
+      messages: [...skipped, request, response],
+      status: "budget_exhausted" as const,
+      summary:
+        getText(response) ||
+        `Stopped after ${maxSteps} steps without a summary.`,
+    };
+  }
+
+  async function finish(state: ReadAgentState) {
+    return {
+      status: "completed" as const,
+      summary: getText(state.messages[state.messages.length - 1]),
+    };
+  }
+
+  function afterAgent(state: ReadAgentState): "tools" | "summarize" | "finish" {
+    const last = state.messages[state.messages.length - 1] as AIMessage;
+    if (!last.tool_calls?.length) return "finish";
+    return state.turns < maxSteps ? "tools" : "summarize";
+  }
+
+  const builder = new StateGraph<ReadAgentState>({
+    channels: {
+      messages: {
+        reducer: messagesStateReducer,
+        default: () => [],
+      },
+      steps: (_left: ReadAgentStep[], right: ReadAgentStep[]) => right,
+      turns: (_left: number, right: number) => right,
+      status: (_left: ReadAgentStatus, right: ReadAgentStatus) => right,
+      summary: (_left: string | undefined, right: string | undefined) => right,
+    },
+  } as any)
+    .addNode("agent", runAgent)
+    .addNode("tools", executeTools)
+    .addNode("summarize", summarize)
+    .addNode("finish", finish)
+    .addEdge(START, "agent")
+    .addConditionalEdges("agent", afterAgent, {
+      tools: "tools",
+      summarize: "summarize",
+      finish: "finish",
+    })
+    .addEdge("tools", "agent")
+    .addEdge("summarize", END)
+    .addEdge("finish", END);
+  // Each run is a one-off inside a tool call, so it must not checkpoint into
+  // the parent's thread.
+  return builder.compile({ checkpointer: false });
+}
+
+/**
+ * Creates the local `read_agent` tool, which runs a task on the read-only
+ * sub-agent and returns its summary. Its steps are streamed into a
+ * `read-agent-steps` component.
+ */
+export function createReadAgentTool(
+  agent: Runnable<{ chat_history: BaseMessage[] }, BaseMessage>,
+  tools: DynamicStructuredTool[],
+  options: ReadAgentOptions = {},
+): DynamicStructuredTool {
+  const maxSteps = options.maxSteps ?? DEFAULT_READ_AGENT_MAX_STEPS;
+  const graph = createReadAgentGraph(
+    agent,
+    tools,
+    maxSteps,
+    options.toolConcurrency,
+  );
+
+  return new DynamicStructuredTool({
+    name: "read_agent",
+    description: ScoutTools.read_agent.description,
+    schema: ScoutTools.read_agent.parameters as any,
+    func: async (
+      input: { task: string; description: string },
+      _runManager,
+      config?: LangGraphRunnableConfig & { toolCall?: { id?: string } },
+    ) => {
+      if (options.policy) {
+        const decision = await options.policy.authorize(
+          "read_agent",
+          input,
+          getPolicyApproval(config),
+        );
+        if (!isAllowed(decision)) {
+          return JSON.stringify({
+            error: `Blocked by tool policy: ${decision.reason}`,
+            tool: "read_agent",
+            status: "BLOCKED",
+          });
+        }
+      }
+
+      const runId = config?.metadata?.run_id ?? config?.runId;
+      const id = `read-agent-${config?.toolCall?.id ?? randomUUID()}`;
+      const props = (state: Partial<ReadAgentState>) => ({
+        description: input.description,
+        task: input.task,
+        steps: state.steps ?? [],
+        status: state.status ?? "running",
+        summary: state.summary,
+        maxSteps,
+      });
+
+      let state: Partial<ReadAgentState> = {};
+      try {
+        const stream = await graph.stream(
+          {
+            messages: [new HumanMessage(input.task)],
+            steps: [],
+            turns: 0,
+            status: "running",
+          },
+          // Each turn takes an agent and a tools step, plus the final step.
+          { ...config, streamMode: "values", recursionLimit: maxSteps * 2 + 2 },
+        );
+        for await (const chunk of stream) {
+          state = chunk as ReadAgentState;
+          if (runId && state.status === "running") {
+            config?.writer?.({
+              type: "ui",
+              id,
+              name: "read-agent-steps",
+              props: props(state),
+              metadata: { ...config.metadata, run_id: runId },
+            });
+          }
+        }
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        console.error(
+          `[Agent Failure] Tool: read_agent, Error: ${errorMessage}`,
+        );
+        state = { ...state, status: "failed", summary: errorMessage };
+      }
+
+      if (runId && config) {
+        typedUi<typeof ComponentMap>(config).push({
+          id,
+          name: "read-agent-steps",
+          props: props(state),
+        });
+      }
+
+      if (state.status === "failed") {
+        return JSON.stringify({
+          error: state.summary,
+          tool: "read_agent",
+          status: "FAILURE",
+        });
+      }
+      return JSON.stringify({
+        summary: state.summary,
+        steps: state.steps?.length ?? 0,
+        status: state.status,
+      });
+    },
+  });
+}
@@ -0,0 +1,43 @@
+import { HttpEnvironment } from "./environment";
+import { FixturePlayer, loadFixture } from "./fixtures";
+import { createScoutGraph } from "./scout";
+
+// Loaded once, since every resume of a run gets the graph again and has to
+// add to the same recording, or continue the same replay.
+let fixture: ReturnType<typeof loadFixture> | undefined;
+
+/**
+ * Entry point for the `scout` graph in `langgraph.json`. Built per run so a
+ * missing runtime URL fails the run instead of the whole server.
+ *
+ * With `AGENT_FIXTURE_REPLAY_PATH` set, the run is served from a recorded
+ * fixture and needs neither the runtime nor a model provider. With
+ * `AGENT_FIXTURE_RECORD_PATH` set, the run is recorded to a fixture.
+ */
+export async function graph() {
+  fixture ??= loadFixture({
+    recordPath: process.env.AGENT_FIXTURE_RECORD_PATH,
+    replayPath: process.env.AGENT_FIXTURE_REPLAY_PATH,
+  });
+  const loaded = await fixture;
+  if (loaded instanceof FixturePlayer) {
+    return createScoutGraph({
+      environmentApi: loaded.environment(),
+      fixture: loaded,
+    });
+  }
+
+  if (!process.env.AGENT_ENVIRONMENT_URL) {
+    throw new Error(
+      "AGENT_ENVIRONMENT_URL must be set to the AISDK5 runtime to run the Scout agent.",
+    );
+  }
+  const environmentApi = new HttpEnvironment({
+    baseUrl: process.env.AGENT_ENVIRONMENT_URL,
+    apiKey: process.env.AGENT_ENVIRONMENT_API_KEY,
+  });
+  return createScoutGraph({
+    environmentApi: loaded?.wrapEnvironment(environmentApi) ?? environmentApi,
+    fixture: loaded,
+  });
+}
@@ -0,0 +1,189 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { Command, MemorySaver } from "@langchain/langgraph";
+import { BaseMessage, HumanMessage } from "@langchain/core/messages";
+import type { ToolCall } from "@langchain/core/messages/tool";
+import { createScoutGraph } from "./scout";
+import { MockEnvironment } from "./mock-environment";
+import { FixturePlayer, ModelExchange } from "./fixtures";
+import type { HandoffSummary } from "./tools/handoff";
+
+/**
+ * Serves the model's turns in order, whatever its input.
+ */
+function scriptModel(turns: Array<string | ToolCall[]>): FixturePlayer {
+  const model: ModelExchange[] = turns.map((turn, i) => ({
+    key: `turn-${i}`,
+    response:
+      typeof turn === "string"
+        ? { content: turn, tool_calls: [] }
+        : { content: "", tool_calls: turn },
+  }));
+  return new FixturePlayer({ version: 1, model, tools: [] }, { strict: false });
+}
+
+function call(name: string, args: Record<string, any>): ToolCall {
+  return { name, args, id: `call_${name}`, type: "tool_call" };
+}
+
+const TASKS = [
+  { id: "1", title: "Read the README", status: "in_progress" },
+  { id: "2", title: "Fix the typo", status: "pending" },
+];
+
+const HANDOFF: HandoffSummary = {
+  primary_request: "Fix the typo in the README.",
+  reason: "Context is getting long.",
+  key_topics: "README",
+  files_and_resources: "/project/workspace/README.md",
+  problem_solving: "Found the typo.",
+  current_task: "Fixing the typo.",
+  next_step: "Edit the README.",
+};
+
+describe("Scout graph", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("runs a plan approval, a question and a handoff offline", async () => {
+    const environmentApi = new MockEnvironment({
+      files: { "/project/workspace/README.md": "# Helo\n" },
+    });
+    const model = scriptModel([
+      [call("todo", { tasks: TASKS, request_user_approval: true })],
+      [call("read", { file_path: "/project/workspace/README.md" })],
+      [
+        call("message_ask", {
+          message: "Which spelling should I use?",
+          follow_ups_select: [
+            { emoji: "🇺🇸", title: "Hello", prompt: "Use Hello." },
+            { emoji: "🇬🇧", title: "Hallo", prompt: "Use Hallo." },
+          ],
+        }),
+      ],
+      [call("handoff", HANDOFF)],
+      "The README now says Hello.",
+    ]);
+    const graph = await createScoutGraph({ environmentApi, fixture: model });
+    graph.checkpointer = new MemorySaver();
+    const config = { configurable: { thread_id: "scout-e2e" } };
+    const getInterrupt = async () =>
+      (await graph.getState(config)).tasks[0]?.interrupts[0]?.value;
+
+    await graph.invoke(
+      { chat_history: [new HumanMessage("Fix the typo in the README.")] },
+      { ...config, metadata: { run_id: "run-1" } },
+    );
+    expect(await getInterrupt()).toMatchObject({
+      type: "todo_approval",
+      tasks: TASKS,
+    });
+
+    const approvedTasks = TASKS.slice(0, 1);
+    await graph.invoke(new Command({ resume: { tasks: approvedTasks } }), {
+      ...config,
+      metadata: { run_id: "run-2" },
+    });
+    expect(await getInterrupt()).toMatchObject({
+      type: "message_ask",
+      message: "Which spelling should I use?",
+    });
+
+    const result = await graph.invoke(
+      new Command({
+        resume: {
+          type: "select",
+          option: { emoji: "🇺🇸", title: "Hello", prompt: "Use Hello." },
+        },
+      }),
+      { ...config, metadata: { run_id: "run-3" } },
+    );
+
+    expect(await getInterrupt()).toBeUndefined();
+    expect(environmentApi.calls.map((c) => c.tool)).toEqual(["todo", "read"]);
+    expect(result.current_todo_list).toEqual(approvedTasks);
+    // The model's context starts over at the handoff, while the thread keeps
+    // the conversation before it.
+    const handoffIndex = result.chat_history.findIndex(
+      (m: BaseMessage) => m.id === result.context_start_id,
+    );
+    expect(result.chat_history[0].content).toBe("Fix the typo in the README.");
+    expect(handoffIndex).toBe(result.chat_history.length - 2);
+    expect(result.chat_history[handoffIndex].content).toContain(
+      HANDOFF.next_step,
+    );
+    expect(result.chat_history.at(-1).content).toBe(
+      "The README now says Hello.",
+    );
+    // Each resume is a run of its own, which continues the same budget.
+    expect(result.budget_usage.iterations).toBe(5);
+    expect(model.getUnused()).toEqual({ model: 0, tools: 0 });
+  });
+
+  it("skips a question asked in the same turn as a handoff", async () => {
+    const model = scriptModel([
+      [
+        call("message_ask", { message: "Which spelling should I use?" }),
+        call("handoff", HANDOFF),
+      ],
+      "Starting over from the summary.",
+    ]);
+    const graph = await createScoutGraph({
+      environmentApi: new MockEnvironment(),
+      fixture: model,
+    });
+    graph.checkpointer = new MemorySaver();
+    const config = { configurable: { thread_id: "scout-handoff-ask" } };
+
+    const result = await graph.invoke(
+      { chat_history: [new HumanMessage("Fix the typo in the README.")] },
+      config,
+    );
+
+    expect((await graph.getState(config)).tasks).toHaveLength(0);
+    const answer = result.chat_history.find(
+      (m: BaseMessage) => m.getType() === "tool" && m.name === "message_ask",
+    );
+    expect(JSON.parse(answer.content)).toMatchObject({ status: "SKIPPED" });
+    expect(result.chat_history.at(-2).content).toContain(
+      "The handoff turn also called message_ask",
+    );
+  });
+
+  it("leaves the time spent waiting for an answer out of the time budget", async () => {
+    const model = scriptModel([
+      [call("message_ask", { message: "Which spelling should I use?" })],
+      "The README now says Hello.",
+    ]);
+    const graph = await createScoutGraph({
+      environmentApi: new MockEnvironment(),
+      fixture: model,
+      budget: { maxWallClockMs: 30 * 60 * 1000 },
+    });
+    graph.checkpointer = new MemorySaver();
+    const config = { configurable: { thread_id: "scout-wall-clock" } };
+
+    await graph.invoke(
+      { chat_history: [new HumanMessage("Fix the typo in the README.")] },
+      config,
+    );
+    // The user answers 45 minutes later.
+    const now = Date.now() + 45 * 60 * 1000;
+    vi.spyOn(Date, "now").mockReturnValue(now);
+    const result = await graph.invoke(
+      new Command({
+        resume: {
+          type: "select",
+          option: { emoji: "🇺🇸", title: "Hello", prompt: "Use Hello." },
+        },
+      }),
+      config,
+    );
+
+    expect(result.budget_usage.exceeded).toBeUndefined();
+    expect(result.budget_usage.active_ms).toBeLessThan(60 * 1000);
+    expect(result.chat_history.at(-1).content).toBe(
+      "The README now says Hello.",
+    );
+  });
+});
@@ -1,49 +1,242 @@
-import { ChatOpenAI } from "@langchain/openai";
-import { createOpenAIToolsAgent } from "langchain/agents";
 import {
   ChatPromptTemplate,
   MessagesPlaceholder,
 } from "@langchain/core/prompts";
+import type { DynamicStructuredTool } from "@langchain/core/tools";
+import type { BaseMessage } from "@langchain/core/messages";
+import { RunnableLambda } from "@langchain/core/runnables";
 import { createAisdk5Tools } from "./tools/aisdk5";
-import { AISDK5_SYSTEM_PROMPT } from "./prompts/system";
+import {
+  AISDK5_SYSTEM_PROMPT,
+  READ_AGENT_SYSTEM_PROMPT,
+} from "./prompts/system";
 import { EnvironmentAPI } from "./environment";
+import { loadToolPolicy, ToolPolicyEngine } from "./tools/policy";
+import { createScoutWorkflow } from "./workflow";
+import { createReadAgentTool, READ_AGENT_TOOLS } from "./read-agent";
+import { ContextConfig, loadContextConfig } from "./context";
+import { loadRunBudget, RunBudget } from "./budget";
+import { createScreenshotStore } from "./screenshot-store";
+import {
+  adaptMessages,
+  bindModelTools,
+  createChatModel,
+  getProviderPricing,
+  loadModelConfig,
+  ModelConfig,
+  ModelProvider,
+} from "./models";
+import { FixtureModel, FixturePlayer, FixtureRecorder } from "./fixtures";
 
 export interface ScoutAgentConfig {
   environmentApi: EnvironmentAPI;
+  /**
+   * Defaults to `AGENT_MODEL_PROVIDER`, or `openai`.
+   */
+  provider?: ModelProvider;
   modelName?: string;
   temperature?: number;
+  /**
+   * Further model settings, such as the base URL of a local model server.
+   * Default to the `AGENT_MODEL_*` variables.
+   */
+  model?: Partial<ModelConfig>;
   verboseLogging?: boolean;
+  /**
+   * Policy applied to every tool call. Defaults to the JSON or YAML file at
+   * `AGENT_TOOL_POLICY_PATH`, if set.
+   */
+  toolPolicy?: ToolPolicyEngine;
+  /**
+   * Replaces the Scout system prompt, e.g. for sub-agents.
+   */
+  systemPrompt?: string;
+  /**
+   * Restricts the agent to these tools. Defaults to the whole AISDK5 toolset.
+   */
+  allowedTools?: readonly string[];
+  /**
+   * Maximum model turns of a `read_agent` sub-agent. Defaults to
+   * `AGENT_READ_AGENT_MAX_STEPS`, or 10.
+   */
+  readAgentMaxSteps?: number;
+  /**
+   * Overrides the `AGENT_CONTEXT_*` limits of `chat_history`. Summaries are
+   * written by the agent's model unless another summarizer is given.
+   */
+  context?: Partial<ContextConfig>;
+  /**
+   * Maximum tool calls run at once. Defaults to `AGENT_TOOL_CONCURRENCY`, or 4.
+   */
+  toolConcurrency?: number;
+  /**
+   * Overrides the `AGENT_BUDGET_*` limits of each run.
+   */
+  budget?: Partial<RunBudget>;
+  /**
+   * Records the model calls to a fixture, or replays them from one instead
+   * of calling the provider. Pair it with the fixture's environment.
+   */
+  fixture?: FixtureRecorder | FixturePlayer;
 }
 
-/**
- * Creates a GPT-5 powered agent equipped with the AISDK5 toolset.
- */
-export async function createScoutAgent(config: ScoutAgentConfig) {
-  const verboseLogging =
-    config.verboseLogging ?? process.env.AGENT_VERBOSE_LOGGING === "true";
-  const modelName = config.modelName ?? process.env.AGENT_MODEL_NAME ?? "gpt-5";
-  const temperature =
-    config.temperature ?? parseFloat(process.env.AGENT_TEMPERATURE || "0.1");
+async function resolveToolPolicy(
+  config: ScoutAgentConfig,
+  verboseLogging: boolean,
+): Promise<ToolPolicyEngine | undefined> {
+  return (
+    config.toolPolicy ??
+    (process.env.AGENT_TOOL_POLICY_PATH
+      ? new ToolPolicyEngine(
+          await loadToolPolicy(process.env.AGENT_TOOL_POLICY_PATH),
+          {
+            logPath: process.env.AGENT_TOOL_POLICY_LOG_PATH,
+            onDecision: verboseLogging
+              ? (decision) =>
+                  console.log(
+                    `[Agent Policy] Tool: ${decision.tool}, Decision: ${decision.effect}, Reason: ${decision.reason}`,
+                  )
+              : undefined,
+          },
+        )
+      : undefined)
+  );
+}
 
-  const tools = createAisdk5Tools(config.environmentApi, verboseLogging);
+async function createScoutTools(
+  config: ScoutAgentConfig,
+  verboseLogging: boolean,
+): Promise<DynamicStructuredTool[]> {
+  const tools = createAisdk5Tools(
+    config.environmentApi,
+    verboseLogging,
+    await resolveToolPolicy(config, verboseLogging),
+  );
+  const { allowedTools } = config;
+  return allowedTools
+    ? tools.filter((tool) => allowedTools.includes(tool.name))
+    : tools;
+}
+
+function getModelConfig(config: ScoutAgentConfig): ModelConfig {
+  return loadModelConfig({
+    ...config.model,
+    ...(config.provider && { provider: config.provider }),
+    ...(config.modelName && { modelName: config.modelName }),
+    ...(config.temperature !== undefined && {
+      temperature: config.temperature,
+    }),
+  });
+}
+
+function withFixture(
+  config: ScoutAgentConfig,
+  createModel: () => FixtureModel,
+): FixtureModel {
+  return config.fixture ? config.fixture.wrapModel(createModel) : createModel();
+}
+
+function createScoutModel(
+  config: ScoutAgentConfig,
+  tools: DynamicStructuredTool[],
+  verboseLogging: boolean,
+) {
+  const modelConfig = getModelConfig(config);
 
   if (verboseLogging) {
     console.log(
-      `[Agent Setup] Initializing Scout Agent with model: ${modelName}, temperature: ${temperature}`,
+      `[Agent Setup] Initializing Scout Agent with ${modelConfig.provider} model: ${modelConfig.modelName}, temperature: ${modelConfig.temperature}`,
     );
   }
 
-  const model = new ChatOpenAI({
-    modelName,
-    temperature,
-    streaming: true,
-  });
-
+  // The workflow keeps tool calls and their results in `chat_history`, so no
+  // separate scratchpad is needed.
   const prompt = ChatPromptTemplate.fromMessages([
-    ["system", AISDK5_SYSTEM_PROMPT],
+    ["system", config.systemPrompt ?? AISDK5_SYSTEM_PROMPT],
     new MessagesPlaceholder("chat_history"),
-    new MessagesPlaceholder("agent_scratchpad"),
   ]);
 
-  return createOpenAIToolsAgent({ llm: model, tools, prompt });
+  return RunnableLambda.from(
+    ({ chat_history }: { chat_history: BaseMessage[] }) => ({
+      chat_history: adaptMessages(chat_history, modelConfig),
+    }),
+  )
+    .pipe(prompt)
+    .pipe(
+      withFixture(config, () =>
+        bindModelTools(
+          createChatModel(modelConfig, { streaming: true }),
+          tools,
+          modelConfig,
+        ),
+      ),
+    );
+}
+
+/**
+ * Creates an agent equipped with the AISDK5 toolset, on the configured model
+ * provider. The agent returns an AI message whose `tool_calls` are executed by
+ * the Scout workflow.
+ */
+export async function createScoutAgent(config: ScoutAgentConfig) {
+  const verboseLogging =
+    config.verboseLogging ?? process.env.AGENT_VERBOSE_LOGGING === "true";
+  const tools = await createScoutTools(config, verboseLogging);
+  return createScoutModel(config, tools, verboseLogging);
+}
+
+/**
+ * Creates the compiled Scout workflow, sharing one set of tools between the
+ * agent and the node which executes them.
+ */
+export async function createScoutGraph(config: ScoutAgentConfig) {
+  const verboseLogging =
+    config.verboseLogging ?? process.env.AGENT_VERBOSE_LOGGING === "true";
+  const toolPolicy = await resolveToolPolicy(config, verboseLogging);
+  const environmentTools = await createScoutTools(
+    { ...config, toolPolicy },
+    verboseLogging,
+  );
+
+  // `read_agent` runs locally on a read-only sub-agent instead of the runtime.
+  const readAgent = createReadAgentTool(
+    await createScoutAgent({
+      ...config,
+      toolPolicy,
+      systemPrompt: READ_AGENT_SYSTEM_PROMPT,
+      allowedTools: READ_AGENT_TOOLS,
+    }),
+    environmentTools,
+    {
+      maxSteps:
+        config.readAgentMaxSteps ??
+        (parseInt(process.env.AGENT_READ_AGENT_MAX_STEPS || "", 10) ||
+          undefined),
+      policy: toolPolicy,
+      toolConcurrency: config.toolConcurrency,
+    },
+  );
+  const tools = environmentTools.map((tool) =>
+    tool.name === "read_agent" ? readAgent : tool,
+  );
+
+  return createScoutWorkflow(
+    createScoutModel(config, tools, verboseLogging),
+    tools,
+    {
+      context: {
+        ...loadContextConfig(),
+        ...config.context,
+        summarizer:
+          config.context?.summarizer ??
+          withFixture(config, () => createChatModel(getModelConfig(config))),
+        screenshotStore:
+          config.context?.screenshotStore ?? createScreenshotStore(),
+      },
+      toolConcurrency: config.toolConcurrency,
+      budget: { ...loadRunBudget(), ...config.budget },
+      pricing: getProviderPricing(getModelConfig(config)),
+      toolPolicy,
+    },
+  );
 }
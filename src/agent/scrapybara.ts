@@ -0,0 +1,84 @@
+import type { Scrapybara } from "scrapybara";
+import type { ComputerAction } from "./approval";
+
+// CUA key names which differ from Scrapybara's, copied from the mapping
+// `@langchain/langgraph-cua` uses.
+const CUA_KEY_TO_SCRAPYBARA_KEY: Record<string, string> = {
+  "/": "slash",
+  "\\": "backslash",
+  arrowdown: "Down",
+  arrowleft: "Left",
+  arrowright: "Right",
+  arrowup: "Up",
+  backspace: "BackSpace",
+  capslock: "Caps_Lock",
+  cmd: "Meta_L",
+  delete: "Delete",
+  end: "End",
+  enter: "Return",
+  esc: "Escape",
+  home: "Home",
+  insert: "Insert",
+  option: "Alt_L",
+  pagedown: "Page_Down",
+  pageup: "Page_Up",
+  tab: "Tab",
+  win: "Meta_L",
+};
+
+// Scrapybara scrolls by wheel clicks, the model by pixels.
+const SCROLL_PIXELS_PER_CLICK = 20;
+
+/**
+ * Translates a computer action into the Scrapybara request which performs
+ * it. Screenshots and waits need no input, so they have none.
+ */
+export function getScrapybaraRequest(
+  action: ComputerAction,
+): Scrapybara.Request | undefined {
+  switch (action.type) {
+    case "click":
+      return {
+        action: "click_mouse",
+        button: action.button === "wheel" ? "middle" : action.button,
+        coordinates: [action.x, action.y],
+      };
+    case "double_click":
+      return {
+        action: "click_mouse",
+        button: "left",
+        coordinates: [action.x, action.y],
+        numClicks: 2,
+      };
+    case "drag":
+      return {
+        action: "drag_mouse",
+        path: action.path.map(({ x, y }) => [x, y]),
+      };
+    case "keypress":
+      return {
+        action: "press_key",
+        keys: action.keys
+          .map((key) => key.toLowerCase())
+          .map((key) => CUA_KEY_TO_SCRAPYBARA_KEY[key] ?? key),
+      };
+    case "move":
+      return { action: "move_mouse", coordinates: [action.x, action.y] };
+    case "scroll":
+      return {
+        action: "scroll",
+        deltaX: action.scroll_x / SCROLL_PIXELS_PER_CLICK,
+        deltaY: action.scroll_y / SCROLL_PIXELS_PER_CLICK,
+        coordinates: [action.x, action.y],
+      };
+    case "type":
+      return { action: "type_text", text: action.text };
+    case "screenshot":
+    case "wait":
+      return undefined;
+    default:
+      throw new Error(
+        `Unknown computer action received: ${JSON.stringify(action, null, 2)}`,
+      );
+  }
+}
@@ -0,0 +1,326 @@
+import { createHash, createHmac } from "node:crypto";
+import { mkdir, writeFile } from "node:fs/promises";
+import { join, resolve } from "node:path";
+import { createClient } from "@supabase/supabase-js";
+import { v4 as uuidv4 } from "uuid";
+
+const BASE64_PNG_PREFIX = "data:image/png;base64,";
+
+/**
+ * Persists screenshots taken by the computer use agent and returns a URL which
+ * the UI can render and the model node can fetch.
+ */
+export interface ScreenshotStore {
+  /**
+   * Whether the URLs can be fetched from outside this deployment, e.g. by a
+   * model provider. A URL on localhost or a private network can't.
+   */
+  readonly publicUrls: boolean;
+  /**
+   * @param screenshot - A base64 encoded PNG, with or without a data URL prefix.
+   * @returns A stable URL for the stored screenshot.
+   */
+  save(screenshot: string): Promise<string>;
+}
+
+function stripDataUrlPrefix(screenshot: string): string {
+  return screenshot.startsWith(BASE64_PNG_PREFIX)
+    ? screenshot.slice(BASE64_PNG_PREFIX.length)
+    : screenshot;
+}
+
+function convertBase64ToBlob(screenshot: string): Blob | null {
+  const base64Data = stripDataUrlPrefix(screenshot);
+
+  try {
+    // Decode the base64 string
+    const byteCharacters = atob(base64Data);
+    // Create an array of byte values
+    const byteNumbers = new Array(byteCharacters.length);
+    for (let i = 0; i < byteCharacters.length; i++) {
+      byteNumbers[i] = byteCharacters.charCodeAt(i);
+    }
+    // Convert to a typed array
+    const byteArray = new Uint8Array(byteNumbers);
+    // Create and return the Blob
+    return new Blob([byteArray], { type: "image/png" });
+  } catch (error) {
+    console.error("Failed to convert base64 to Blob:", error);
+    // Return null or handle the error as appropriate
+    return null;
+  }
+}
+
+export interface SupabaseScreenshotStoreConfig {
+  url: string;
+  apiKey: string;
+  bucketName?: string;
+  /**
+   * Lifetime of the signed URL in seconds. Defaults to 90 days.
+   */
+  expiresIn?: number;
+}
+
+/**
+ * Uploads screenshots to a Supabase storage bucket and returns signed URLs.
+ */
+export class SupabaseScreenshotStore implements ScreenshotStore {
+  readonly publicUrls = true;
+
+  constructor(private config: SupabaseScreenshotStoreConfig) {
+    if (!config.url || !config.apiKey) {
+      throw new Error("Missing Supabase credentials");
+    }
+  }
+
+  async save(screenshot: string): Promise<string> {
+    const bucketName = this.config.bucketName ?? "cua-screenshots";
+    const client = createClient(this.config.url, this.config.apiKey);
+    const fileName = `${uuidv4()}.png`;
+
+    const blob = convertBase64ToBlob(screenshot);
+    if (!blob) {
+      console.error("Failed to convert screenshot to blob. Aborting upload.");
+      throw new Error("Failed to process screenshot for upload.");
+    }
+
+    const { error: uploadError } = await client.storage
+      .from(bucketName)
+      .upload(fileName, blob, {
+        contentType: "image/png",
+        duplex: "half",
+        upsert: false,
+      });
+
+    if (uploadError) {
+      throw new Error(`Failed to upload screenshot: ${uploadError.message}`);
+    }
+
+    const expiresIn = this.config.expiresIn ?? 60 * 60 * 24 * 90; // 90 days
+
+    const { data, error: signedUrlError } = await client.storage
+      .from(bucketName)
+      .createSignedUrl(fileName, expiresIn);
+
+    if (signedUrlError) {
+      throw new Error(`Failed to create signed URL: ${signedUrlError.message}`);
+    }
+
+    return data.signedUrl;
+  }
+}
+
+export interface LocalScreenshotStoreConfig {
+  /**
+   * Directory the PNG files are written to.
+   */
+  directory: string;
+  /**
+   * URL the directory is served from, e.g. the `/api/screenshots` route.
+   */
+  publicUrl: string;
+  /**
+   * Whether `publicUrl` is reachable from outside this deployment. Defaults
+   * to false.
+   */
+  publicUrls?: boolean;
+}
+
+/**
+ * Writes screenshots to the local filesystem. Pair with the
+ * `/api/screenshots/[file]` route, which serves the same directory.
+ */
+export class LocalScreenshotStore implements ScreenshotStore {
+  readonly publicUrls: boolean;
+
+  constructor(private config: LocalScreenshotStoreConfig) {
+    this.publicUrls = config.publicUrls ?? false;
+  }
+
+  async save(screenshot: string): Promise<string> {
+    const fileName = `${uuidv4()}.png`;
+    const directory = resolve(this.config.directory);
+    await mkdir(directory, { recursive: true });
+    await writeFile(
+      join(directory, fileName),
+      Buffer.from(stripDataUrlPrefix(screenshot), "base64"),
+    );
+    return `${this.config.publicUrl.replace(/\/$/, "")}/${fileName}`;
+  }
+}
+
+export interface S3ScreenshotStoreConfig {
+  /**
+   * S3 compatible endpoint, e.g. `http://localhost:9000` for MinIO.
+   */
+  endpoint: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  region?: string;
+  /**
+   * Base URL objects are readable from. Defaults to the path-style bucket
+   * URL, which requires the bucket to allow anonymous downloads.
+   */
+  publicUrl?: string;
+  /**
+   * Whether the objects are readable from outside this deployment, unlike a
+   * MinIO on a private network. Defaults to false.
+   */
+  publicUrls?: boolean;
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac("sha256", key).update(data).digest();
+}
+
+/**
+ * Uploads screenshots to an S3 compatible bucket (AWS S3, MinIO, R2...) using
+ * path-style requests signed with AWS Signature Version 4.
+ */
+export class S3ScreenshotStore implements ScreenshotStore {
+  readonly publicUrls: boolean;
+
+  constructor(private config: S3ScreenshotStoreConfig) {
+    this.publicUrls = config.publicUrls ?? false;
+    if (
+      !config.endpoint ||
+      !config.bucket ||
+      !config.accessKeyId ||
+      !config.secretAccessKey
+    ) {
+      throw new Error("Missing S3 credentials");
+    }
+  }
+
+  async save(screenshot: string): Promise<string> {
+    const { bucket, accessKeyId, secretAccessKey } = this.config;
+    const region = this.config.region ?? "us-east-1";
+    const endpoint = new URL(this.config.endpoint);
+    const key = `${uuidv4()}.png`;
+    const body = Buffer.from(stripDataUrlPrefix(screenshot), "base64");
+
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, "");
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = sha256Hex(body);
+    const path = `${endpoint.pathname.replace(/\/$/, "")}/${bucket}/${key}`;
+
+    const headers: Record<string, string> = {
+      "content-type": "image/png",
+      host: endpoint.host,
+      "x-amz-content-sha256": payloadHash,
+      "x-amz-date": amzDate,
+    };
+    const signedHeaders = Object.keys(headers).sort().join(";");
+    const canonicalRequest = [
+      "PUT",
+      path,
+      "",
+      ...Object.keys(headers)
+        .sort()
+        .map((h) => `${h}:${headers[h]}`),
+      "",
+      signedHeaders,
+      payloadHash,
+    ].join("\n");
+
+    const scope = `${dateStamp}/${region}/s3/aws4_request`;
+    const stringToSign = [
+      "AWS4-HMAC-SHA256",
+      amzDate,
+      scope,
+      sha256Hex(canonicalRequest),
+    ].join("\n");
+    const signingKey = hmac(
+      hmac(hmac(hmac(`AWS4${secretAccessKey}`, dateStamp), region), "s3"),
+      "aws4_request",
+    );
+    const signature = createHmac("sha256", signingKey)
+      .update(stringToSign)
+      .digest("hex");
+
+    // `host` is signed but set by fetch itself.
+    const { host: _host, ...requestHeaders } = headers;
+    const response = await fetch(`${endpoint.origin}${path}`, {
+      method: "PUT",
+      headers: {
+        ...requestHeaders,
+        Authorization: `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+      },
+      body,
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `Failed to upload screenshot: ${response.status} ${await response.text()}`,
+      );
+    }
+
+    const publicUrl =
+      this.config.publicUrl ??
+      `${endpoint.origin}${path.slice(0, -key.length - 1)}`;
+    return `${publicUrl.replace(/\/$/, "")}/${key}`;
+  }
+}
+
+/**
+ * Returns screenshots as data URLs without storing them anywhere. They only
+ * live in the thread state, which makes it suitable for development and tests.
+ */
+export class MemoryScreenshotStore implements ScreenshotStore {
+  readonly publicUrls = false;
+
+  async save(screenshot: string): Promise<string> {
+    return `${BASE64_PNG_PREFIX}${stripDataUrlPrefix(screenshot)}`;
+  }
+}
+
+export type ScreenshotStoreType = "supabase" | "local" | "s3" | "memory";
+
+/**
+ * Creates the screenshot store selected by the `SCREENSHOT_STORE` environment
+ * variable. When unset, Supabase is used if it is configured, otherwise
+ * screenshots are kept inline as data URLs.
+ */
+export function createScreenshotStore(
+  type = process.env.SCREENSHOT_STORE as ScreenshotStoreType | undefined,
+): ScreenshotStore {
+  const resolvedType =
+    type ?? (process.env.SUPABASE_URL ? "supabase" : "memory");
+
+  switch (resolvedType) {
+    case "supabase":
+      return new SupabaseScreenshotStore({
+        url: process.env.SUPABASE_URL ?? "",
+        apiKey: process.env.SUPABASE_API_KEY ?? "",
+      });
+    case "local":
+      return new LocalScreenshotStore({
+        directory: process.env.SCREENSHOT_LOCAL_DIR ?? ".screenshots",
+        publicUrl:
+          process.env.SCREENSHOT_PUBLIC_URL ??
+          "http://localhost:3000/api/screenshots",
+        publicUrls: process.env.SCREENSHOT_PUBLIC_URLS === "true",
+      });
+    case "s3":
+      return new S3ScreenshotStore({
+        endpoint: process.env.S3_ENDPOINT ?? "",
+        bucket: process.env.S3_BUCKET ?? "cua-screenshots",
+        region: process.env.S3_REGION,
+        accessKeyId: process.env.S3_ACCESS_KEY_ID ?? "",
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY ?? "",
+        publicUrl: process.env.S3_PUBLIC_URL,
+        publicUrls: process.env.SCREENSHOT_PUBLIC_URLS === "true",
+      });
+    case "memory":
+      return new MemoryScreenshotStore();
+    default:
+      throw new Error(
+        `Invalid SCREENSHOT_STORE. Must be one of 'supabase', 'local', 's3' or 'memory'. Received: ${resolvedType}`,
+      );
+  }
+}
@@ -0,0 +1,46 @@
+import { AIMessage } from "@langchain/core/messages";
+import { withComputerCallAction } from "./approval";
+
+/**
+ * The value passed to `interrupt` while the human has control of the VM.
+ */
+export interface TakeoverInterrupt {
+  type: "takeover";
+  instanceId: string;
+}
+
+/**
+ * The value the run is resumed with once control is handed back.
+ */
+export interface TakeoverResponse {
+  /**
+   * What the human did, told to the model before it continues.
+   */
+  summary: string;
+}
+
+/**
+ * Key of the AI message's `additional_kwargs` recording the summaries of
+ * take-overs by the call ID they interrupted.
+ */
+export const TAKEOVER_CALLS_KEY = "takeover_computer_calls";
+
+/**
+ * Replaces the action of a call the human took over before with a
+ * screenshot, since the screen it was aimed at may have changed, and records
+ * the take-over's summary for after the screenshot.
+ */
+export function withTakeover(
+  message: AIMessage,
+  callId: string,
+  summary: string,
+): AIMessage {
+  const updated = withComputerCallAction(message, callId, {
+    type: "screenshot",
+  });
+  updated.additional_kwargs[TAKEOVER_CALLS_KEY] = {
+    ...(message.additional_kwargs?.[TAKEOVER_CALLS_KEY] as object),
+    [callId]: summary,
+  };
+  return updated;
+}
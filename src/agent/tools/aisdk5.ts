@@ -1,6 +1,8 @@
 import { z } from "zod";
 import { DynamicStructuredTool } from "@langchain/core/tools";
 import { EnvironmentAPI, EnvironmentError } from "../environment";
+import { getPolicyApproval, isAllowed, ToolPolicyEngine } from "./policy";
+import { executeToolWithLiveOutput, STREAMING_TOOLS } from "./stream";
 
 // =============================================================================
 // Scout Tools Schema Definition (AISDK5 Compliant)
@@ -518,10 +520,12 @@ export const ScoutTools = {
 /**
  * Maps the AISDK5 Zod definitions to LangChain DynamicStructuredTools.
  * @param environmentApi - The service connecting to the AISDK5 runtime.
+ * @param policy - Optional policy checked before every call reaches the runtime.
  */
 export function createAisdk5Tools(
   environmentApi: EnvironmentAPI,
   verboseLogging: boolean = false,
+  policy?: ToolPolicyEngine,
 ): DynamicStructuredTool[] {
   const tools: DynamicStructuredTool[] = [];
 
@@ -536,15 +540,41 @@ export function createAisdk5Tools(
       name: toolName,
       description: definition.description,
       schema: definition.parameters as any,
-      func: async (input) => {
+      func: async (input, _runManager, config) => {
         if (verboseLogging) {
           console.log(
             `[Agent Execution] Tool: ${toolName}, Input:`,
             JSON.stringify(input, null, 2),
           );
         }
+        if (policy) {
+          const decision = await policy.authorize(
+            toolName,
+            input,
+            getPolicyApproval(config),
+          );
+          if (!isAllowed(decision)) {
+            if (verboseLogging) {
+              console.warn(
+                `[Agent Policy] Tool: ${toolName} blocked: ${decision.reason}`,
+              );
+            }
+            return JSON.stringify({
+              error: `Blocked by tool policy: ${decision.reason}`,
+              tool: toolName,
+              status: "BLOCKED",
+            });
+          }
+        }
         try {
-          const result = await environmentApi.executeTool(toolName, input);
+          const result = STREAMING_TOOLS.includes(toolName)
+            ? await executeToolWithLiveOutput(
+                environmentApi,
+                toolName,
+                input,
+                config,
+              )
+            : await environmentApi.executeTool(toolName, input);
           let output = JSON.stringify(result);
           if (output.length > MAX_OUTPUT_SIZE) {
             output =
@@ -573,6 +603,13 @@ export function createAisdk5Tools(
           return JSON.stringify({
             error: errorMessage,
             details: errorDetails,
+            ...(error instanceof EnvironmentError
+              ? {
+                  attempts: error.attempts,
+                  retryable: error.retryable,
+                  circuitOpen: error.circuitOpen,
+                }
+              : {}),
             tool: toolName,
             input: truncatedInput,
             status: "FAILURE",
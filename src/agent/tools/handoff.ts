@@ -0,0 +1,90 @@
+import { randomUUID } from "node:crypto";
+import { HumanMessage, MessageContent } from "@langchain/core/messages";
+import { DO_NOT_RENDER_ID_PREFIX } from "../../lib/constants";
+import type { TodoTask } from "../ui/todo-list";
+
+/**
+ * Arguments of the `handoff` tool.
+ */
+export interface HandoffSummary {
+  primary_request: string;
+  reason: string;
+  key_topics: string;
+  files_and_resources: string;
+  problem_solving: string;
+  current_task: string;
+  next_step: string;
+  errors_and_fixes?: string;
+}
+
+const HANDOFF_SECTIONS: Array<[keyof HandoffSummary, string]> = [
+  ["primary_request", "Primary request"],
+  ["key_topics", "Key topics"],
+  ["files_and_resources", "Files and resources"],
+  ["problem_solving", "Problem solving"],
+  ["errors_and_fixes", "Errors and fixes"],
+  ["current_task", "Current task"],
+  ["next_step", "Next step"],
+];
+
+/**
+ * The summary as titled sections, skipping the optional ones left empty.
+ */
+export function getHandoffSections(
+  summary: HandoffSummary,
+): Array<{ title: string; content: string }> {
+  return HANDOFF_SECTIONS.filter(([key]) => summary[key]).map(
+    ([key, title]) => ({ title, content: String(summary[key]) }),
+  );
+}
+
+/**
+ * Builds the message the model's context starts from after a handoff. It
+ * carries the summary, the todo list and the latest screenshot, so the fresh
+ * context can pick up where the previous one stopped. The ID keeps it out of
+ * the thread, where the handoff divider is shown instead.
+ *
+ * @param skippedCalls - Names of the turn's calls which were not run, because
+ * they wait for the user and the handoff moves on without them.
+ */
+export function createHandoffMessage(
+  summary: HandoffSummary,
+  todoList?: TodoTask[],
+  latestScreenshot?: string,
+  skippedCalls: string[] = [],
+): HumanMessage {
+  const sections = getHandoffSections(summary).map(
+    ({ title, content }) => `## ${title}\n${content}`,
+  );
+  if (todoList?.length) {
+    sections.push(
+      `## Todo list\n${todoList
+        .map((task) => `- [${task.status}] ${task.title} (id: ${task.id})`)
+        .join("\n")}`,
+    );
+  }
+  if (skippedCalls.length) {
+    sections.push(
+      `## Not run\nThe handoff turn also called ${skippedCalls.join(", ")}, which waits for the user and was skipped. Call it again if it is still needed.`,
+    );
+  }
+  const text = `[System Handoff] The previous context was reset (${summary.reason}). Continue the work from this summary.\n\n${sections.join("\n\n")}`;
+
+  const content: MessageContent = latestScreenshot
+    ? [
+        { type: "text", text },
+        {
+          type: "image_url",
+          image_url: {
+            url: `data:image/png;base64,${latestScreenshot}`,
+            detail: "high",
+          },
+        },
+      ]
+    : text;
+
+  return new HumanMessage({
+    id: `${DO_NOT_RENDER_ID_PREFIX}handoff-${randomUUID()}`,
+    content,
+  });
+}
@@ -0,0 +1,68 @@
+import { LangGraphRunnableConfig } from "@langchain/langgraph";
+import type { UIMessage } from "@langchain/langgraph-sdk/react-ui";
+import { createInterruptUi } from "../interrupt";
+
+export interface FollowUpInput {
+  type: "text" | "number" | "date";
+  question: string;
+  placeholder?: string | number;
+  suggestions?: string[];
+}
+
+export interface FollowUpSelect {
+  emoji: string;
+  title: string;
+  prompt: string;
+}
+
+export interface MessageAskRequest {
+  message: string;
+  attachment?: string;
+  follow_ups_input?: FollowUpInput[];
+  follow_ups_select?: FollowUpSelect[];
+}
+
+/**
+ * The user's answer, sent as the resume value of the interrupt.
+ */
+export type MessageAskResponse =
+  | { type: "input"; answers: Array<{ question: string; answer: string }> }
+  | { type: "select"; option: FollowUpSelect };
+
+/**
+ * The value passed to `interrupt`. Carries a UI message so the client can
+ * render the form while the run is paused.
+ */
+export interface MessageAskInterrupt extends MessageAskRequest {
+  type: "message_ask";
+  ui: UIMessage;
+}
+
+export function createMessageAskInterrupt(
+  id: string,
+  request: MessageAskRequest,
+  config: LangGraphRunnableConfig,
+): MessageAskInterrupt {
+  return {
+    ...request,
+    type: "message_ask",
+    ui: createInterruptUi(config, {
+      id,
+      name: "message-ask",
+      props: { ...request },
+    }),
+  };
+}
+
+/**
+ * Formats the user's answer as the text of the human message which resumes
+ * the conversation.
+ */
+export function formatMessageAskResponse(response: MessageAskResponse): string {
+  if (response.type === "select") {
+    return response.option.prompt;
+  }
+  return response.answers
+    .map(({ question, answer }) => `${question}\n${answer || "(no answer)"}`)
+    .join("\n\n");
+}
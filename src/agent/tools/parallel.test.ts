@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { getToolResource, runToolCalls } from "./parallel";
+
+describe("runToolCalls", () => {
+  it("runs calls on the same file one at a time, however it is spelled", async () => {
+    const calls = [
+      "/project/workspace/a.ts",
+      "./a.ts",
+      "/project/workspace//a.ts",
+      "/project/workspace/src/../a.ts",
+    ].map((file_path) => ({ name: "write", args: { file_path } }));
+    let active = 0;
+    let maxActive = 0;
+
+    await runToolCalls(calls, async () => {
+      maxActive = Math.max(maxActive, ++active);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      active--;
+    });
+
+    expect(new Set(calls.map(getToolResource))).toEqual(
+      new Set(["file:/project/workspace/a.ts"]),
+    );
+    expect(maxActive).toBe(1);
+  });
+});
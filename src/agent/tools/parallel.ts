@@ -0,0 +1,95 @@
+import { posix } from "node:path";
+
+export const DEFAULT_TOOL_CONCURRENCY = 4;
+
+interface ToolCallLike {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+// Tools which change the workspace through the shell, where two commands may
+// depend on each other's side effects.
+const SHELL_TOOLS = ["bash_run", "github_command", "code_template"];
+// Tools which read or write a single file, named by `file_path`.
+const FILE_TOOLS = ["read", "edit", "write"];
+// Relative file paths are resolved against the workspace.
+const WORKSPACE_ROOT = "/project/workspace";
+
+/**
+ * The resource a call needs exclusive access to, if any. Calls sharing a
+ * resource run one at a time, in the order the model made them.
+ */
+export function getToolResource(call: ToolCallLike): string | undefined {
+  if (call.name === "computer") return "computer";
+  if (SHELL_TOOLS.includes(call.name)) return "shell";
+  if (
+    FILE_TOOLS.includes(call.name) &&
+    typeof call.args.file_path === "string"
+  ) {
+    // Every spelling of a path has to lock the same file.
+    return `file:${posix.resolve(WORKSPACE_ROOT, call.args.file_path)}`;
+  }
+  return undefined;
+}
+
+/**
+ * Reads the limit from `AGENT_TOOL_CONCURRENCY`, defaulting to 4.
+ */
+export function getToolConcurrency(): number {
+  const parsed = parseInt(process.env.AGENT_TOOL_CONCURRENCY || "", 10);
+  return parsed > 0 ? parsed : DEFAULT_TOOL_CONCURRENCY;
+}
+
+function createLimiter(concurrency: number) {
+  let active = 0;
+  const queue: Array<() => void> = [];
+
+  return async function limit<T>(task: () => Promise<T>): Promise<T> {
+    if (active < concurrency) {
+      active++;
+    } else {
+      await new Promise<void>((resolve) => queue.push(resolve));
+    }
+    try {
+      return await task();
+    } finally {
+      // Hands the slot straight to the next waiting task, if there is one.
+      const next = queue.shift();
+      if (next) next();
+      else active--;
+    }
+  };
+}
+
+/**
+ * Runs tool calls concurrently, at most `concurrency` at a time, while calls
+ * on the same resource wait for the earlier ones. Results are returned in the
+ * order of `calls`, whatever order they finish in.
+ */
+export async function runToolCalls<C extends ToolCallLike, R>(
+  calls: C[],
+  run: (call: C) => Promise<R>,
+  concurrency: number = DEFAULT_TOOL_CONCURRENCY,
+): Promise<R[]> {
+  const limit = createLimiter(Math.max(1, concurrency));
+  const pending = new Map<string, Promise<unknown>>();
+
+  return Promise.all(
+    calls.map((call) => {
+      const resource = getToolResource(call);
+      const previous = resource ? pending.get(resource) : undefined;
+      // Wait for the resource before taking a slot, so waiting calls never
+      // hold slots the calls ahead of them need.
+      const task = (previous ?? Promise.resolve()).then(() =>
+        limit(() => run(call)),
+      );
+      if (resource) {
+        pending.set(
+          resource,
+          task.catch(() => undefined),
+        );
+      }
+      return task;
+    }),
+  );
+}
@@ -0,0 +1,49 @@
+import { LangGraphRunnableConfig } from "@langchain/langgraph";
+import type { UIMessage } from "@langchain/langgraph-sdk/react-ui";
+import { createInterruptUi } from "../interrupt";
+
+/**
+ * A tool call which a `require_approval` policy rule holds back.
+ */
+export interface PolicyApprovalRequest {
+  callId: string;
+  tool: string;
+  input: unknown;
+  reason: string;
+}
+
+/**
+ * The user's decisions, sent as the resume value of the interrupt.
+ */
+export interface PolicyApprovalResponse {
+  /**
+   * IDs of the calls which may run. The others are blocked.
+   */
+  approved: string[];
+}
+
+/**
+ * The value passed to `interrupt`. Carries a UI message so the client can
+ * render the held calls while the run is paused.
+ */
+export interface PolicyApprovalInterrupt {
+  type: "policy_approval";
+  calls: PolicyApprovalRequest[];
+  ui: UIMessage;
+}
+
+export function createPolicyApprovalInterrupt(
+  id: string,
+  calls: PolicyApprovalRequest[],
+  config: LangGraphRunnableConfig,
+): PolicyApprovalInterrupt {
+  return {
+    type: "policy_approval",
+    calls,
+    ui: createInterruptUi(config, {
+      id,
+      name: "policy-approval",
+      props: { calls },
+    }),
+  };
+}
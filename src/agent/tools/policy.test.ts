@@ -0,0 +1,129 @@
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { loadToolPolicy, ToolPolicyEngine, ToolPolicyError } from "./policy";
+
+describe("ToolPolicyEngine", () => {
+  it("denies a call when any of its paths falls under a deny prefix", () => {
+    const engine = new ToolPolicyEngine({
+      rules: [
+        { tool: "*", effect: "deny", pathPrefixes: ["/project/secrets"] },
+      ],
+    });
+
+    const decision = engine.evaluate("image_edit", {
+      imagePaths: ["/project/workspace/logo.png", "/project/secrets/key.png"],
+    });
+
+    expect(decision.effect).toBe("deny");
+    expect(decision.ruleIndex).toBe(0);
+  });
+
+  it("only allows a call when all of its paths fall under an allow prefix", () => {
+    const engine = new ToolPolicyEngine({
+      defaultEffect: "deny",
+      rules: [
+        { tool: "*", effect: "allow", pathPrefixes: ["/project/workspace"] },
+      ],
+    });
+
+    expect(
+      engine.evaluate("image_edit", {
+        imagePaths: ["/project/workspace/a.png", "/project/workspace/b.png"],
+      }).effect,
+    ).toBe("allow");
+    expect(
+      engine.evaluate("image_edit", {
+        imagePaths: ["/project/workspace/a.png", "/etc/passwd"],
+      }).effect,
+    ).toBe("deny");
+  });
+
+  it("does not let .. segments climb out of a prefix", () => {
+    const engine = new ToolPolicyEngine({
+      defaultEffect: "deny",
+      rules: [
+        { tool: "read", effect: "allow", pathPrefixes: ["/project/workspace"] },
+      ],
+    });
+
+    expect(
+      engine.evaluate("read", { file_path: "/project/workspace/../.env" })
+        .effect,
+    ).toBe("deny");
+  });
+
+  it("blocks require_approval calls without an approver", async () => {
+    const engine = new ToolPolicyEngine({
+      rules: [{ tool: "bash_run", effect: "require_approval" }],
+    });
+
+    const decision = await engine.authorize("bash_run", { command: "ls" });
+
+    expect(decision.approved).toBe(false);
+    expect(engine.decisions).toEqual([decision]);
+  });
+});
+
+describe("policy files", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "tool-policy-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("loads a YAML policy", async () => {
+    const path = join(directory, "policy.yaml");
+    await writeFile(
+      path,
+      [
+        "defaultEffect: allow",
+        "rules:",
+        "  - tool: bash_run",
+        "    effect: deny",
+        "    commandPatterns: ['^rm ']",
+        "    reason: No deletions.",
+      ].join("\n"),
+    );
+
+    const engine = new ToolPolicyEngine(await loadToolPolicy(path));
+
+    expect(engine.evaluate("bash_run", { command: "rm -rf /" })).toMatchObject({
+      effect: "deny",
+      reason: "No deletions.",
+    });
+  });
+
+  it("rejects a malformed JSON policy", async () => {
+    const path = join(directory, "policy.json");
+    await writeFile(path, '{"rules": [');
+
+    await expect(loadToolPolicy(path)).rejects.toThrow(ToolPolicyError);
+  });
+
+  it("appends every decision to the log file", async () => {
+    const logPath = join(directory, "decisions.jsonl");
+    const policy = {
+      rules: [{ tool: "bash_run", effect: "deny" as const }],
+    };
+
+    await new ToolPolicyEngine(policy, { logPath }).authorize("read", {
+      file_path: "/project/workspace/README.md",
+    });
+    // A new engine, as after a restart, appends to the same log.
+    await new ToolPolicyEngine(policy, { logPath }).authorize("bash_run", {
+      command: "ls",
+    });
+
+    const lines = (await readFile(logPath, "utf8")).trim().split("\n");
+    expect(lines.map((line) => JSON.parse(line))).toEqual([
+      expect.objectContaining({ tool: "read", effect: "allow" }),
+      expect.objectContaining({ tool: "bash_run", effect: "deny" }),
+    ]);
+  });
+});
@@ -0,0 +1,412 @@
+import { appendFile, readFile } from "node:fs/promises";
+import { extname, posix } from "node:path";
+import { parse as parseYaml } from "yaml";
+
+// =============================================================================
+// Scout Tool Policy
+// =============================================================================
+
+/**
+ * What happens to a tool call matched by a rule.
+ * - `allow`: the call is forwarded to the environment.
+ * - `deny`: the call is blocked and the model receives a failure result.
+ * - `require_approval`: the call waits for the user's approval, which the
+ *   Scout workflow asks for through an interrupt before running the call.
+ */
+export type PolicyEffect = "allow" | "deny" | "require_approval";
+
+/**
+ * Argument matchers for a rule. Every matcher present on a rule must match for
+ * the rule to apply. Matchers whose argument is missing from the call never match.
+ */
+export interface PolicyMatchers {
+  /**
+   * Absolute path prefixes, checked against the path arguments of the call
+   * (`file_path`, `path`, `outputPath`, etc.). An `allow` rule matches when
+   * every path falls under one of them, so one path outside cannot ride
+   * along. `deny` and `require_approval` rules match when any path does, so
+   * adding a path outside does not get a call past them.
+   */
+  pathPrefixes?: string[];
+  /**
+   * Regular expressions tested against the `command` argument. Matches when any of them do.
+   */
+  commandPatterns?: string[];
+  /**
+   * Repositories in `owner/repo` form, or `owner/*` for every repository of an owner.
+   */
+  repos?: string[];
+  /**
+   * Hostnames checked against the `url` argument. Subdomains are included.
+   */
+  domains?: string[];
+}
+
+export interface PolicyRule extends PolicyMatchers {
+  /**
+   * Tool name, list of tool names, or `*` for every tool.
+   */
+  tool: string | string[];
+  effect: PolicyEffect;
+  /**
+   * Explanation shown to the model and approver when the rule applies.
+   */
+  reason?: string;
+}
+
+export interface ToolPolicy {
+  /**
+   * Effect applied when no rule matches. Defaults to `allow`.
+   */
+  defaultEffect?: PolicyEffect;
+  /**
+   * Rules are evaluated in order; the first match wins.
+   */
+  rules: PolicyRule[];
+}
+
+export interface PolicyDecision {
+  tool: string;
+  input: unknown;
+  effect: PolicyEffect;
+  /**
+   * Index of the matching rule, or undefined when the default effect applied.
+   */
+  ruleIndex?: number;
+  reason: string;
+  /**
+   * Set once an approval handler has answered a `require_approval` decision.
+   */
+  approved?: boolean;
+  timestamp: string;
+}
+
+/**
+ * Asked to approve calls whose decision is `require_approval`. Resolves to
+ * whether the call may run.
+ */
+export type PolicyApprovalHandler = (
+  decision: PolicyDecision,
+) => Promise<boolean>;
+
+/**
+ * The user's answer for a call held by `require_approval`, given before the
+ * call runs. It applies only to calls of `tool`, so tools which make calls of
+ * their own, such as `read_agent`, do not pass it on.
+ */
+export interface PolicyApproval {
+  tool: string;
+  approved: boolean;
+}
+
+/**
+ * `configurable` key which carries a `PolicyApproval` to the tool.
+ */
+export const POLICY_APPROVAL_KEY = "tool_policy_approval";
+
+export function getPolicyApproval(
+  config: { configurable?: Record<string, any> } | undefined,
+): PolicyApproval | undefined {
+  return config?.configurable?.[POLICY_APPROVAL_KEY];
+}
+
+export interface ToolPolicyEngineOptions {
+  approve?: PolicyApprovalHandler;
+  /**
+   * Called with every decision once it is final.
+   */
+  onDecision?: (decision: PolicyDecision) => void;
+  /**
+   * File every final decision is appended to as a JSON line, so the log
+   * outlives the process.
+   */
+  logPath?: string;
+}
+
+/**
+ * Error raised when a policy document is malformed.
+ */
+export class ToolPolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ToolPolicyError";
+  }
+}
+
+const POLICY_EFFECTS: PolicyEffect[] = ["allow", "deny", "require_approval"];
+
+const PATH_ARGUMENTS = [
+  "file_path",
+  "path",
+  "outputPath",
+  "destination",
+  "repo_root",
+  "imagePaths",
+  "referenceImagePaths",
+  "attachment",
+];
+
+function getPathArguments(input: Record<string, unknown>): string[] {
+  return PATH_ARGUMENTS.flatMap((key) => {
+    const value = input[key];
+    if (typeof value === "string") return [value];
+    if (Array.isArray(value)) {
+      return value.filter((v): v is string => typeof v === "string");
+    }
+    return [];
+  });
+}
+
+/**
+ * Compares normalized paths, so `..` segments cannot climb out of the prefix.
+ * Relative paths never match, since their base is unknown.
+ */
+function isUnderPrefix(path: string, prefix: string): boolean {
+  const normalizedPath = posix.normalize(path);
+  const normalizedPrefix = posix.normalize(prefix).replace(/\/+$/, "");
+  if (!posix.isAbsolute(normalizedPath)) return false;
+  return (
+    normalizedPath === normalizedPrefix ||
+    normalizedPath.startsWith(`${normalizedPrefix}/`)
+  );
+}
+
+function matchesRepo(repo: string, pattern: string): boolean {
+  const [owner, name] = pattern.toLowerCase().split("/");
+  const [repoOwner, repoName] = repo.toLowerCase().split("/");
+  return owner === repoOwner && (name === "*" || name === repoName);
+}
+
+function matchesDomain(url: string, domains: string[]): boolean {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.toLowerCase();
+  } catch {
+    return false;
+  }
+  return domains.some((domain) => {
+    const d = domain.toLowerCase();
+    return hostname === d || hostname.endsWith(`.${d}`);
+  });
+}
+
+function matchesRule(
+  rule: PolicyRule,
+  tool: string,
+  input: Record<string, unknown>,
+): boolean {
+  const tools = Array.isArray(rule.tool) ? rule.tool : [rule.tool];
+  if (!tools.includes("*") && !tools.includes(tool)) return false;
+
+  if (rule.pathPrefixes) {
+    const paths = getPathArguments(input);
+    const isCovered = (path: string) =>
+      rule.pathPrefixes!.some((prefix) => isUnderPrefix(path, prefix));
+    const matches =
+      rule.effect === "allow" ? paths.every(isCovered) : paths.some(isCovered);
+    if (!paths.length || !matches) return false;
+  }
+  if (rule.commandPatterns) {
+    if (typeof input.command !== "string") return false;
+    const command = input.command;
+    if (!rule.commandPatterns.some((p) => new RegExp(p).test(command))) {
+      return false;
+    }
+  }
+  if (rule.repos) {
+    if (typeof input.repo !== "string") return false;
+    const repo = input.repo;
+    if (!rule.repos.some((p) => matchesRepo(repo, p))) return false;
+  }
+  if (rule.domains) {
+    if (typeof input.url !== "string") return false;
+    if (!matchesDomain(input.url, rule.domains)) return false;
+  }
+  return true;
+}
+
+function validateStringArray(value: unknown, field: string, index: number) {
+  if (
+    value !== undefined &&
+    (!Array.isArray(value) || value.some((v) => typeof v !== "string"))
+  ) {
+    throw new ToolPolicyError(
+      `Rule ${index}: "${field}" must be an array of strings.`,
+    );
+  }
+}
+
+/**
+ * Validates an untrusted policy document, such as a parsed config file.
+ */
+export function parseToolPolicy(value: unknown): ToolPolicy {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new ToolPolicyError("Tool policy must be an object.");
+  }
+  const { defaultEffect, rules } = value as Record<string, unknown>;
+  if (
+    defaultEffect !== undefined &&
+    !POLICY_EFFECTS.includes(defaultEffect as PolicyEffect)
+  ) {
+    throw new ToolPolicyError(
+      `"defaultEffect" must be one of ${POLICY_EFFECTS.join(", ")}.`,
+    );
+  }
+  if (!Array.isArray(rules)) {
+    throw new ToolPolicyError('Tool policy must have a "rules" array.');
+  }
+
+  rules.forEach((rule, index) => {
+    if (!rule || typeof rule !== "object") {
+      throw new ToolPolicyError(`Rule ${index} must be an object.`);
+    }
+    const tool = rule.tool;
+    if (
+      typeof tool !== "string" &&
+      !(Array.isArray(tool) && tool.every((t) => typeof t === "string"))
+    ) {
+      throw new ToolPolicyError(
+        `Rule ${index}: "tool" must be a tool name or an array of tool names.`,
+      );
+    }
+    if (!POLICY_EFFECTS.includes(rule.effect)) {
+      throw new ToolPolicyError(
+        `Rule ${index}: "effect" must be one of ${POLICY_EFFECTS.join(", ")}.`,
+      );
+    }
+    validateStringArray(rule.pathPrefixes, "pathPrefixes", index);
+    validateStringArray(rule.commandPatterns, "commandPatterns", index);
+    validateStringArray(rule.repos, "repos", index);
+    validateStringArray(rule.domains, "domains", index);
+    for (const pattern of rule.commandPatterns ?? []) {
+      try {
+        new RegExp(pattern);
+      } catch {
+        throw new ToolPolicyError(
+          `Rule ${index}: invalid command pattern ${pattern}.`,
+        );
+      }
+    }
+  });
+
+  return value as ToolPolicy;
+}
+
+/**
+ * Reads and validates a policy file, parsed as YAML when its extension is
+ * `.yaml` or `.yml` and as JSON otherwise.
+ */
+export async function loadToolPolicy(filePath: string): Promise<ToolPolicy> {
+  const contents = await readFile(filePath, "utf8");
+  const isYaml = [".yaml", ".yml"].includes(extname(filePath).toLowerCase());
+  let parsed: unknown;
+  try {
+    parsed = isYaml ? parseYaml(contents) : JSON.parse(contents);
+  } catch (e: any) {
+    throw new ToolPolicyError(
+      `Failed to parse tool policy ${filePath}: ${e.message}`,
+    );
+  }
+  return parseToolPolicy(parsed);
+}
+
+/**
+ * Evaluates Scout tool calls against a declarative policy before they reach
+ * the environment, and keeps a log of every decision, in memory and in the
+ * `logPath` file when one is given.
+ */
+export class ToolPolicyEngine {
+  readonly decisions: PolicyDecision[] = [];
+
+  constructor(
+    private policy: ToolPolicy,
+    private options: ToolPolicyEngineOptions = {},
+  ) {}
+
+  /**
+   * Returns the decision for a call without recording it or asking for approval.
+   */
+  evaluate(tool: string, input: unknown): PolicyDecision {
+    const args =
+      input && typeof input === "object"
+        ? (input as Record<string, unknown>)
+        : {};
+    const ruleIndex = this.policy.rules.findIndex((rule) =>
+      matchesRule(rule, tool, args),
+    );
+    const rule = this.policy.rules[ruleIndex];
+    const effect = rule?.effect ?? this.policy.defaultEffect ?? "allow";
+
+    return {
+      tool,
+      input,
+      effect,
+      ruleIndex: rule ? ruleIndex : undefined,
+      reason:
+        rule?.reason ??
+        (rule
+          ? `Matched policy rule ${ruleIndex} (${effect}).`
+          : `No policy rule matched; default is ${effect}.`),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Evaluates a call, applies the user's `approval` or asks the approval
+   * handler if required, and records the final decision. Use `isAllowed` to
+   * check whether the call may run.
+   */
+  async authorize(
+    tool: string,
+    input: unknown,
+    approval?: PolicyApproval,
+  ): Promise<PolicyDecision> {
+    const decision = this.evaluate(tool, input);
+
+    if (decision.effect === "require_approval") {
+      if (approval?.tool === tool) {
+        decision.approved = approval.approved;
+        if (!approval.approved) {
+          decision.reason = `${decision.reason} The user did not approve the call.`;
+        }
+      } else if (this.options.approve) {
+        decision.approved = await this.options.approve(decision);
+      } else {
+        decision.approved = false;
+        decision.reason = `${decision.reason} No approver is configured.`;
+      }
+    }
+
+    this.decisions.push(decision);
+    this.options.onDecision?.(decision);
+    await this.appendToLog(decision);
+    return decision;
+  }
+
+  /**
+   * A log which cannot be written is reported rather than failing the call,
+   * which the decision has already settled.
+   */
+  private async appendToLog(decision: PolicyDecision) {
+    if (!this.options.logPath) return;
+    try {
+      await appendFile(this.options.logPath, `${JSON.stringify(decision)}\n`);
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      console.error(
+        `[Agent Policy] Failed to write the decision log ${this.options.logPath}: ${errorMessage}`,
+      );
+    }
+  }
+}
+
+/**
+ * Whether a recorded decision lets the call run.
+ */
+export function isAllowed(decision: PolicyDecision): boolean {
+  return (
+    decision.effect === "allow" ||
+    (decision.effect === "require_approval" && decision.approved === true)
+  );
+}
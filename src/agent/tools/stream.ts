@@ -0,0 +1,139 @@
+import { randomUUID } from "node:crypto";
+import { LangGraphRunnableConfig } from "@langchain/langgraph";
+import { typedUi } from "@langchain/langgraph-sdk/react-ui/server";
+import type ComponentMap from "../ui/index";
+import type { TerminalChunk } from "../ui/terminal-output";
+import { EnvironmentAPI, ToolStreamEvent } from "../environment";
+
+/**
+ * Tools whose output is streamed into a live terminal component.
+ */
+export const STREAMING_TOOLS = ["bash_run", "github_command"];
+
+// Caps the terminal's props, since every update resends the whole buffer.
+const MAX_TERMINAL_CHARS = 20000;
+const UPDATE_INTERVAL_MS = 100;
+
+/**
+ * `configurable` key which carries the ID of the AI message making the call,
+ * which the terminal is attached to.
+ */
+export const TOOL_MESSAGE_ID_KEY = "tool_message_id";
+
+function trimChunks(chunks: TerminalChunk[]): TerminalChunk[] {
+  let total = 0;
+  for (let i = chunks.length - 1; i >= 0; i--) {
+    total += chunks[i].data.length;
+    if (total > MAX_TERMINAL_CHARS) {
+      return [
+        { stream: "stderr", data: "...[Earlier output truncated]\n" },
+        ...chunks.slice(i + 1),
+      ];
+    }
+  }
+  return chunks;
+}
+
+/**
+ * Replays a completed call's output as stream events.
+ */
+async function* completedToolEvents(
+  environmentApi: EnvironmentAPI,
+  toolName: string,
+  input: unknown,
+): AsyncGenerator<ToolStreamEvent> {
+  const result = await environmentApi.executeTool(toolName, input);
+  const output = (result ?? {}) as Record<string, unknown>;
+  for (const stream of ["stdout", "stderr"] as const) {
+    if (typeof output[stream] === "string" && output[stream]) {
+      yield { type: stream, data: output[stream] as string };
+    }
+  }
+  yield { type: "result", result };
+}
+
+/**
+ * Executes a tool through `executeToolStream`, rendering its stdout and stderr
+ * in a `terminal-output` component as they arrive. Intermediate updates are
+ * sent as custom events only; the final output is persisted to the `ui` state.
+ *
+ * Environments which cannot stream still get a terminal, rendered once the
+ * call completes. Outside of a LangGraph run this is a plain `executeTool`.
+ */
+export async function executeToolWithLiveOutput(
+  environmentApi: EnvironmentAPI,
+  toolName: string,
+  input: Record<string, unknown>,
+  config?: LangGraphRunnableConfig & { toolCall?: { id?: string } },
+): Promise<unknown> {
+  const runId = config?.metadata?.run_id ?? config?.runId;
+  if (!config || !runId) {
+    return environmentApi.executeTool(toolName, input);
+  }
+
+  const ui = typedUi<typeof ComponentMap>(config);
+  const toolCallId = config.toolCall?.id ?? randomUUID();
+  const id = `terminal-output-${toolCallId}`;
+  const messageId: string | undefined =
+    config.configurable?.[TOOL_MESSAGE_ID_KEY];
+  const message = messageId ? { id: messageId } : undefined;
+  const chunks: TerminalChunk[] = [];
+  let lastUpdate = 0;
+
+  const props = (
+    status: "running" | "completed" | "failed",
+    exitCode?: number,
+  ) => ({
+    toolCallId,
+    command: String(input.command ?? ""),
+    chunks: trimChunks(chunks),
+    status,
+    exitCode,
+  });
+
+  try {
+    const events = environmentApi.executeToolStream
+      ? environmentApi.executeToolStream(toolName, input)
+      : completedToolEvents(environmentApi, toolName, input);
+    for await (const event of events) {
+      if (event.type === "result") {
+        const exitCode = (event.result as { exit_code?: number } | undefined)
+          ?.exit_code;
+        ui.push(
+          {
+            id,
+            name: "terminal-output",
+            props: props("completed", exitCode),
+          },
+          { message },
+        );
+        return event.result;
+      }
+
+      chunks.push({ stream: event.type, data: event.data });
+      if (Date.now() - lastUpdate >= UPDATE_INTERVAL_MS) {
+        lastUpdate = Date.now();
+        config.writer?.({
+          type: "ui",
+          id,
+          name: "terminal-output",
+          props: props("running"),
+          metadata: {
+            ...config.metadata,
+            run_id: runId,
+            ...(message && { message_id: message.id }),
+          },
+        });
+      }
+    }
+  } catch (error) {
+    ui.push(
+      { id, name: "terminal-output", props: props("failed") },
+      { message },
+    );
+    throw error;
+  }
+
+  ui.push({ id, name: "terminal-output", props: props("failed") }, { message });
+  throw new Error(`Streamed ${toolName} call ended without a result.`);
+}
@@ -0,0 +1,62 @@
+import { LangGraphRunnableConfig } from "@langchain/langgraph";
+import type { UIMessage } from "@langchain/langgraph-sdk/react-ui";
+import { createInterruptUi } from "../interrupt";
+import type { TodoTask } from "../ui/todo-list";
+
+/**
+ * The user's reviewed plan, sent as the resume value of the interrupt.
+ */
+export interface TodoApprovalResponse {
+  tasks: TodoTask[];
+}
+
+/**
+ * The value passed to `interrupt`. Carries a UI message so the client can
+ * render the editable plan while the run is paused.
+ */
+export interface TodoApprovalInterrupt {
+  type: "todo_approval";
+  tasks: TodoTask[];
+  ui: UIMessage;
+}
+
+export function createTodoApprovalInterrupt(
+  id: string,
+  tasks: TodoTask[],
+  config: LangGraphRunnableConfig,
+): TodoApprovalInterrupt {
+  return {
+    type: "todo_approval",
+    tasks,
+    ui: createInterruptUi(config, {
+      id,
+      name: "todo-approval",
+      props: { tasks },
+    }),
+  };
+}
+
+/**
+ * Formats the approved plan as the text of the human message which resumes
+ * the conversation, so the agent follows the user's version.
+ */
+export function formatApprovedPlan(
+  proposed: TodoTask[],
+  approved: TodoTask[],
+): string {
+  const unchanged =
+    proposed.length === approved.length &&
+    proposed.every(
+      (task, i) =>
+        task.id === approved[i].id && task.title === approved[i].title,
+    );
+  const plan = approved
+    .map(
+      (task, i) => `${i + 1}. [${task.status}] ${task.title} (id: ${task.id})`,
+    )
+    .join("\n");
+
+  return unchanged
+    ? `I approved your plan as proposed:\n${plan}`
+    : `I approved your plan with changes. Follow this version, in this order, and use it for your next todo update:\n${plan}`;
+}
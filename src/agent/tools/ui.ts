@@ -0,0 +1,197 @@
+import { randomUUID } from "node:crypto";
+import { LangGraphRunnableConfig } from "@langchain/langgraph";
+import { typedUi } from "@langchain/langgraph-sdk/react-ui/server";
+import { BudgetUsage, getActiveMs, RunBudget } from "../budget";
+import type ComponentMap from "../ui/index";
+import type { PreviewImage } from "../ui/image-preview";
+import type { TodoTask } from "../ui/todo-list";
+import type { WebSearchResult } from "../ui/web-search-results";
+
+// The status and todo list describe the whole run, so each is a single
+// component which is updated in place.
+const STATUS_UI_ID = "scout-status";
+const TODO_LIST_UI_ID = "scout-todo-list";
+const BUDGET_UI_ID = "scout-budget";
+
+function asRecord(value: unknown): Record<string, any> {
+  return value && typeof value === "object"
+    ? (value as Record<string, any>)
+    : {};
+}
+
+/**
+ * Reads search results from the runtime's response, which is either an array
+ * or an object with a `results` array.
+ */
+function getSearchResults(result: unknown): WebSearchResult[] {
+  const items = Array.isArray(result) ? result : asRecord(result).results;
+  if (!Array.isArray(items)) return [];
+  return items.flatMap((item) => {
+    const { title, url, link, snippet, description, content } = asRecord(item);
+    const href = url ?? link;
+    if (typeof href !== "string") return [];
+    return [
+      {
+        title: String(title ?? href),
+        url: href,
+        snippet: snippet ?? description ?? content,
+      },
+    ];
+  });
+}
+
+/**
+ * Collects image URLs from an image tool's response. Paths inside the VM are
+ * not reachable from the browser, so only http(s) and data URLs are kept.
+ */
+function getImages(result: unknown): PreviewImage[] {
+  const record = asRecord(result);
+  const candidates: unknown[] = [
+    record.url,
+    record.image_url,
+    ...(Array.isArray(record.urls) ? record.urls : []),
+    ...(Array.isArray(record.images) ? record.images : []),
+    ...(Array.isArray(record.results) ? record.results : []),
+    ...(Array.isArray(result) ? result : []),
+  ];
+  return candidates.flatMap((candidate) => {
+    const item = asRecord(candidate);
+    const url =
+      typeof candidate === "string"
+        ? candidate
+        : (item.url ?? item.image_url ?? item.thumbnail);
+    if (typeof url !== "string" || !/^(https?:|data:image\/)/.test(url)) {
+      return [];
+    }
+    return [{ url, alt: item.title ?? item.alt }];
+  });
+}
+
+/**
+ * Whether UI messages can be pushed. Pushing needs the run ID, which offline
+ * invocations such as tests and fixture replays do not have.
+ */
+export function canPushUi(config: LangGraphRunnableConfig): boolean {
+  return !!(config.metadata?.run_id ?? config.runId);
+}
+
+/**
+ * Pushes the status pill and todo checklist for the run's current state.
+ */
+export function pushScoutStateUi(
+  config: LangGraphRunnableConfig,
+  state: {
+    current_ui_status?: { message: string; status: string; emoji: string };
+    current_todo_list?: Array<object>;
+  },
+) {
+  if (!canPushUi(config)) return;
+  const ui = typedUi<typeof ComponentMap>(config);
+
+  if (state.current_ui_status) {
+    ui.push({
+      id: STATUS_UI_ID,
+      name: "status-pill",
+      props: state.current_ui_status,
+    });
+  }
+  if (state.current_todo_list) {
+    ui.push({
+      id: TODO_LIST_UI_ID,
+      name: "todo-list",
+      props: { tasks: state.current_todo_list as TodoTask[] },
+    });
+  }
+}
+
+/**
+ * Pushes the budget meter with the run's usage so far.
+ */
+export function pushScoutBudgetUi(
+  config: LangGraphRunnableConfig,
+  usage: BudgetUsage,
+  budget: RunBudget,
+) {
+  if (!canPushUi(config)) return;
+  typedUi<typeof ComponentMap>(config).push({
+    id: BUDGET_UI_ID,
+    name: "budget-meter",
+    props: { usage, budget, elapsedMs: getActiveMs(usage) },
+  });
+}
+
+/**
+ * Pushes the generative UI component for a completed Scout tool call. Tools
+ * without a dedicated component are left to the generic tool call table.
+ * `bash_run` renders its own terminal as it runs. Components are attached to
+ * `message`, the AI message which made the call.
+ */
+export function pushScoutToolUi(
+  config: LangGraphRunnableConfig,
+  toolName: string,
+  input: Record<string, any>,
+  result: Record<string, any>,
+  message?: { id?: string },
+) {
+  if (!canPushUi(config)) return;
+  const ui = typedUi<typeof ComponentMap>(config);
+  const options = message?.id ? { message } : undefined;
+  const error = typeof result.error === "string" ? result.error : undefined;
+
+  switch (toolName) {
+    case "edit":
+      ui.push(
+        {
+          id: randomUUID(),
+          name: "edit-diff",
+          props: { filePath: input.file_path, edits: input.edits, error },
+        },
+        options,
+      );
+      break;
+    case "web_search":
+      ui.push(
+        {
+          id: randomUUID(),
+          name: "web-search-results",
+          props: { query: input.query, results: getSearchResults(result) },
+        },
+        options,
+      );
+      break;
+    case "image_generate":
+    case "image_edit":
+      ui.push(
+        {
+          id: randomUUID(),
+          name: "image-preview",
+          props: {
+            title:
+              toolName === "image_generate"
+                ? "Generated image"
+                : "Edited image",
+            prompt: input.prompt,
+            path: input.path ?? input.outputPath,
+            images: getImages(result),
+          },
+        },
+        options,
+      );
+      break;
+    case "image_search":
+      ui.push(
+        {
+          id: randomUUID(),
+          name: "image-preview",
+          props: {
+            title: `Image search: ${input.query}`,
+            images: getImages(result),
+          },
+        },
+        options,
+      );
+      break;
+    default:
+      break;
+  }
+}
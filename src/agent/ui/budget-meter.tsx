@@ -0,0 +1,105 @@
+"use client";
+
+import "./styles.css";
+import { Gauge } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { BudgetLimit, BudgetUsage, RunBudget } from "../budget";
+
+interface BudgetMeterProps {
+  usage: BudgetUsage;
+  budget: RunBudget;
+  /**
+   * Run time when the meter was last updated.
+   */
+  elapsedMs: number;
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+export function BudgetMeter(props: BudgetMeterProps) {
+  const { usage, budget, elapsedMs } = props;
+  const tokens = usage.input_tokens + usage.output_tokens;
+
+  const rows: Array<{
+    limit: BudgetLimit;
+    label: string;
+    used: number;
+    format: (value: number) => string;
+  }> = [
+    {
+      limit: "maxIterations",
+      label: "Iterations",
+      used: usage.iterations,
+      format: String,
+    },
+    {
+      limit: "maxWallClockMs",
+      label: "Time",
+      used: elapsedMs,
+      format: formatDuration,
+    },
+    {
+      limit: "maxTokens",
+      label: "Tokens",
+      used: tokens,
+      format: (value) => value.toLocaleString(),
+    },
+    {
+      limit: "maxCostUsd",
+      label: "Cost",
+      used: usage.cost_usd,
+      format: (value) => `$${value.toFixed(2)}`,
+    },
+    {
+      limit: "maxScreenshots",
+      label: "Screenshots",
+      used: usage.screenshots,
+      format: String,
+    },
+  ];
+
+  return (
+    <div className="flex flex-col gap-2 items-start justify-start w-full min-w-[320px] max-w-[360px] p-3 border rounded-md bg-gray-50 sm:max-w-[536px] sm:min-w-[500px]">
+      <div className="flex items-center gap-2">
+        <Gauge className="w-4 h-4" />
+        <p className="text-sm font-medium">Run budget</p>
+      </div>
+      <div className="flex flex-col gap-1.5 w-full">
+        {rows
+          .filter(({ limit }) => budget[limit] > 0)
+          .map(({ limit, label, used, format }) => {
+            const ratio = Math.min(1, used / budget[limit]);
+            return (
+              <div key={limit} className="flex items-center gap-2 text-xs">
+                <span className="w-20 text-gray-600">{label}</span>
+                <div className="flex-1 h-1.5 rounded-full bg-gray-200 overflow-hidden">
+                  <div
+                    className={cn(
+                      "h-full rounded-full",
+                      usage.exceeded === limit
+                        ? "bg-red-500"
+                        : ratio >= 0.8
+                          ? "bg-yellow-500"
+                          : "bg-green-500",
+                    )}
+                    style={{ width: `${ratio * 100}%` }}
+                  />
+                </div>
+                <span
+                  className={cn(
+                    "w-28 text-right text-gray-600",
+                    usage.exceeded === limit && "text-red-600 font-medium",
+                  )}
+                >
+                  {format(used)} / {format(budget[limit])}
+                </span>
+              </div>
+            );
+          })}
+      </div>
+    </div>
+  );
+}
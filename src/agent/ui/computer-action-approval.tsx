@@ -0,0 +1,176 @@
+"use client";
+
+import "./styles.css";
+import { useState } from "react";
+import { ShieldAlert } from "lucide-react";
+import { useStreamContext } from "@langchain/langgraph-sdk/react-ui";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { describeAction } from "@/components/thread/replay/frames";
+import type {
+  ComputerAction,
+  ComputerActionApprovalDecision,
+} from "../approval";
+
+interface ComputerActionApprovalProps {
+  toolCallId: string;
+  callId: string;
+  action: ComputerAction;
+  reasons: string[];
+  /**
+   * The human's decision. Undefined while the run is waiting for one.
+   */
+  response?: ComputerActionApprovalDecision;
+}
+
+function DecisionSummary({
+  response,
+}: {
+  response: ComputerActionApprovalDecision;
+}) {
+  switch (response.decision) {
+    case "approve":
+      return <p className="text-sm text-green-600">Approved</p>;
+    case "edit":
+      return (
+        <p className="text-sm text-blue-600">
+          Edited to: {describeAction(response.action)}
+        </p>
+      );
+    case "reject":
+      return (
+        <p className="text-sm text-red-600">
+          Rejected{response.reason ? `: ${response.reason}` : ""}
+        </p>
+      );
+  }
+}
+
+export function ComputerActionApproval(props: ComputerActionApprovalProps) {
+  const { toolCallId, action, reasons, response } = props;
+  const stream = useStreamContext();
+  const [mode, setMode] = useState<"idle" | "edit" | "reject">("idle");
+  const [editedAction, setEditedAction] = useState(
+    JSON.stringify(action, null, 2),
+  );
+  const [editError, setEditError] = useState<string>();
+  const [rejectReason, setRejectReason] = useState("");
+
+  const resume = (decision: ComputerActionApprovalDecision) => {
+    stream.submit(null, { command: { resume: decision } });
+  };
+
+  const handleEdit = () => {
+    try {
+      const parsed = JSON.parse(editedAction);
+      if (!parsed || typeof parsed.type !== "string") {
+        setEditError("The action must be an object with a `type`.");
+        return;
+      }
+      resume({ decision: "edit", action: parsed });
+    } catch (e: any) {
+      setEditError(e.message);
+    }
+  };
+
+  const isPending = !response && !!stream.interrupt;
+
+  return (
+    <div className="flex flex-col gap-2 items-start justify-start w-full min-w-[320px] max-w-[360px] border rounded-md bg-yellow-50 border-yellow-200 sm:max-w-[536px] sm:min-w-[500px]">
+      <div className="flex items-center gap-2 w-full px-3 py-2 border-b-[1px] border-yellow-200">
+        <ShieldAlert className="w-4 h-4 text-yellow-600" />
+        <p className="text-sm font-medium">Approval Required</p>
+        <p className="text-xs font-light text-gray-500 truncate">
+          {toolCallId}
+        </p>
+      </div>
+      <div className="flex flex-col gap-2 w-full px-3 pb-3">
+        <p className="text-sm">{describeAction(action)}</p>
+        <ul className="list-disc pl-5 text-xs text-gray-600">
+          {reasons.map((reason) => (
+            <li key={reason}>{reason}</li>
+          ))}
+        </ul>
+
+        {response && <DecisionSummary response={response} />}
+
+        {isPending && mode === "edit" && (
+          <div className="flex flex-col gap-2">
+            <Textarea
+              value={editedAction}
+              onChange={(e) => {
+                setEditedAction(e.target.value);
+                setEditError(undefined);
+              }}
+              className="font-mono text-xs bg-white"
+            />
+            {editError && <p className="text-xs text-red-600">{editError}</p>}
+          </div>
+        )}
+
+        {isPending && mode === "reject" && (
+          <Input
+            value={rejectReason}
+            onChange={(e) => setRejectReason(e.target.value)}
+            placeholder="Why should this action not run? (optional)"
+            className="bg-white"
+          />
+        )}
+
+        {isPending && (
+          <div className="flex items-center justify-end gap-2">
+            {mode === "idle" ? (
+              <>
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  onClick={() => setMode("reject")}
+                >
+                  Reject
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setMode("edit")}
+                >
+                  Edit
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={() => resume({ decision: "approve" })}
+                >
+                  Approve
+                </Button>
+              </>
+            ) : (
+              <>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setMode("idle")}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  variant={mode === "reject" ? "destructive" : "default"}
+                  size="sm"
+                  onClick={() =>
+                    mode === "reject"
+                      ? resume({
+                          decision: "reject",
+                          reason: rejectReason.trim() || undefined,
+                        })
+                      : handleEdit()
+                  }
+                >
+                  {mode === "reject" ? "Confirm reject" : "Run edited action"}
+                </Button>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
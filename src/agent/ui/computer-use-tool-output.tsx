@@ -1,20 +1,28 @@
 "use client";
 
 import "./styles.css";
+import type { ResponseComputerToolCall } from "openai/resources/responses/responses";
 import { ChevronDown, ChevronUp } from "lucide-react";
 import { useState } from "react";
+import { ActionOverlay } from "@/components/thread/replay/action-overlay";
 
 interface ComputerUseToolOutputProps {
   toolCallId: string;
   /**
-   * The base64 encoded screenshot of the computer
+   * The action which was taken before this screenshot, drawn on top of it.
+   */
+  action?: ResponseComputerToolCall["action"];
+  /**
+   * URL of the screenshot of the computer, as returned by the configured
+   * screenshot store, or a base64 data URL
    */
   screenshot: string;
 }
 
 export function ComputerUseToolOutput(props: ComputerUseToolOutputProps) {
-  const { screenshot, toolCallId } = props;
+  const { screenshot, toolCallId, action } = props;
   const [isExpanded, setIsExpanded] = useState(false);
+  const [isShowingOverlay, setIsShowingOverlay] = useState(true);
 
   return (
     <div className="flex flex-col gap-2 items-start justify-start w-full min-w-[320px] max-w-[360px] p-3 border rounded-md bg-gray-50 sm:max-w-[536px] sm:min-w-[500px]">
@@ -67,13 +75,24 @@ export function ComputerUseToolOutput(props: ComputerUseToolOutputProps) {
       {/* Screenshot container */}
       {isExpanded && (
         <div className="w-full mt-2 border border-gray-200 rounded overflow-hidden lg:max-w-[536px]">
-          <img
-            src={screenshot}
-            alt="Computer screenshot"
-            className="w-full h-auto lg:h-[384px] lg:max-w-[536px]"
-          />
+          <div className="relative">
+            <img
+              src={screenshot}
+              alt="Computer screenshot"
+              className="w-full h-auto lg:h-[384px] lg:max-w-[536px]"
+            />
+            {isShowingOverlay && <ActionOverlay action={action} />}
+          </div>
         </div>
       )}
+      {isExpanded && action && (
+        <button
+          onClick={() => setIsShowingOverlay(!isShowingOverlay)}
+          className="text-xs text-blue-500 hover:text-blue-700 transition-colors"
+        >
+          {isShowingOverlay ? "Hide" : "Show"} action overlay
+        </button>
+      )}
     </div>
   );
 }
@@ -0,0 +1,105 @@
+"use client";
+
+import "./styles.css";
+import { FileDiff } from "lucide-react";
+
+interface EditOperation {
+  old_string: string;
+  new_string: string;
+  replace_all?: boolean;
+}
+
+interface EditDiffProps {
+  filePath: string;
+  edits: EditOperation[];
+  /**
+   * Set when the runtime rejected the edit, e.g. because `old_string` did not match.
+   */
+  error?: string;
+}
+
+type DiffLine = { type: "context" | "added" | "removed"; text: string };
+
+/**
+ * Line diff based on the longest common subsequence. Edits are small
+ * snippets, so the quadratic table is fine.
+ */
+function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+  const lcs = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0),
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: "context", text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: "removed", text: a[i++] });
+    } else {
+      lines.push({ type: "added", text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: "removed", text: a[i++] });
+  while (j < b.length) lines.push({ type: "added", text: b[j++] });
+  return lines;
+}
+
+const LINE_STYLES: Record<DiffLine["type"], string> = {
+  context: "text-gray-600",
+  added: "bg-green-50 text-green-800",
+  removed: "bg-red-50 text-red-800",
+};
+
+const LINE_PREFIXES: Record<DiffLine["type"], string> = {
+  context: " ",
+  added: "+",
+  removed: "-",
+};
+
+export function EditDiff(props: EditDiffProps) {
+  const { filePath, edits, error } = props;
+
+  return (
+    <div className="flex flex-col gap-2 items-start justify-start w-full min-w-[320px] max-w-[360px] p-3 border rounded-md bg-gray-50 sm:max-w-[536px] sm:min-w-[500px]">
+      <div className="flex items-center gap-2 min-w-0 w-full">
+        <FileDiff className="w-4 h-4 shrink-0" />
+        <p className="text-sm font-medium truncate">{filePath}</p>
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      {edits.map((edit, index) => (
+        <div
+          key={index}
+          className="w-full overflow-x-auto rounded border bg-white font-mono text-xs"
+        >
+          {edit.replace_all && (
+            <p className="px-2 py-1 border-b text-gray-500">
+              All occurrences replaced
+            </p>
+          )}
+          {diffLines(edit.old_string, edit.new_string).map((line, i) => (
+            <pre
+              key={i}
+              className={`px-2 whitespace-pre-wrap ${LINE_STYLES[line.type]}`}
+            >
+              {LINE_PREFIXES[line.type]} {line.text}
+            </pre>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+"use client";
+
+import "./styles.css";
+import { useState } from "react";
+import { ChevronDown, ChevronUp } from "lucide-react";
+
+interface HandoffDividerProps {
+  reason: string;
+  sections: Array<{ title: string; content: string }>;
+}
+
+export function HandoffDivider(props: HandoffDividerProps) {
+  const { reason, sections } = props;
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  return (
+    <div className="flex flex-col gap-2 w-full">
+      <div className="flex items-center gap-3 w-full">
+        <div className="h-px flex-1 bg-gray-300" />
+        <button
+          onClick={() => setIsExpanded((e) => !e)}
+          className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700 transition-colors"
+        >
+          <span>Context handed off: {reason}</span>
+          {isExpanded ? (
+            <ChevronUp className="w-3 h-3" />
+          ) : (
+            <ChevronDown className="w-3 h-3" />
+          )}
+        </button>
+        <div className="h-px flex-1 bg-gray-300" />
+      </div>
+      {isExpanded && (
+        <dl className="flex flex-col gap-2 p-3 border rounded-md bg-gray-50 text-sm">
+          {sections.map(({ title, content }) => (
+            <div key={title}>
+              <dt className="font-medium">{title}</dt>
+              <dd className="text-gray-600 whitespace-pre-wrap">{content}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+"use client";
+
+import "./styles.css";
+import { ImageIcon } from "lucide-react";
+
+export interface PreviewImage {
+  url: string;
+  alt?: string;
+}
+
+interface ImagePreviewProps {
+  title: string;
+  prompt?: string;
+  /**
+   * Path of the image inside the VM, shown when the runtime returned no URL.
+   */
+  path?: string;
+  images: PreviewImage[];
+}
+
+export function ImagePreview(props: ImagePreviewProps) {
+  const { title, prompt, path, images } = props;
+
+  return (
+    <div className="flex flex-col gap-2 items-start justify-start w-full min-w-[320px] max-w-[360px] p-3 border rounded-md bg-gray-50 sm:max-w-[536px] sm:min-w-[500px]">
+      <div className="flex items-center gap-2 min-w-0 w-full">
+        <ImageIcon className="w-4 h-4 shrink-0" />
+        <p className="text-sm font-medium">{title}</p>
+        {path && (
+          <p className="text-xs font-light text-gray-500 truncate">{path}</p>
+        )}
+      </div>
+      {prompt && <p className="text-xs text-gray-600">{prompt}</p>}
+      {images.length > 0 && (
+        <div
+          className={
+            images.length > 1 ? "grid grid-cols-2 gap-2 w-full" : "w-full"
+          }
+        >
+          {images.map((image) => (
+            <a
+              key={image.url}
+              href={image.url}
+              target="_blank"
+              rel="noopener noreferrer"
+            >
+              <img
+                src={image.url}
+                alt={image.alt ?? prompt ?? title}
+                className="w-full h-auto border border-gray-200 rounded"
+              />
+            </a>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
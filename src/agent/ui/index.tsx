@@ -2,11 +2,37 @@ import { ComputerUseToolCall } from "./computer-use-tool-call";
 import { ComputerUseToolOutput } from "./computer-use-tool-output";
 import { RenderVMButton } from "./render-vm-button";
 import { InstanceFrame } from "./instance";
+import { ComputerActionApproval } from "./computer-action-approval";
+import { TerminalOutput } from "./terminal-output";
+import { TodoList } from "./todo-list";
+import { StatusPill } from "./status-pill";
+import { EditDiff } from "./edit-diff";
+import { WebSearchResults } from "./web-search-results";
+import { ImagePreview } from "./image-preview";
+import { MessageAsk } from "./message-ask";
+import { TodoApproval } from "./todo-approval";
+import { HandoffDivider } from "./handoff-divider";
+import { ReadAgentSteps } from "./read-agent-steps";
+import { BudgetMeter } from "./budget-meter";
+import { PolicyApproval } from "./policy-approval";
 
 const ComponentMap = {
   "computer-use-tool-output": ComputerUseToolOutput,
   "computer-use-tool-call": ComputerUseToolCall,
   "render-vm-button": RenderVMButton,
   instance: InstanceFrame,
+  "computer-action-approval": ComputerActionApproval,
+  "terminal-output": TerminalOutput,
+  "todo-list": TodoList,
+  "status-pill": StatusPill,
+  "edit-diff": EditDiff,
+  "web-search-results": WebSearchResults,
+  "image-preview": ImagePreview,
+  "message-ask": MessageAsk,
+  "todo-approval": TodoApproval,
+  "handoff-divider": HandoffDivider,
+  "read-agent-steps": ReadAgentSteps,
+  "budget-meter": BudgetMeter,
+  "policy-approval": PolicyApproval,
 } as const;
 export default ComponentMap;
@@ -1,5 +1,5 @@
 "use client";
-import { useEffect, useRef } from "react";
+import { useEffect } from "react";
 import { cn } from "@/lib/utils";
 import { LoaderCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
@@ -25,22 +25,25 @@ export function InstanceFrame({ streamUrl, instanceId }: InstanceFrameProps) {
     handlePause,
     handleResume,
     handleExpand,
+    handleTakeControl,
+    handleHandBack,
+    isInControl,
+    isRequestingControl,
+    isHandingBack,
     isStopping,
-    setIsStopped,
     isStopped,
     setStatus,
     status,
+    uptimeSeconds,
+    remainingSeconds,
     setScreenshot,
     screenshot,
     setIsScreenshotHovered,
     isScreenshotHovered,
-    setIsLoading,
     isLoading,
     isExpanded,
   } = useInstanceActions({ instanceId });
 
-  const isCheckingStatus = useRef(false);
-
   useEffect(() => {
     if (
       typeof window === "undefined" ||
@@ -62,40 +65,10 @@ export function InstanceFrame({ streamUrl, instanceId }: InstanceFrameProps) {
       }
     };
 
-    const checkStatus = async () => {
-      try {
-        const response = await fetch(`/api/instance/status`, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({ instanceId }),
-        });
-        const data = await response.json();
-        if (["terminated", "paused", "running"].includes(data.status)) {
-          setStatus(data.status);
-        }
-
-        if (data.status === "terminated") {
-          setIsStopped(true);
-        }
-
-        if (["paused", "terminated"].includes(data.status)) {
-          findAndSetScreenshot();
-        }
-      } catch (error) {
-        console.error("Failed to check instance status:", error);
-      }
-    };
-
-    if (status === "unknown" && !isCheckingStatus.current) {
-      isCheckingStatus.current = true;
-      checkStatus().finally(() => setIsLoading(false));
-    }
-
+    // The status itself comes from the hook's subscription to the status
+    // stream.
     if (["paused", "terminated"].includes(status)) {
       findAndSetScreenshot();
-      setIsLoading(false);
     }
   }, [instanceId, status, stream.messages, isShowingInstanceFrame]);
 
@@ -119,6 +92,9 @@ export function InstanceFrame({ streamUrl, instanceId }: InstanceFrameProps) {
         isStopped={isStopped}
         allDisabled={false}
         isExpanded={isExpanded}
+        status={status}
+        uptimeSeconds={uptimeSeconds}
+        remainingSeconds={remainingSeconds}
       >
         <div className="w-[630px] h-[420px] lg:w-[830px] lg:h-[620px] flex items-center justify-center p-4 my-auto">
           <LoaderCircle className="w-8 h-8 animate-spin" />
@@ -137,6 +113,9 @@ export function InstanceFrame({ streamUrl, instanceId }: InstanceFrameProps) {
         isStopped={isStopped}
         allDisabled={true}
         isExpanded={isExpanded}
+        status={status}
+        uptimeSeconds={uptimeSeconds}
+        remainingSeconds={remainingSeconds}
       >
         <img
           src={screenshot}
@@ -147,7 +126,8 @@ export function InstanceFrame({ streamUrl, instanceId }: InstanceFrameProps) {
           <div className="bg-card/90 p-6 rounded-lg shadow-lg text-center max-w-xs">
             <h3 className="text-lg font-semibold mb-2">Instance Terminated</h3>
             <p className="text-muted-foreground text-sm mb-4">
-              All progress has been lost.
+              Progress since the last snapshot has been lost. Snapshots can be
+              restored from Instances.
             </p>
             <Button
               onClick={() => {
@@ -176,6 +156,9 @@ export function InstanceFrame({ streamUrl, instanceId }: InstanceFrameProps) {
         isStopped={isStopped}
         allDisabled={true}
         isExpanded={isExpanded}
+        status={status}
+        uptimeSeconds={uptimeSeconds}
+        remainingSeconds={remainingSeconds}
       >
         <div
           onMouseEnter={() => setIsScreenshotHovered(true)}
@@ -213,12 +196,30 @@ export function InstanceFrame({ streamUrl, instanceId }: InstanceFrameProps) {
       isStopped={isStopped}
       allDisabled={false}
       isExpanded={isExpanded}
+      status={status}
+      uptimeSeconds={uptimeSeconds}
+      remainingSeconds={remainingSeconds}
+      takeover={{
+        onTakeControl: handleTakeControl,
+        onHandBack: handleHandBack,
+        isInControl,
+        isRequestingControl,
+        isHandingBack,
+      }}
     >
       {isStopping && <div className="absolute inset-0 bg-black/20 z-10" />}
+      {/* Input is locked while the agent runs. Taking control unlocks it. */}
+      {stream.isLoading && !isInControl && (
+        <div
+          className="absolute inset-0 z-10 cursor-not-allowed"
+          title="The agent is using this computer. Take control to use it yourself."
+        />
+      )}
       <iframe
         src={streamUrl}
         className={cn(
           "w-full h-full",
+          isInControl && "ring-2 ring-inset ring-primary",
           isExpanded ? "aspect-[4/3]" : "min-h-[400px] md:min-h-[632px]",
         )}
         title="Instance Frame"
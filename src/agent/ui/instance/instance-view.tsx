@@ -1,7 +1,41 @@
 import { cn } from "@/lib/utils";
-import { ReactNode } from "react";
+import { ComponentProps, ReactNode } from "react";
 import { WindowManagerButtons } from "./window-manager-buttons";
 
+function formatDuration(seconds: number) {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (hours) return `${hours}h ${minutes}m`;
+  return minutes ? `${minutes}m ${seconds % 60}s` : `${seconds}s`;
+}
+
+function InstanceUptime({
+  status,
+  uptimeSeconds,
+  remainingSeconds,
+}: {
+  status?: string;
+  uptimeSeconds?: number | null;
+  remainingSeconds?: number | null;
+}) {
+  if (!status || status === "unknown") return null;
+  return (
+    <div className="ml-auto flex items-center gap-2 text-xs text-muted-foreground">
+      <span className="capitalize">{status}</span>
+      {uptimeSeconds != null && <span>up {formatDuration(uptimeSeconds)}</span>}
+      {remainingSeconds != null && (
+        <span
+          className={cn(
+            remainingSeconds < 60 && "text-destructive font-medium",
+          )}
+        >
+          {formatDuration(remainingSeconds)} left
+        </span>
+      )}
+    </div>
+  );
+}
+
 export function InstanceView({
   children,
   handleStop,
@@ -11,6 +45,10 @@ export function InstanceView({
   allDisabled,
   handleExpand,
   isExpanded,
+  status,
+  uptimeSeconds,
+  remainingSeconds,
+  takeover,
 }: {
   children: ReactNode;
   handleStop: () => void;
@@ -20,6 +58,17 @@ export function InstanceView({
   allDisabled: boolean;
   handleExpand: () => void;
   isExpanded?: boolean;
+  status?: string;
+  uptimeSeconds?: number | null;
+  remainingSeconds?: number | null;
+  takeover?: Pick<
+    ComponentProps<typeof WindowManagerButtons>,
+    | "onTakeControl"
+    | "onHandBack"
+    | "isInControl"
+    | "isRequestingControl"
+    | "isHandingBack"
+  >;
 }) {
   return (
     <div
@@ -45,6 +94,12 @@ export function InstanceView({
             isStopping={isStopping}
             isStopped={isStopped}
             allDisabled={allDisabled}
+            {...takeover}
+          />
+          <InstanceUptime
+            status={status}
+            uptimeSeconds={uptimeSeconds}
+            remainingSeconds={remainingSeconds}
           />
         </div>
         <div className="relative w-full">{children}</div>
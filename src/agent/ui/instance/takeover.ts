@@ -0,0 +1,98 @@
+import type { Message } from "@langchain/langgraph-sdk";
+import { v4 as uuidv4 } from "uuid";
+
+/**
+ * What is known of a take-over once control is handed back. VNC input is
+ * not observable from the page, so the human's actions are recorded as
+ * the time they had control, their own note and the screen they left.
+ */
+export interface TakeoverRecord {
+  startedAt: Date;
+  endedAt: Date;
+  note: string;
+}
+
+function formatDuration(ms: number) {
+  const seconds = Math.round(ms / 1000);
+  const minutes = Math.floor(seconds / 60);
+  return minutes ? `${minutes}m ${seconds % 60}s` : `${seconds}s`;
+}
+
+/**
+ * Tells the agent what happened while the human had control.
+ */
+export function formatTakeoverSummary(record: TakeoverRecord): string {
+  return [
+    `I took control of the computer for ${formatDuration(
+      record.endedAt.getTime() - record.startedAt.getTime(),
+    )} and have handed it back.`,
+    record.note.trim() && `What I did: ${record.note.trim()}`,
+    "The screen may have changed since your last action, so check the latest screenshot before you continue the task.",
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+/**
+ * Returns the call ID of the last computer call without an output, i.e. the
+ * action the run was interrupted before taking.
+ */
+export function findPendingComputerCallId(
+  messages: Message[],
+): string | undefined {
+  const index = messages.findLastIndex((m) => m.type === "ai");
+  const message = messages[index];
+  if (message?.type !== "ai") return undefined;
+  const toolOutputs = message.additional_kwargs?.tool_outputs as
+    | { type: string; call_id: string }[]
+    | undefined;
+  const callId = toolOutputs
+    ?.filter((output) => output.type === "computer_call")
+    .at(-1)?.call_id;
+  const hasOutput = messages
+    .slice(index + 1)
+    .some((m) => m.type === "tool" && m.tool_call_id === callId);
+  return callId && !hasOutput ? callId : undefined;
+}
+
+/**
+ * Builds the messages which start a new run after a take-over of an idle
+ * agent. A computer call left without an output, e.g. by a cancelled run,
+ * gets the fresh screenshot as its output, since the model rejects calls
+ * without one. Otherwise the screenshot is attached to the summary.
+ *
+ * @param screenshot - URL of the screen at hand back. The model node
+ * downloads it again, since the URL may only be reachable from this
+ * deployment.
+ */
+export function buildHandBackMessages(
+  messages: Message[],
+  record: TakeoverRecord,
+  screenshot: string,
+): Message[] {
+  const summary = formatTakeoverSummary(record);
+
+  const pendingCallId = findPendingComputerCallId(messages);
+  if (pendingCallId) {
+    return [
+      {
+        id: uuidv4(),
+        type: "tool",
+        tool_call_id: pendingCallId,
+        additional_kwargs: { type: "computer_call_output" },
+        content: screenshot,
+      },
+      { id: uuidv4(), type: "human", content: summary },
+    ];
+  }
+  return [
+    {
+      id: uuidv4(),
+      type: "human",
+      content: [
+        { type: "text", text: summary },
+        { type: "image_url", image_url: { url: screenshot } },
+      ],
+    },
+  ];
+}
@@ -1,18 +1,169 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { toast } from "sonner";
+import type { Message } from "@langchain/langgraph-sdk";
 import { useStreamContext } from "@langchain/langgraph-sdk/react-ui";
+import { INSTANCE_TIMEOUT_HOURS, TAKEOVER_NAMESPACE } from "@/lib/constants";
+import { getItem, USER_ID_KEY } from "@/lib/local-storage";
+import type { TakeoverInterrupt, TakeoverResponse } from "../../takeover";
+import { buildHandBackMessages, formatTakeoverSummary } from "./takeover";
+
+type InstanceStatus = "running" | "terminated" | "paused" | "unknown";
+
+// Failed polls in a row after which the status stream is closed.
+const MAX_STATUS_FAILURES = 3;
+
+/**
+ * Data of the events sent by `/api/instance/status/stream`.
+ */
+interface InstanceStatusEvent {
+  status: string;
+  uptimeSeconds: number | null;
+  remainingSeconds: number | null;
+}
+
+/**
+ * Responses of the `/api/instance/*` routes called from the frame.
+ */
+interface InstanceActionResponses {
+  stop: { success: boolean };
+  pause: { success: boolean };
+  resume: { success: boolean };
+  /**
+   * URL of the screenshot in the screenshot store.
+   */
+  screenshot: { screenshot: string };
+}
+
+/**
+ * Calls one of the `/api/instance/*` routes, which act on the configured VM
+ * provider. They only act on the user's own instances.
+ */
+async function postInstanceAction<A extends keyof InstanceActionResponses>(
+  action: A,
+  instanceId: string,
+): Promise<InstanceActionResponses[A]> {
+  const response = await fetch(`/api/instance/${action}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ instanceId, userId: getItem(USER_ID_KEY) }),
+  });
+  if (!response.ok) {
+    const { error } = await response.json().catch(() => ({}));
+    throw new Error(error ?? `Failed to ${action} instance`);
+  }
+  return response.json();
+}
+
+/**
+ * Updates the graph state to remove the instanceId and streamUrl, so that if
+ * the graph is re-invoked, it will be forced to create a new instance instead
+ * of attempting to use the terminated instance.
+ */
+function forgetInstance(stream: ReturnType<typeof useStreamContext>) {
+  stream.submit(null, {
+    command: {
+      update: {
+        instanceId: null,
+        streamUrl: null,
+      },
+      goto: "__end__",
+    },
+  });
+}
 
 export function useInstanceActions({ instanceId }: { instanceId: string }) {
   const stream = useStreamContext();
   const [isStopping, setIsStopping] = useState(false);
   const [isStopped, setIsStopped] = useState(false);
-  const [status, setStatus] = useState<
-    "running" | "terminated" | "paused" | "unknown"
-  >("unknown");
+  const [status, setStatus] = useState<InstanceStatus>("unknown");
+  const [uptimeSeconds, setUptimeSeconds] = useState<number | null>(null);
+  const [remainingSeconds, setRemainingSeconds] = useState<number | null>(null);
   const [screenshot, setScreenshot] = useState<string>();
   const [isScreenshotHovered, setIsScreenshotHovered] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [isExpanded, setIsExpanded] = useState(false);
+  // Set once the human asks for control of the VM. A running agent hands it
+  // over when it pauses before its next action.
+  const [controlStartedAt, setControlStartedAt] = useState<Date>();
+  const [isHandingBack, setIsHandingBack] = useState(false);
+  // Read by the status stream's listener, which outlives renders.
+  const statusRef = useRef(status);
+  statusRef.current = status;
+
+  const streamRef = useRef(stream);
+  streamRef.current = stream;
+
+  useEffect(() => {
+    if (typeof window === "undefined" || !instanceId) return;
+
+    const params = new URLSearchParams({
+      instanceId,
+      userId: getItem(USER_ID_KEY) ?? "",
+      timeoutHours: String(INSTANCE_TIMEOUT_HOURS),
+    });
+    const source = new EventSource(`/api/instance/status/stream?${params}`);
+    let lastRemainingSeconds: number | null = null;
+    let failures = 0;
+
+    source.addEventListener("status", (e) => {
+      const event: InstanceStatusEvent = JSON.parse(e.data);
+      failures = 0;
+      setUptimeSeconds(event.uptimeSeconds);
+      setRemainingSeconds(event.remainingSeconds);
+      // Terminated instances have no remaining time, so the last one tells
+      // whether the timeout stopped it.
+      const timedOut =
+        lastRemainingSeconds !== null && lastRemainingSeconds < 60;
+      lastRemainingSeconds = event.remainingSeconds;
+      if (!["running", "paused", "terminated"].includes(event.status)) {
+        return;
+      }
+
+      const previousStatus = statusRef.current;
+      setStatus(event.status as InstanceStatus);
+      setIsLoading(false);
+      if (event.status !== "terminated") return;
+
+      source.close();
+      setIsStopped(true);
+      // Stops made from this window already updated the state.
+      if (previousStatus === "running" || previousStatus === "paused") {
+        forgetInstance(streamRef.current);
+        toast.warning("Instance stopped", {
+          description: timedOut
+            ? "It reached its timeout."
+            : "It was stopped outside this thread.",
+          richColors: true,
+          closeButton: true,
+          duration: 5000,
+        });
+      }
+    });
+    source.addEventListener("failure", (e) => {
+      setIsLoading(false);
+      // The route keeps polling a provider which is down, so the user is
+      // told once, and the stream is given up after a few failures in a row.
+      failures++;
+      if (failures === 1) {
+        toast.error("Failed to get instance status", {
+          description: JSON.parse((e as MessageEvent).data).error,
+          richColors: true,
+          closeButton: true,
+          duration: 5000,
+        });
+      }
+      if (failures >= MAX_STATUS_FAILURES) source.close();
+    });
+    source.onerror = () => {
+      // Closed when the route rejected the request. Otherwise the browser
+      // reconnects by itself.
+      if (source.readyState === EventSource.CLOSED) setIsLoading(false);
+    };
+
+    return () => source.close();
+  }, [instanceId]);
 
   const handleStop = async () => {
     if (!instanceId) {
@@ -32,25 +183,8 @@ export function useInstanceActions({ instanceId }: { instanceId: string }) {
         closeButton: true,
         duration: 10000,
       });
-      await fetch("/api/instance/stop", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ instanceId }),
-      });
-      // Update the graph state to remove the instanceId and streamUrl, so that if
-      // the graph is re-invoked, it will be forced to create a new instance instead of
-      // attempting to use the terminated instance.
-      stream.submit(null, {
-        command: {
-          update: {
-            instanceId: null,
-            streamUrl: null,
-          },
-          goto: "__end__",
-        },
-      });
+      await postInstanceAction("stop", instanceId);
+      forgetInstance(stream);
       setIsStopped(true);
       toast.dismiss(loadingToastId);
       toast.success("Instance stopped successfully", {
@@ -92,13 +226,7 @@ export function useInstanceActions({ instanceId }: { instanceId: string }) {
         closeButton: true,
         duration: 10000,
       });
-      await fetch("/api/instance/pause", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ instanceId }),
-      });
+      await postInstanceAction("pause", instanceId);
       setStatus("paused");
       toast.dismiss(loadingToastId);
       toast.success("Instance paused successfully", {
@@ -138,13 +266,7 @@ export function useInstanceActions({ instanceId }: { instanceId: string }) {
         closeButton: true,
         duration: 10000,
       });
-      await fetch("/api/instance/resume", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ instanceId }),
-      });
+      await postInstanceAction("resume", instanceId);
       setStatus("running");
       setScreenshot(undefined);
       toast.dismiss(loadingToastId);
@@ -166,6 +288,98 @@ export function useInstanceActions({ instanceId }: { instanceId: string }) {
     }
   };
 
+  const handleTakeControl = async () => {
+    try {
+      if (stream.isLoading) {
+        await stream.client.store.putItem(TAKEOVER_NAMESPACE, instanceId, {
+          requestedAt: new Date().toISOString(),
+        });
+      }
+      setControlStartedAt(new Date());
+      toast.info(stream.isLoading ? "Pausing the agent" : "You have control", {
+        description: stream.isLoading
+          ? "You get control once it finishes its current step."
+          : "The agent waits until you hand control back.",
+        richColors: true,
+        closeButton: true,
+        duration: 5000,
+      });
+    } catch (e) {
+      console.error(e);
+      toast.error("Failed to take control", {
+        richColors: true,
+        closeButton: true,
+        duration: 5000,
+      });
+    }
+  };
+
+  const handleHandBack = async (note: string) => {
+    if (!controlStartedAt) return;
+    const record = { startedAt: controlStartedAt, endedAt: new Date(), note };
+
+    const interrupt = stream.interrupt?.value as TakeoverInterrupt | undefined;
+    if (interrupt?.type === "takeover") {
+      // The paused run continues from a fresh screenshot.
+      const response: TakeoverResponse = {
+        summary: formatTakeoverSummary(record),
+      };
+      stream.submit(null, { command: { resume: response } });
+      setControlStartedAt(undefined);
+      return;
+    }
+
+    let loadingToastId: string | number | undefined;
+    try {
+      setIsHandingBack(true);
+      loadingToastId = toast.loading("Handing back control...", {
+        richColors: true,
+        closeButton: true,
+        duration: 10000,
+      });
+      // The run may have ended before pausing, which leaves the request behind.
+      await stream.client.store
+        .deleteItem(TAKEOVER_NAMESPACE, instanceId)
+        .catch(() => undefined);
+      const { screenshot } = await postInstanceAction("screenshot", instanceId);
+      const messages = buildHandBackMessages(
+        stream.messages,
+        record,
+        screenshot,
+      );
+      stream.submit(
+        { messages },
+        {
+          streamMode: ["values"],
+          config: {
+            recursion_limit: 150,
+            configurable: {
+              timeoutHours: INSTANCE_TIMEOUT_HOURS,
+            },
+          },
+          optimisticValues: (prev) => ({
+            ...prev,
+            messages: [...((prev.messages as Message[]) ?? []), ...messages],
+          }),
+        },
+      );
+      setControlStartedAt(undefined);
+      toast.dismiss(loadingToastId);
+    } catch (e) {
+      console.error(e);
+      if (loadingToastId) {
+        toast.dismiss(loadingToastId);
+      }
+      toast.error("Failed to hand back control", {
+        richColors: true,
+        closeButton: true,
+        duration: 5000,
+      });
+    } finally {
+      setIsHandingBack(false);
+    }
+  };
+
   const handleExpand = () => {
     setIsExpanded((e) => !e);
   };
@@ -175,11 +389,19 @@ export function useInstanceActions({ instanceId }: { instanceId: string }) {
     handlePause,
     handleResume,
     handleExpand,
+    handleTakeControl,
+    handleHandBack,
+    // Until the agent pauses, it keeps control.
+    isInControl: !!controlStartedAt && !stream.isLoading,
+    isRequestingControl: !!controlStartedAt && stream.isLoading,
+    isHandingBack,
     isStopping,
     setIsStopped,
     isStopped,
     setStatus,
     status,
+    uptimeSeconds,
+    remainingSeconds,
     setScreenshot,
     screenshot,
     setIsScreenshotHovered,
@@ -10,8 +10,10 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
 import { cn } from "@/lib/utils";
-import { Maximize, Minus, X } from "lucide-react";
+import { Hand, LoaderCircle, Maximize, Minus, X } from "lucide-react";
 import { useQueryState, parseAsBoolean } from "nuqs";
 import { useState } from "react";
 
@@ -85,6 +87,87 @@ function StopInstanceDialog({
   );
 }
 
+function TakeControlButton({
+  isInControl,
+  isRequestingControl,
+  isHandingBack,
+  onTakeControl,
+  onHandBack,
+}: {
+  isInControl: boolean;
+  isRequestingControl: boolean;
+  isHandingBack: boolean;
+  onTakeControl: () => void;
+  onHandBack: (note: string) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [note, setNote] = useState("");
+
+  if (isRequestingControl) {
+    return (
+      <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" disabled>
+        <LoaderCircle className="size-3 animate-spin" />
+        Pausing agent
+      </Button>
+    );
+  }
+
+  if (!isInControl) {
+    return (
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-6 px-2 text-xs"
+        onClick={onTakeControl}
+      >
+        <Hand className="size-3" />
+        Take control
+      </Button>
+    );
+  }
+
+  return (
+    <AlertDialog open={open} onOpenChange={setOpen}>
+      <AlertDialogTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-6 px-2 text-xs"
+          disabled={isHandingBack}
+        >
+          <Hand className="size-3" />
+          Hand back
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Hand Back Control</AlertDialogTitle>
+          <AlertDialogDescription>
+            The agent continues from a fresh screenshot. Tell it what you did,
+            since your clicks and keystrokes are not recorded.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <Textarea
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="e.g. I logged in and closed the cookie banner."
+        />
+        <AlertDialogFooter>
+          <AlertDialogCancel>Keep control</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={() => {
+              onHandBack(note);
+              setNote("");
+            }}
+          >
+            Hand back
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
+
 interface WindowManagerButtonsProps {
   onCancel: () => void;
   onMinimize: () => void;
@@ -92,6 +175,17 @@ interface WindowManagerButtonsProps {
   isStopping: boolean;
   isStopped: boolean;
   allDisabled: boolean;
+  /**
+   * Take-over handlers. Without them, no take control action is shown.
+   */
+  onTakeControl?: () => void;
+  onHandBack?: (note: string) => void;
+  isInControl?: boolean;
+  /**
+   * Set while a running agent has yet to pause for the take-over.
+   */
+  isRequestingControl?: boolean;
+  isHandingBack?: boolean;
 }
 
 export function WindowManagerButtons({
@@ -101,6 +195,11 @@ export function WindowManagerButtons({
   isStopping,
   isStopped,
   allDisabled,
+  onTakeControl,
+  onHandBack,
+  isInControl = false,
+  isRequestingControl = false,
+  isHandingBack = false,
 }: WindowManagerButtonsProps) {
   const [isHovered, setIsHovered] = useState(false);
   const [_isShowingInstanceFrame, setIsShowingInstanceFrame] = useQueryState(
@@ -110,7 +209,7 @@ export function WindowManagerButtons({
 
   return (
     <div
-      className="flex space-x-1.5"
+      className="flex items-center space-x-1.5"
       onMouseEnter={() => setIsHovered(true)}
       onMouseLeave={() => setIsHovered(false)}
     >
@@ -160,6 +259,15 @@ export function WindowManagerButtons({
           />
         )}
       </div>
+      {onTakeControl && onHandBack && !allDisabled && !isStopped && (
+        <TakeControlButton
+          isInControl={isInControl}
+          isRequestingControl={isRequestingControl}
+          isHandingBack={isHandingBack}
+          onTakeControl={onTakeControl}
+          onHandBack={onHandBack}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,161 @@
+"use client";
+
+import "./styles.css";
+import { useState } from "react";
+import { MessageCircleQuestion, Paperclip } from "lucide-react";
+import { useStreamContext } from "@langchain/langgraph-sdk/react-ui";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type {
+  FollowUpInput,
+  MessageAskRequest,
+  MessageAskResponse,
+} from "../tools/message-ask";
+
+interface MessageAskProps extends MessageAskRequest {
+  /**
+   * The user's answer. Undefined while the run is waiting for one.
+   */
+  response?: MessageAskResponse;
+}
+
+function InputForm({
+  questions,
+  disabled,
+  onSubmit,
+}: {
+  questions: FollowUpInput[];
+  disabled: boolean;
+  onSubmit: (answers: string[]) => void;
+}) {
+  const [answers, setAnswers] = useState<string[]>(() =>
+    questions.map(() => ""),
+  );
+  const setAnswer = (index: number, value: string) =>
+    setAnswers((prev) => prev.map((a, i) => (i === index ? value : a)));
+
+  return (
+    <form
+      className="flex flex-col gap-3 w-full"
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSubmit(answers);
+      }}
+    >
+      {questions.map((question, index) => (
+        <div key={question.question} className="flex flex-col gap-1">
+          <Label htmlFor={`message-ask-${index}`}>{question.question}</Label>
+          <Input
+            id={`message-ask-${index}`}
+            type={question.type}
+            value={answers[index]}
+            placeholder={
+              question.placeholder !== undefined
+                ? String(question.placeholder)
+                : undefined
+            }
+            onChange={(e) => setAnswer(index, e.target.value)}
+            disabled={disabled}
+            className="bg-white"
+          />
+          {!!question.suggestions?.length && !disabled && (
+            <div className="flex flex-wrap gap-1">
+              {question.suggestions.map((suggestion) => (
+                <button
+                  key={suggestion}
+                  type="button"
+                  onClick={() => setAnswer(index, suggestion)}
+                  className="px-2 py-0.5 rounded-full border text-xs text-gray-600 hover:bg-gray-100 transition-colors"
+                >
+                  {suggestion}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+      {!disabled && (
+        <div className="flex justify-end">
+          <Button type="submit" size="sm">
+            Send
+          </Button>
+        </div>
+      )}
+    </form>
+  );
+}
+
+export function MessageAsk(props: MessageAskProps) {
+  const { message, attachment, follow_ups_input, follow_ups_select, response } =
+    props;
+  const stream = useStreamContext();
+  const isPending = !response && !!stream.interrupt;
+
+  const resume = (value: MessageAskResponse) => {
+    stream.submit(null, { command: { resume: value } });
+  };
+
+  return (
+    <div className="flex flex-col gap-3 items-start justify-start w-full min-w-[320px] max-w-[360px] p-3 border rounded-md bg-gray-50 sm:max-w-[536px] sm:min-w-[500px]">
+      <div className="flex items-start gap-2">
+        <MessageCircleQuestion className="w-4 h-4 mt-0.5 shrink-0 text-blue-500" />
+        <p className="text-sm whitespace-pre-wrap">{message}</p>
+      </div>
+      {attachment && (
+        <div className="flex items-center gap-1 text-xs text-gray-500">
+          <Paperclip className="w-3 h-3" />
+          <span className="truncate">{attachment}</span>
+        </div>
+      )}
+
+      {follow_ups_select && (
+        <div className="flex flex-col gap-2 w-full">
+          {follow_ups_select.map((option) => {
+            const isSelected =
+              response?.type === "select" &&
+              response.option.title === option.title;
+            return (
+              <Button
+                key={option.title}
+                variant={isSelected ? "default" : "outline"}
+                className="justify-start"
+                disabled={!isPending && !isSelected}
+                onClick={() => isPending && resume({ type: "select", option })}
+              >
+                <span>{option.emoji}</span>
+                {option.title}
+              </Button>
+            );
+          })}
+        </div>
+      )}
+
+      {follow_ups_input &&
+        (response?.type === "input" ? (
+          <dl className="flex flex-col gap-2 w-full text-sm">
+            {response.answers.map(({ question, answer }) => (
+              <div key={question}>
+                <dt className="font-medium">{question}</dt>
+                <dd className="text-gray-600">{answer || "(no answer)"}</dd>
+              </div>
+            ))}
+          </dl>
+        ) : (
+          <InputForm
+            questions={follow_ups_input}
+            disabled={!isPending}
+            onSubmit={(answers) =>
+              resume({
+                type: "input",
+                answers: follow_ups_input.map(({ question }, i) => ({
+                  question,
+                  answer: answers[i].trim(),
+                })),
+              })
+            }
+          />
+        ))}
+    </div>
+  );
+}
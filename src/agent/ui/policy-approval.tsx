@@ -0,0 +1,98 @@
+"use client";
+
+import "./styles.css";
+import { useState } from "react";
+import { ShieldAlert } from "lucide-react";
+import { useStreamContext } from "@langchain/langgraph-sdk/react-ui";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import type {
+  PolicyApprovalRequest,
+  PolicyApprovalResponse,
+} from "../tools/policy-approval";
+
+interface PolicyApprovalProps {
+  calls: PolicyApprovalRequest[];
+  /**
+   * The user's decisions. Undefined while the run is waiting for them.
+   */
+  response?: PolicyApprovalResponse;
+}
+
+export function PolicyApproval(props: PolicyApprovalProps) {
+  const { calls, response } = props;
+  const stream = useStreamContext();
+  const [approved, setApproved] = useState<string[]>(
+    calls.map((call) => call.callId),
+  );
+  const isPending = !response && !!stream.interrupt;
+
+  const resume = (decision: PolicyApprovalResponse) =>
+    stream.submit(null, { command: { resume: decision } });
+
+  return (
+    <div className="flex flex-col gap-2 items-start justify-start w-full min-w-[320px] max-w-[360px] border rounded-md bg-yellow-50 border-yellow-200 sm:max-w-[536px] sm:min-w-[500px]">
+      <div className="flex items-center gap-2 w-full px-3 py-2 border-b-[1px] border-yellow-200">
+        <ShieldAlert className="w-4 h-4 text-yellow-600" />
+        <p className="text-sm font-medium">Approval Required</p>
+      </div>
+      <ul className="flex flex-col gap-2 w-full px-3">
+        {calls.map((call) => {
+          const isApproved = (response?.approved ?? approved).includes(
+            call.callId,
+          );
+          return (
+            <li key={call.callId} className="flex items-start gap-2">
+              <div className="flex flex-col gap-1 flex-1 min-w-0">
+                <p className="text-sm font-medium">{call.tool}</p>
+                <pre className="text-xs bg-white rounded p-2 overflow-x-auto">
+                  {JSON.stringify(call.input, null, 2)}
+                </pre>
+                <p className="text-xs text-gray-600">{call.reason}</p>
+              </div>
+              {isPending ? (
+                <Switch
+                  checked={isApproved}
+                  onCheckedChange={(checked) =>
+                    setApproved((prev) =>
+                      checked
+                        ? [...prev, call.callId]
+                        : prev.filter((id) => id !== call.callId),
+                    )
+                  }
+                  aria-label={`Approve ${call.tool}`}
+                />
+              ) : (
+                response && (
+                  <p
+                    className={
+                      isApproved
+                        ? "text-sm text-green-600"
+                        : "text-sm text-red-600"
+                    }
+                  >
+                    {isApproved ? "Approved" : "Blocked"}
+                  </p>
+                )
+              )}
+            </li>
+          );
+        })}
+      </ul>
+      {isPending && (
+        <div className="flex items-center justify-end gap-2 w-full px-3 pb-3">
+          <Button
+            variant="destructive"
+            size="sm"
+            onClick={() => resume({ approved: [] })}
+          >
+            Block all
+          </Button>
+          <Button size="sm" onClick={() => resume({ approved })}>
+            Submit
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
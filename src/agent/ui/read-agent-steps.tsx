@@ -0,0 +1,118 @@
+"use client";
+
+import "./styles.css";
+import { useState } from "react";
+import { ChevronDown, ChevronUp, LoaderCircle, ScanSearch } from "lucide-react";
+
+export interface ReadAgentStep {
+  id: string;
+  tool: string;
+  args: Record<string, unknown>;
+  status: "completed" | "failed" | "blocked";
+  /**
+   * The tool's output, trimmed for display.
+   */
+  output: string;
+}
+
+interface ReadAgentStepsProps {
+  description: string;
+  task: string;
+  steps: ReadAgentStep[];
+  status: "running" | "completed" | "budget_exhausted" | "failed";
+  summary?: string;
+  maxSteps: number;
+}
+
+const STATUS_LABELS: Record<ReadAgentStepsProps["status"], string> = {
+  running: "Running",
+  completed: "Completed",
+  budget_exhausted: "Step budget reached",
+  failed: "Failed",
+};
+
+function StepItem({ step }: { step: ReadAgentStep }) {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  return (
+    <li className="flex flex-col gap-1">
+      <button
+        onClick={() => setIsExpanded((e) => !e)}
+        className="flex items-center gap-2 text-left text-xs"
+      >
+        <span
+          className={
+            step.status === "completed" ? "text-green-600" : "text-red-600"
+          }
+        >
+          {step.status === "completed" ? "✓" : "✗"}
+        </span>
+        <span className="font-mono font-medium">{step.tool}</span>
+        <span className="text-gray-500 truncate">
+          {JSON.stringify(step.args)}
+        </span>
+      </button>
+      {isExpanded && (
+        <pre className="max-h-[240px] overflow-auto rounded bg-gray-900 p-2 text-xs text-gray-100 font-mono whitespace-pre-wrap break-all">
+          {step.output}
+        </pre>
+      )}
+    </li>
+  );
+}
+
+export function ReadAgentSteps(props: ReadAgentStepsProps) {
+  const { description, task, steps, status, summary, maxSteps } = props;
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  return (
+    <div className="flex flex-col gap-2 items-start justify-start w-full min-w-[320px] max-w-[360px] p-3 border rounded-md bg-gray-50 sm:max-w-[536px] sm:min-w-[500px]">
+      <button
+        onClick={() => setIsExpanded((e) => !e)}
+        className="flex items-center justify-between w-full gap-2"
+      >
+        <div className="flex items-center gap-2 min-w-0">
+          <ScanSearch className="w-4 h-4 shrink-0" />
+          <p className="text-sm font-medium truncate">{description}</p>
+        </div>
+        <div className="flex items-center gap-2 shrink-0 text-xs text-gray-500">
+          {status === "running" && (
+            <LoaderCircle className="w-4 h-4 animate-spin" />
+          )}
+          <span>
+            {STATUS_LABELS[status]} · {steps.length} tool calls · max {maxSteps}{" "}
+            turns
+          </span>
+          {isExpanded ? (
+            <ChevronUp className="w-4 h-4" />
+          ) : (
+            <ChevronDown className="w-4 h-4" />
+          )}
+        </div>
+      </button>
+      {isExpanded && (
+        <div className="flex flex-col gap-2 w-full">
+          <p className="text-xs text-gray-600 whitespace-pre-wrap">{task}</p>
+          {steps.length > 0 && (
+            <ul className="flex flex-col gap-1 w-full border-l-2 border-gray-200 pl-2">
+              {steps.map((step) => (
+                <StepItem key={step.id} step={step} />
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+      {summary && (
+        <p
+          className={
+            status === "failed"
+              ? "text-sm text-red-600 whitespace-pre-wrap"
+              : "text-sm whitespace-pre-wrap"
+          }
+        >
+          {summary}
+        </p>
+      )}
+    </div>
+  );
+}
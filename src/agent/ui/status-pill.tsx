@@ -0,0 +1,26 @@
+"use client";
+
+import "./styles.css";
+
+interface StatusPillProps {
+  message: string;
+  /**
+   * What the agent is doing, in the present continuous tense.
+   */
+  status: string;
+  emoji: string;
+}
+
+export function StatusPill(props: StatusPillProps) {
+  const { message, status, emoji } = props;
+
+  return (
+    <div className="flex flex-col gap-1 items-start justify-start w-full min-w-[320px] max-w-[360px] sm:max-w-[536px] sm:min-w-[500px]">
+      <div className="flex items-center gap-2 px-3 py-1 rounded-full border bg-gray-50 text-sm">
+        <span>{emoji}</span>
+        <span className="font-medium">{status}</span>
+      </div>
+      <p className="text-sm text-gray-700 px-1">{message}</p>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+"use client";
+
+import "./styles.css";
+import { LoaderCircle, SquareTerminal } from "lucide-react";
+import { useEffect, useRef } from "react";
+
+export interface TerminalChunk {
+  stream: "stdout" | "stderr";
+  data: string;
+}
+
+interface TerminalOutputProps {
+  toolCallId: string;
+  command: string;
+  /**
+   * Output received so far, in the order it was written.
+   */
+  chunks: TerminalChunk[];
+  status: "running" | "completed" | "failed";
+  exitCode?: number;
+}
+
+export function TerminalOutput(props: TerminalOutputProps) {
+  const { toolCallId, command, chunks, status, exitCode } = props;
+  const outputRef = useRef<HTMLPreElement>(null);
+
+  // Follow the output while the command is running, like a real terminal.
+  useEffect(() => {
+    if (status !== "running" || !outputRef.current) return;
+    outputRef.current.scrollTop = outputRef.current.scrollHeight;
+  }, [chunks, status]);
+
+  return (
+    <div className="flex flex-col gap-2 items-start justify-start w-full min-w-[320px] max-w-[360px] p-3 border rounded-md bg-gray-50 sm:max-w-[536px] sm:min-w-[500px]">
+      <div className="flex items-center justify-between w-full gap-2">
+        <div className="flex items-center gap-2 min-w-0">
+          <SquareTerminal className="w-4 h-4 shrink-0" />
+          <p className="text-sm font-medium">Terminal</p>
+          <p className="text-xs font-light text-gray-500 truncate">
+            {toolCallId}
+          </p>
+        </div>
+        {status === "running" ? (
+          <LoaderCircle className="w-4 h-4 animate-spin text-gray-500" />
+        ) : (
+          <p
+            className={
+              status === "completed" && !exitCode
+                ? "text-xs text-green-600"
+                : "text-xs text-red-600"
+            }
+          >
+            {exitCode !== undefined ? `exit ${exitCode}` : status}
+          </p>
+        )}
+      </div>
+      <pre
+        ref={outputRef}
+        className="w-full max-h-[320px] overflow-auto rounded bg-gray-900 p-3 text-xs text-gray-100 font-mono whitespace-pre-wrap break-all"
+      >
+        <span className="text-green-400">$ {command}</span>
+        {"\n"}
+        {chunks.map((chunk, index) => (
+          <span
+            key={index}
+            className={chunk.stream === "stderr" ? "text-red-300" : undefined}
+          >
+            {chunk.data}
+          </span>
+        ))}
+      </pre>
+    </div>
+  );
+}
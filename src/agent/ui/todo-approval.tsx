@@ -0,0 +1,166 @@
+"use client";
+
+import "./styles.css";
+import { useState } from "react";
+import { ArrowDown, ArrowUp, ClipboardCheck, Plus, Trash2 } from "lucide-react";
+import { useStreamContext } from "@langchain/langgraph-sdk/react-ui";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { TodoList, type TodoTask } from "./todo-list";
+import type { TodoApprovalResponse } from "../tools/todo-approval";
+
+interface TodoApprovalProps {
+  tasks: TodoTask[];
+  /**
+   * The approved plan. Undefined while the run is waiting for one.
+   */
+  response?: TodoApprovalResponse;
+}
+
+export function TodoApproval(props: TodoApprovalProps) {
+  const { tasks, response } = props;
+  const stream = useStreamContext();
+  const [draft, setDraft] = useState<TodoTask[]>(tasks);
+  const [newTitle, setNewTitle] = useState("");
+  const isPending = !response && !!stream.interrupt;
+
+  if (!isPending) {
+    return (
+      <div className="flex flex-col gap-1 w-full">
+        <p className="text-xs text-gray-500 px-1">
+          {response ? "Plan approved" : "Waiting for plan approval"}
+        </p>
+        <TodoList tasks={response?.tasks ?? tasks} />
+      </div>
+    );
+  }
+
+  const move = (index: number, offset: number) =>
+    setDraft((prev) => {
+      const next = [...prev];
+      const [task] = next.splice(index, 1);
+      next.splice(index + offset, 0, task);
+      return next;
+    });
+
+  const addTask = () => {
+    const title = newTitle.trim();
+    if (!title) return;
+    setDraft((prev) => [
+      ...prev,
+      { id: crypto.randomUUID(), title, status: "pending" },
+    ]);
+    setNewTitle("");
+  };
+
+  const hasEmptyTitle = draft.some((task) => !task.title.trim());
+
+  return (
+    <div className="flex flex-col gap-2 items-start justify-start w-full min-w-[320px] max-w-[360px] p-3 border rounded-md bg-yellow-50 border-yellow-200 sm:max-w-[536px] sm:min-w-[500px]">
+      <div className="flex items-center gap-2">
+        <ClipboardCheck className="w-4 h-4 text-yellow-600" />
+        <p className="text-sm font-medium">Review the plan</p>
+      </div>
+
+      <ul className="flex flex-col gap-1 w-full">
+        {draft.map((task, index) => (
+          <li key={task.id} className="flex items-center gap-1">
+            <span className="w-5 text-xs text-gray-500 text-right">
+              {index + 1}.
+            </span>
+            <Input
+              value={task.title}
+              onChange={(e) =>
+                setDraft((prev) =>
+                  prev.map((t) =>
+                    t.id === task.id ? { ...t, title: e.target.value } : t,
+                  ),
+                )
+              }
+              className="h-8 bg-white"
+              aria-label={`Task ${index + 1}`}
+            />
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => move(index, -1)}
+              disabled={index === 0}
+              aria-label="Move up"
+            >
+              <ArrowUp className="size-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => move(index, 1)}
+              disabled={index === draft.length - 1}
+              aria-label="Move down"
+            >
+              <ArrowDown className="size-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() =>
+                setDraft((prev) => prev.filter((t) => t.id !== task.id))
+              }
+              aria-label="Delete task"
+            >
+              <Trash2 className="size-4" />
+            </Button>
+          </li>
+        ))}
+      </ul>
+
+      <form
+        className="flex items-center gap-1 w-full"
+        onSubmit={(e) => {
+          e.preventDefault();
+          addTask();
+        }}
+      >
+        <Input
+          value={newTitle}
+          onChange={(e) => setNewTitle(e.target.value)}
+          placeholder="Add a task"
+          className="h-8 bg-white"
+        />
+        <Button
+          type="submit"
+          variant="outline"
+          size="icon"
+          disabled={!newTitle.trim()}
+          aria-label="Add task"
+        >
+          <Plus className="size-4" />
+        </Button>
+      </form>
+
+      <div className="flex items-center justify-end gap-2 w-full">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setDraft(tasks)}
+          disabled={draft === tasks}
+        >
+          Reset
+        </Button>
+        <Button
+          size="sm"
+          disabled={!draft.length || hasEmptyTitle}
+          onClick={() =>
+            stream.submit(null, {
+              command: {
+                resume: {
+                  tasks: draft.map((t) => ({ ...t, title: t.title.trim() })),
+                },
+              },
+            })
+          }
+        >
+          Approve plan
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+"use client";
+
+import "./styles.css";
+import { CheckCircle2, Circle, CircleDot, XCircle } from "lucide-react";
+
+export interface TodoTask {
+  id: string;
+  title: string;
+  status: "pending" | "in_progress" | "completed" | "cancelled";
+}
+
+interface TodoListProps {
+  tasks: TodoTask[];
+}
+
+function TaskIcon({ status }: { status: TodoTask["status"] }) {
+  switch (status) {
+    case "completed":
+      return <CheckCircle2 className="w-4 h-4 shrink-0 text-green-500" />;
+    case "in_progress":
+      return <CircleDot className="w-4 h-4 shrink-0 text-blue-500" />;
+    case "cancelled":
+      return <XCircle className="w-4 h-4 shrink-0 text-gray-400" />;
+    default:
+      return <Circle className="w-4 h-4 shrink-0 text-gray-400" />;
+  }
+}
+
+export function TodoList(props: TodoListProps) {
+  const { tasks } = props;
+  const completed = tasks.filter((t) => t.status === "completed").length;
+
+  return (
+    <div className="flex flex-col gap-2 items-start justify-start w-full min-w-[320px] max-w-[360px] p-3 border rounded-md bg-gray-50 sm:max-w-[536px] sm:min-w-[500px]">
+      <div className="flex items-center justify-between w-full">
+        <p className="text-sm font-medium">Tasks</p>
+        <p className="text-xs text-gray-500">
+          {completed} of {tasks.length} completed
+        </p>
+      </div>
+      <ul className="flex flex-col gap-1 w-full">
+        {tasks.map((task) => (
+          <li key={task.id} className="flex items-center gap-2 text-sm">
+            <TaskIcon status={task.status} />
+            <span
+              className={
+                task.status === "completed" || task.status === "cancelled"
+                  ? "line-through text-gray-500"
+                  : task.status === "in_progress"
+                    ? "font-medium"
+                    : undefined
+              }
+            >
+              {task.title}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+"use client";
+
+import "./styles.css";
+import { Search } from "lucide-react";
+
+export interface WebSearchResult {
+  title: string;
+  url: string;
+  snippet?: string;
+}
+
+interface WebSearchResultsProps {
+  query: string;
+  results: WebSearchResult[];
+}
+
+function getHostname(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return url;
+  }
+}
+
+export function WebSearchResults(props: WebSearchResultsProps) {
+  const { query, results } = props;
+
+  return (
+    <div className="flex flex-col gap-2 items-start justify-start w-full min-w-[320px] max-w-[360px] p-3 border rounded-md bg-gray-50 sm:max-w-[536px] sm:min-w-[500px]">
+      <div className="flex items-center gap-2 min-w-0 w-full">
+        <Search className="w-4 h-4 shrink-0" />
+        <p className="text-sm font-medium truncate">{query}</p>
+      </div>
+      {results.length ? (
+        <div className="flex flex-col gap-2 w-full">
+          {results.map((result) => (
+            <a
+              key={result.url}
+              href={result.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex flex-col gap-0.5 p-2 rounded border bg-white hover:bg-gray-100 transition-colors"
+            >
+              <p className="text-xs text-gray-500">{getHostname(result.url)}</p>
+              <p className="text-sm font-medium text-blue-600">
+                {result.title}
+              </p>
+              {result.snippet && (
+                <p className="text-xs text-gray-600 line-clamp-2">
+                  {result.snippet}
+                </p>
+              )}
+            </a>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">No results.</p>
+      )}
+    </div>
+  );
+}
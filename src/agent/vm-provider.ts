@@ -0,0 +1,881 @@
+import { execFile, spawn } from "node:child_process";
+import { randomUUID } from "node:crypto";
+import {
+  access,
+  mkdir,
+  readdir,
+  readFile,
+  rm,
+  writeFile,
+} from "node:fs/promises";
+import { join, resolve } from "node:path";
+import { promisify } from "node:util";
+import { ScrapybaraClient, ScrapybaraError } from "scrapybara";
+import type { ComputerAction } from "./approval";
+import { getScrapybaraRequest } from "./scrapybara";
+import { getXdotoolCommands } from "./xdotool";
+
+const execFileAsync = promisify(execFile);
+
+export type VmStatus =
+  | "deploying"
+  | "running"
+  | "paused"
+  | "terminated"
+  | "error";
+
+export interface VmInstance {
+  id: string;
+  status: VmStatus;
+  launchTime?: Date;
+  image?: string;
+  /**
+   * Owner of the instance, where the provider records owners.
+   */
+  userId?: string;
+}
+
+/**
+ * Saved disk state of an instance, which `restore` starts new instances from.
+ */
+export interface VmSnapshot {
+  id: string;
+  instanceId: string;
+  createdAt: Date;
+}
+
+export interface CreateVmOptions {
+  /**
+   * One of the provider's `images`. Defaults to the first.
+   */
+  image?: string;
+  /**
+   * The desktop to start when no image is given. Providers without the
+   * distinction ignore it.
+   */
+  environment?: "web" | "ubuntu" | "windows";
+  /**
+   * Hours after which the provider stops the VM, where supported.
+   */
+  timeoutHours?: number;
+  /**
+   * Owner of the instance, for providers which can list by owner.
+   */
+  userId?: string;
+}
+
+/**
+ * Manages the virtual machines the computer use agent drives, and which the
+ * `InstanceFrame` streams.
+ */
+export interface VmProvider {
+  /**
+   * Images new instances can be started from.
+   */
+  readonly images: string[];
+  /**
+   * Whether instances stop on their own after `timeoutHours`.
+   */
+  readonly hasTimeout: boolean;
+  /**
+   * Whether instances record the `userId` they were created for, so the
+   * instance routes only act on the user's own. The routes refuse providers
+   * which do not.
+   */
+  readonly recordsOwners: boolean;
+  create(options?: CreateVmOptions): Promise<VmInstance>;
+  /**
+   * Lists the provider's instances, only those of `userId` where the
+   * provider records owners.
+   */
+  list(options?: { userId?: string }): Promise<VmInstance[]>;
+  /**
+   * @throws VmNotFoundError if the provider does not know the instance.
+   */
+  get(instanceId: string): Promise<VmInstance>;
+  status(instanceId: string): Promise<VmStatus>;
+  pause(instanceId: string): Promise<void>;
+  resume(instanceId: string): Promise<void>;
+  /**
+   * Terminates the instance. Its disk state is lost.
+   */
+  stop(instanceId: string): Promise<void>;
+  /**
+   * @returns A base64 encoded PNG of the screen.
+   */
+  screenshot(instanceId: string): Promise<string>;
+  /**
+   * @returns A URL which renders the live screen in an iframe.
+   */
+  streamUrl(instanceId: string): Promise<string>;
+  /**
+   * Performs a computer use action on the screen, for `createLocalCua`.
+   */
+  computer?(instanceId: string, action: ComputerAction): Promise<void>;
+  /**
+   * Logs the instance in with a saved auth state, for the `authStateId` of
+   * `createLocalCua`.
+   */
+  authenticate?(instanceId: string, authStateId: string): Promise<void>;
+  /**
+   * Returns the provider acting with another API key, for the
+   * `scrapybaraApiKey` of a run.
+   */
+  withApiKey?(apiKey: string): VmProvider;
+  /**
+   * Saves the disk state of an instance. Only some providers support
+   * snapshots, so these three methods are optional.
+   */
+  snapshot?(instanceId: string): Promise<VmSnapshot>;
+  listSnapshots?(options?: { userId?: string }): Promise<VmSnapshot[]>;
+  /**
+   * Starts a new instance from a snapshot.
+   */
+  restore?(
+    snapshotId: string,
+    options?: { userId?: string },
+  ): Promise<VmInstance>;
+}
+
+/**
+ * Thrown when a provider is missing credentials or misconfigured.
+ */
+export class VmProviderConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "VmProviderConfigError";
+  }
+}
+
+/**
+ * Thrown when the configured provider cannot perform an operation.
+ */
+export class VmUnsupportedError extends Error {
+  constructor(operation: string) {
+    super(`The VM provider does not support ${operation}.`);
+    this.name = "VmUnsupportedError";
+  }
+}
+
+export class VmNotFoundError extends Error {
+  constructor(public instanceId: string) {
+    super(`Instance ${instanceId} was not found.`);
+    this.name = "VmNotFoundError";
+  }
+}
+
+/**
+ * VMs hosted by Scrapybara, the default provider. Scrapybara has no owners
+ * of its own, so the owner of each instance is written to a file in
+ * `ownersDir`, shared by the agent and the `/api/instance/*` routes.
+ */
+export class ScrapybaraVmProvider implements VmProvider {
+  readonly images = ["web", "ubuntu", "windows"];
+
+  readonly hasTimeout = true;
+
+  readonly recordsOwners = true;
+
+  private scrapybaraClient?: ScrapybaraClient;
+
+  // The key is checked on first use, so the agent graph, which is built with
+  // the provider, still loads without one.
+  constructor(
+    private apiKey: string | undefined,
+    private ownersDir = ".scrapybara-owners",
+  ) {}
+
+  private get client(): ScrapybaraClient {
+    if (!this.apiKey) {
+      throw new VmProviderConfigError("Scrapybara API key is missing");
+    }
+    this.scrapybaraClient ??= new ScrapybaraClient({ apiKey: this.apiKey });
+    return this.scrapybaraClient;
+  }
+
+  async create(options: CreateVmOptions = {}): Promise<VmInstance> {
+    const config = { timeoutHours: options.timeoutHours };
+    const environment = options.image ?? options.environment ?? "web";
+    const instance =
+      environment === "ubuntu"
+        ? await this.client.startUbuntu(config)
+        : environment === "windows"
+          ? await this.client.startWindows(config)
+          : await this.client.startBrowser(config);
+    if (options.userId) {
+      await mkdir(resolve(this.ownersDir), { recursive: true });
+      await writeFile(this.ownerPath(instance.id), options.userId);
+    }
+    return {
+      ...this.toVmInstance(instance),
+      image: environment,
+      userId: options.userId,
+    };
+  }
+
+  async list(options: { userId?: string } = {}): Promise<VmInstance[]> {
+    const instances = await Promise.all(
+      (await this.client.getInstances()).map(async (instance) => ({
+        ...this.toVmInstance(instance),
+        userId: await this.readOwner(instance.id),
+      })),
+    );
+    return instances.filter(
+      (instance) => !options.userId || instance.userId === options.userId,
+    );
+  }
+
+  async get(instanceId: string): Promise<VmInstance> {
+    return {
+      ...this.toVmInstance(await this.getInstance(instanceId)),
+      userId: await this.readOwner(instanceId),
+    };
+  }
+
+  async status(instanceId: string): Promise<VmStatus> {
+    return (await this.get(instanceId)).status;
+  }
+
+  async pause(instanceId: string): Promise<void> {
+    await (await this.getInstance(instanceId)).pause();
+  }
+
+  async resume(instanceId: string): Promise<void> {
+    await (await this.getInstance(instanceId)).resume();
+  }
+
+  async stop(instanceId: string): Promise<void> {
+    await (await this.getInstance(instanceId)).stop();
+  }
+
+  async screenshot(instanceId: string): Promise<string> {
+    const instance = await this.getInstance(instanceId);
+    return (await instance.screenshot()).base64Image;
+  }
+
+  async computer(instanceId: string, action: ComputerAction): Promise<void> {
+    const request = getScrapybaraRequest(action);
+    if (request) {
+      await (await this.getInstance(instanceId)).computer(request);
+    }
+  }
+
+  async streamUrl(instanceId: string): Promise<string> {
+    const instance = await this.getInstance(instanceId);
+    return (await instance.getStreamUrl()).streamUrl;
+  }
+
+  /**
+   * Only browser instances keep auth states, so others are left as they are.
+   */
+  async authenticate(instanceId: string, authStateId: string): Promise<void> {
+    const instance = await this.getInstance(instanceId);
+    if ("authenticate" in instance) {
+      await instance.authenticate({ authStateId });
+    }
+  }
+
+  withApiKey(apiKey: string): VmProvider {
+    return new ScrapybaraVmProvider(apiKey, this.ownersDir);
+  }
+
+  private ownerPath(instanceId: string): string {
+    return join(resolve(this.ownersDir), instanceId);
+  }
+
+  private async readOwner(instanceId: string): Promise<string | undefined> {
+    // Instance IDs name the files, so anything else has no owner.
+    if (!/^[\w-]+$/.test(instanceId)) return undefined;
+    try {
+      return await readFile(this.ownerPath(instanceId), "utf-8");
+    } catch (error: any) {
+      if (error?.code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+
+  private async getInstance(instanceId: string) {
+    try {
+      return await this.client.get(instanceId);
+    } catch (error) {
+      if (error instanceof ScrapybaraError && error.statusCode === 404) {
+        throw new VmNotFoundError(instanceId);
+      }
+      throw error;
+    }
+  }
+
+  private toVmInstance(instance: {
+    id: string;
+    status: string;
+    launchTime: Date;
+  }): VmInstance {
+    return {
+      id: instance.id,
+      status: instance.status as VmStatus,
+      launchTime: instance.launchTime,
+    };
+  }
+}
+
+export interface DockerVmProviderConfig {
+  /**
+   * Images running an X server on `display` and noVNC on `novncPort`, with
+   * xdotool for input and ImageMagick for screenshots. The first is the
+   * default.
+   */
+  images: string[];
+  display?: string;
+  novncPort?: number;
+  /**
+   * Host the published noVNC port is reachable on from the browser.
+   */
+  host?: string;
+}
+
+/**
+ * Label marking the containers this provider manages. Snapshots inherit it.
+ */
+const DOCKER_VM_LABEL = "open-agent.vm=local";
+const DOCKER_USER_LABEL = "open-agent.user";
+const DOCKER_SNAPSHOT_REPOSITORY = "open-agent-snapshot";
+
+const DOCKER_STATUSES: Record<string, VmStatus> = {
+  created: "deploying",
+  restarting: "deploying",
+  running: "running",
+  paused: "paused",
+  exited: "terminated",
+  dead: "terminated",
+  removing: "terminated",
+};
+
+/**
+ * Desktop VMs run as Docker containers on the local machine, streamed
+ * through noVNC. Containers run until stopped, so `timeoutHours` is ignored.
+ */
+export class DockerVmProvider implements VmProvider {
+  constructor(private config: DockerVmProviderConfig) {
+    if (!config.images.length) {
+      throw new VmProviderConfigError("Docker VM image is missing");
+    }
+  }
+
+  readonly hasTimeout = false;
+
+  readonly recordsOwners = true;
+
+  get images(): string[] {
+    return this.config.images;
+  }
+
+  async create(options: CreateVmOptions = {}): Promise<VmInstance> {
+    const { stdout } = await this.docker([
+      "run",
+      "--detach",
+      "--label",
+      DOCKER_VM_LABEL,
+      ...(options.userId
+        ? ["--label", `${DOCKER_USER_LABEL}=${options.userId}`]
+        : []),
+      "--env",
+      `DISPLAY=${this.display}`,
+      "--publish",
+      `${this.novncPort}`,
+      options.image ?? this.images[0],
+    ]);
+    return this.get(stdout.trim().slice(0, 12));
+  }
+
+  async get(instanceId: string): Promise<VmInstance> {
+    const { stdout } = await this.docker(
+      [
+        "inspect",
+        "--format",
+        `{{.State.Status}} {{.State.StartedAt}} {{.Config.Image}} {{index .Config.Labels "${DOCKER_USER_LABEL}"}}`,
+        instanceId,
+      ],
+      instanceId,
+    );
+    const [state, startedAt, image, userId] = stdout.trim().split(" ");
+    return {
+      id: instanceId,
+      status: DOCKER_STATUSES[state] ?? "error",
+      launchTime: new Date(startedAt),
+      image,
+      userId: userId || undefined,
+    };
+  }
+
+  async list(options: { userId?: string } = {}): Promise<VmInstance[]> {
+    const { stdout } = await this.docker([
+      "ps",
+      "--all",
+      "--quiet",
+      "--filter",
+      `label=${DOCKER_VM_LABEL}`,
+      ...this.userFilter(options.userId),
+    ]);
+    const ids = stdout.split("\n").filter(Boolean);
+    return Promise.all(ids.map((id) => this.get(id)));
+  }
+
+  /**
+   * Commits the container's filesystem to an image. Memory and processes
+   * are not saved, so restored instances boot afresh.
+   */
+  async snapshot(instanceId: string): Promise<VmSnapshot> {
+    const createdAt = new Date();
+    const id = `${DOCKER_SNAPSHOT_REPOSITORY}:${instanceId}-${createdAt.getTime()}`;
+    await this.docker(["commit", instanceId, id], instanceId);
+    return { id, instanceId, createdAt };
+  }
+
+  async listSnapshots(
+    options: { userId?: string } = {},
+  ): Promise<VmSnapshot[]> {
+    const { stdout } = await this.docker([
+      "images",
+      "--format",
+      "{{.Repository}}:{{.Tag}}",
+      "--filter",
+      `reference=${DOCKER_SNAPSHOT_REPOSITORY}:*`,
+      ...this.userFilter(options.userId),
+    ]);
+    return stdout
+      .split("\n")
+      .filter(Boolean)
+      .map((id) => {
+        const [instanceId, time] = id.split(":")[1].split("-");
+        return { id, instanceId, createdAt: new Date(Number(time)) };
+      });
+  }
+
+  async restore(
+    snapshotId: string,
+    options: { userId?: string } = {},
+  ): Promise<VmInstance> {
+    if (!snapshotId.startsWith(`${DOCKER_SNAPSHOT_REPOSITORY}:`)) {
+      throw new Error(`${snapshotId} is not a snapshot.`);
+    }
+    return this.create({ ...options, image: snapshotId });
+  }
+
+  async status(instanceId: string): Promise<VmStatus> {
+    try {
+      return (await this.get(instanceId)).status;
+    } catch (error) {
+      // Stopped containers are removed, so a missing one has terminated.
+      if (error instanceof VmNotFoundError) return "terminated";
+      throw error;
+    }
+  }
+
+  async pause(instanceId: string): Promise<void> {
+    await this.docker(["pause", instanceId], instanceId);
+  }
+
+  async resume(instanceId: string): Promise<void> {
+    await this.docker(["unpause", instanceId], instanceId);
+  }
+
+  async stop(instanceId: string): Promise<void> {
+    await this.docker(["rm", "--force", instanceId], instanceId);
+  }
+
+  async screenshot(instanceId: string): Promise<string> {
+    const { stdout } = await execFileAsync(
+      "docker",
+      [
+        "exec",
+        instanceId,
+        "import",
+        "-display",
+        this.display,
+        "-window",
+        "root",
+        "png:-",
+      ],
+      { encoding: "buffer", maxBuffer: 32 * 1024 * 1024 },
+    );
+    return stdout.toString("base64");
+  }
+
+  async computer(instanceId: string, action: ComputerAction): Promise<void> {
+    for (const command of getXdotoolCommands(action)) {
+      await this.docker(
+        [
+          "exec",
+          "--env",
+          `DISPLAY=${this.display}`,
+          instanceId,
+          "xdotool",
+          ...command,
+        ],
+        instanceId,
+      );
+    }
+  }
+
+  async streamUrl(instanceId: string): Promise<string> {
+    const { stdout } = await this.docker(
+      ["port", instanceId, `${this.novncPort}/tcp`],
+      instanceId,
+    );
+    // One line per address family, e.g. `0.0.0.0:49153`.
+    const port = stdout.trim().split("\n")[0].split(":").pop();
+    return `http://${this.config.host ?? "localhost"}:${port}/vnc.html?autoconnect=true&resize=scale`;
+  }
+
+  private get display(): string {
+    return this.config.display ?? ":1";
+  }
+
+  private userFilter(userId: string | undefined): string[] {
+    return userId ? ["--filter", `label=${DOCKER_USER_LABEL}=${userId}`] : [];
+  }
+
+  private get novncPort(): number {
+    return this.config.novncPort ?? 6080;
+  }
+
+  private async docker(args: string[], instanceId?: string) {
+    try {
+      return await execFileAsync("docker", args);
+    } catch (error: any) {
+      if (instanceId && /No such (container|object)/.test(error.stderr ?? "")) {
+        throw new VmNotFoundError(instanceId);
+      }
+      throw new Error(error.stderr?.trim() || error.message);
+    }
+  }
+}
+
+export interface LocalVmProviderConfig {
+  /**
+   * Directory holding the state of running desktops, shared by the agent
+   * and the `/api/instance/*` routes.
+   */
+  stateDir: string;
+  /**
+   * X display number of the first desktop. Each further desktop takes the
+   * next free one, with its VNC and noVNC ports offset by the same amount.
+   */
+  firstDisplay?: number;
+  /**
+   * Directory of the noVNC web client served by websockify.
+   */
+  novncDir?: string;
+  /**
+   * Host the noVNC port is reachable on from the browser.
+   */
+  host?: string;
+  width?: number;
+  height?: number;
+  /**
+   * Shell command started on each new desktop, e.g. a browser.
+   */
+  startupCommand?: string;
+}
+
+interface LocalDesktopState {
+  id: string;
+  userId?: string;
+  display: number;
+  novncPort: number;
+  pids: number[];
+  paused: boolean;
+  launchTime: string;
+}
+
+const FIRST_VNC_PORT = 5900;
+const FIRST_NOVNC_PORT = 6080;
+
+function isAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function exists(path: string): Promise<boolean> {
+  return access(path).then(
+    () => true,
+    () => false,
+  );
+}
+
+/**
+ * Desktops run directly on this machine: an Xvfb display, shared over VNC by
+ * x11vnc and streamed to the browser by noVNC's websockify, with input from
+ * xdotool and screenshots from ImageMagick. Desktops run until stopped, so
+ * `timeoutHours` is ignored.
+ */
+export class LocalVmProvider implements VmProvider {
+  readonly images = ["desktop"];
+
+  readonly hasTimeout = false;
+
+  readonly recordsOwners = true;
+
+  constructor(private config: LocalVmProviderConfig) {}
+
+  async create(options: CreateVmOptions = {}): Promise<VmInstance> {
+    const stateDir = resolve(this.config.stateDir);
+    await mkdir(stateDir, { recursive: true });
+    const firstDisplay = this.config.firstDisplay ?? 99;
+
+    let display = firstDisplay;
+    while (await exists(`/tmp/.X11-unix/X${display}`)) display++;
+    const offset = display - firstDisplay;
+    const vncPort = FIRST_VNC_PORT + offset;
+    const novncPort = FIRST_NOVNC_PORT + offset;
+    const env = { ...process.env, DISPLAY: `:${display}` };
+
+    const pids: number[] = [];
+    try {
+      pids.push(
+        await this.start("Xvfb", [
+          `:${display}`,
+          "-screen",
+          "0",
+          `${this.config.width ?? 1024}x${this.config.height ?? 768}x24`,
+        ]),
+      );
+      // x11vnc exits if the display is not up yet.
+      for (let i = 0; i < 50; i++) {
+        if (await exists(`/tmp/.X11-unix/X${display}`)) break;
+        await new Promise((r) => setTimeout(r, 100));
+      }
+      pids.push(
+        await this.start(
+          "x11vnc",
+          [
+            "-display",
+            `:${display}`,
+            "-rfbport",
+            String(vncPort),
+            "-forever",
+            "-shared",
+            "-nopw",
+          ],
+          env,
+        ),
+        await this.start("websockify", [
+          "--web",
+          this.config.novncDir ?? "/usr/share/novnc",
+          String(novncPort),
+          `localhost:${vncPort}`,
+        ]),
+      );
+      if (this.config.startupCommand) {
+        pids.push(
+          await this.start("sh", ["-c", this.config.startupCommand], env),
+        );
+      }
+    } catch (error) {
+      // Don't leave a half-started desktop behind.
+      for (const pid of pids) {
+        if (isAlive(pid)) process.kill(-pid, "SIGTERM");
+      }
+      throw error;
+    }
+
+    const state: LocalDesktopState = {
+      id: `local-${randomUUID().slice(0, 8)}`,
+      userId: options.userId,
+      display,
+      novncPort,
+      pids,
+      paused: false,
+      launchTime: new Date().toISOString(),
+    };
+    await writeFile(this.statePath(state.id), JSON.stringify(state));
+    return this.get(state.id);
+  }
+
+  async get(instanceId: string): Promise<VmInstance> {
+    const state = await this.readState(instanceId);
+    return {
+      id: instanceId,
+      status: !isAlive(state.pids[0])
+        ? "terminated"
+        : state.paused
+          ? "paused"
+          : "running",
+      launchTime: new Date(state.launchTime),
+      userId: state.userId,
+    };
+  }
+
+  async list(options: { userId?: string } = {}): Promise<VmInstance[]> {
+    const files = await readdir(resolve(this.config.stateDir)).catch(() => []);
+    const states = await Promise.all(
+      files
+        .filter((file) => file.endsWith(".json"))
+        .map((file) => this.readState(file.replace(/\.json$/, ""))),
+    );
+    return Promise.all(
+      states
+        .filter((state) => !options.userId || state.userId === options.userId)
+        .map((state) => this.get(state.id)),
+    );
+  }
+
+  async status(instanceId: string): Promise<VmStatus> {
+    try {
+      return (await this.get(instanceId)).status;
+    } catch (error) {
+      // Stopped desktops are forgotten, so a missing one has terminated.
+      if (error instanceof VmNotFoundError) return "terminated";
+      throw error;
+    }
+  }
+
+  async pause(instanceId: string): Promise<void> {
+    await this.signal(instanceId, "SIGSTOP", true);
+  }
+
+  async resume(instanceId: string): Promise<void> {
+    await this.signal(instanceId, "SIGCONT", false);
+  }
+
+  async stop(instanceId: string): Promise<void> {
+    const state = await this.readState(instanceId);
+    for (const pid of state.pids) {
+      // Each process leads its own group, which takes its children with it.
+      if (isAlive(pid)) process.kill(-pid, "SIGCONT");
+      if (isAlive(pid)) process.kill(-pid, "SIGTERM");
+    }
+    await rm(this.statePath(instanceId), { force: true });
+  }
+
+  async screenshot(instanceId: string): Promise<string> {
+    const { display } = await this.readState(instanceId);
+    const { stdout } = await execFileAsync(
+      "import",
+      ["-display", `:${display}`, "-window", "root", "png:-"],
+      { encoding: "buffer", maxBuffer: 32 * 1024 * 1024 },
+    );
+    return stdout.toString("base64");
+  }
+
+  async computer(instanceId: string, action: ComputerAction): Promise<void> {
+    const { display } = await this.readState(instanceId);
+    for (const command of getXdotoolCommands(action)) {
+      await execFileAsync("xdotool", command, {
+        env: { ...process.env, DISPLAY: `:${display}` },
+      });
+    }
+  }
+
+  async streamUrl(instanceId: string): Promise<string> {
+    const { novncPort } = await this.readState(instanceId);
+    return `http://${this.config.host ?? "localhost"}:${novncPort}/vnc.html?autoconnect=true&resize=scale`;
+  }
+
+  /**
+   * Starts a detached process, resolving to its PID once it has spawned and
+   * rejecting if it could not be, e.g. when the command is not installed.
+   */
+  private start(
+    command: string,
+    args: string[],
+    env: NodeJS.ProcessEnv = process.env,
+  ): Promise<number> {
+    const child = spawn(command, args, {
+      detached: true,
+      stdio: "ignore",
+      env,
+    });
+    child.unref();
+    return new Promise((resolve, reject) => {
+      child.once("spawn", () => resolve(child.pid!));
+      child.once("error", (error) =>
+        reject(
+          new VmProviderConfigError(
+            `Failed to start ${command}: ${error.message}. Is it installed?`,
+          ),
+        ),
+      );
+    });
+  }
+
+  private async signal(
+    instanceId: string,
+    signal: NodeJS.Signals,
+    paused: boolean,
+  ): Promise<void> {
+    const state = await this.readState(instanceId);
+    for (const pid of state.pids) {
+      if (isAlive(pid)) process.kill(-pid, signal);
+    }
+    await writeFile(
+      this.statePath(instanceId),
+      JSON.stringify({ ...state, paused }),
+    );
+  }
+
+  private statePath(instanceId: string): string {
+    return join(resolve(this.config.stateDir), `${instanceId}.json`);
+  }
+
+  private async readState(instanceId: string): Promise<LocalDesktopState> {
+    if (!/^local-[a-f0-9]+$/.test(instanceId)) {
+      throw new VmNotFoundError(instanceId);
+    }
+    try {
+      return JSON.parse(await readFile(this.statePath(instanceId), "utf-8"));
+    } catch (error: any) {
+      if (error?.code === "ENOENT") throw new VmNotFoundError(instanceId);
+      throw error;
+    }
+  }
+}
+
+export type VmProviderType = "scrapybara" | "docker" | "local";
+
+/**
+ * Creates the VM provider selected by `VM_PROVIDER`, defaulting to
+ * Scrapybara.
+ */
+export function createVmProvider(
+  type = process.env.VM_PROVIDER as VmProviderType | undefined,
+): VmProvider {
+  const resolvedType = type ?? "scrapybara";
+
+  switch (resolvedType) {
+    case "scrapybara":
+      return new ScrapybaraVmProvider(
+        process.env.SCRAPYBARA_API_KEY,
+        process.env.SCRAPYBARA_OWNERS_DIR,
+      );
+    case "docker":
+      return new DockerVmProvider({
+        // `DOCKER_VM_IMAGE` may list several images, separated by commas.
+        images: (process.env.DOCKER_VM_IMAGE ?? "")
+          .split(",")
+          .map((image) => image.trim())
+          .filter(Boolean),
+        display: process.env.DOCKER_VM_DISPLAY,
+        novncPort:
+          parseInt(process.env.DOCKER_VM_NOVNC_PORT || "", 10) || undefined,
+        host: process.env.DOCKER_VM_HOST,
+      });
+    case "local":
+      return new LocalVmProvider({
+        stateDir: process.env.LOCAL_VM_STATE_DIR ?? ".local-vms",
+        firstDisplay:
+          parseInt(process.env.LOCAL_VM_FIRST_DISPLAY || "", 10) || undefined,
+        novncDir: process.env.LOCAL_VM_NOVNC_DIR,
+        host: process.env.LOCAL_VM_HOST,
+        startupCommand: process.env.LOCAL_VM_STARTUP_COMMAND,
+      });
+    default:
+      throw new VmProviderConfigError(
+        `Invalid VM_PROVIDER. Must be one of 'scrapybara', 'docker' or 'local'. Received: ${resolvedType}`,
+      );
+  }
+}
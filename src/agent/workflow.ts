@@ -1,14 +1,98 @@
-import { StateGraph, END, START } from "@langchain/langgraph";
-import { BaseMessage, HumanMessage } from "@langchain/core/messages";
+import { randomUUID } from "node:crypto";
+import {
+  StateGraph,
+  END,
+  START,
+  interrupt,
+  LangGraphRunnableConfig,
+  messagesStateReducer,
+} from "@langchain/langgraph";
+import {
+  AIMessage,
+  BaseMessage,
+  HumanMessage,
+  SystemMessage,
+  ToolMessage,
+} from "@langchain/core/messages";
 import type { DynamicStructuredTool } from "@langchain/core/tools";
 import type { Runnable } from "@langchain/core/runnables";
+import {
+  typedUi,
+  uiMessageReducer,
+} from "@langchain/langgraph-sdk/react-ui/server";
+import type {
+  RemoveUIMessage,
+  UIMessage,
+} from "@langchain/langgraph-sdk/react-ui";
+import {
+  canPushUi,
+  pushScoutBudgetUi,
+  pushScoutStateUi,
+  pushScoutToolUi,
+} from "./tools/ui";
+import {
+  createMessageAskInterrupt,
+  formatMessageAskResponse,
+  MessageAskInterrupt,
+  MessageAskRequest,
+  MessageAskResponse,
+} from "./tools/message-ask";
+import {
+  createTodoApprovalInterrupt,
+  formatApprovedPlan,
+  TodoApprovalInterrupt,
+  TodoApprovalResponse,
+} from "./tools/todo-approval";
+import {
+  createPolicyApprovalInterrupt,
+  PolicyApprovalInterrupt,
+  PolicyApprovalRequest,
+  PolicyApprovalResponse,
+} from "./tools/policy-approval";
+import { POLICY_APPROVAL_KEY, ToolPolicyEngine } from "./tools/policy";
+import { TOOL_MESSAGE_ID_KEY } from "./tools/stream";
+import {
+  createHandoffMessage,
+  getHandoffSections,
+  HandoffSummary,
+} from "./tools/handoff";
+import { getToolConcurrency, runToolCalls } from "./tools/parallel";
+import {
+  ContextConfig,
+  getText,
+  getUnsummarizedMessages,
+  loadContextConfig,
+  manageContext,
+  OBSERVATION_PREFIX,
+  toTranscript,
+} from "./context";
+import {
+  addModelUsage,
+  BudgetUsage,
+  createBudgetUsage,
+  describeLimit,
+  getExceededLimit,
+  getModelPricing,
+  loadRunBudget,
+  ModelPricing,
+  recordActiveTime,
+  restartClock,
+  RunBudget,
+} from "./budget";
+import type ComponentMap from "./ui/index";
+import type { TodoTask } from "./ui/todo-list";
 
 interface AgentToolCall {
+  id?: string;
   name: string;
   args: Record<string, unknown>;
 }
 
 interface AgentOutcome {
+  /**
+   * ID of the AI message, which tool UI is attached to.
+   */
+  id?: string;
   tool_calls?: AgentToolCall[];
 }
 
@@ -18,44 +102,264 @@ interface AgentState {
   latest_screenshot?: string;
   current_ui_status?: { message: string; status: string; emoji: string };
   current_todo_list?: Array<object>;
+  /**
+   * Running summary of the tool turns before `context_summary_end_id`, which
+   * the model no longer sees. They stay in `chat_history`, so the thread
+   * still shows them.
+   */
+  context_summary?: string;
+  /**
+   * ID of the first message after the tool turns `context_summary` covers.
+   */
+  context_summary_end_id?: string;
+  /**
+   * ID of the message the model's context starts at after a handoff. The
+   * earlier messages stay in `chat_history`, so the thread still shows them.
+   */
+  context_start_id?: string;
+  /**
+   * Estimated tokens of the last model input.
+   */
+  context_tokens?: number;
+  budget_usage?: BudgetUsage;
+  /**
+   * The user's answers for the turn's calls held by `require_approval`
+   * policy rules, by call ID.
+   */
+  tool_approvals?: Record<string, boolean>;
+  ui: (UIMessage | RemoveUIMessage)[];
+}
+
+interface BudgetSettings {
+  budget: RunBudget;
+  pricing: ModelPricing;
+}
+
+function getRunId(config?: LangGraphRunnableConfig): string | undefined {
+  const runId = config?.metadata?.run_id ?? config?.runId;
+  return runId ? String(runId) : undefined;
+}
+
+/**
+ * Starts the budget usage over when the graph is invoked with new input.
+ * Resuming from an interrupt continues at the interrupted node instead, so
+ * the usage covers the resumes too, although each resume has its own run ID.
+ */
+function startRun(config?: LangGraphRunnableConfig): Partial<AgentState> {
+  return { budget_usage: createBudgetUsage(getRunId(config) ?? randomUUID()) };
+}
+
+/**
+ * The part of `chat_history` the model sees, from the last handoff on.
+ */
+function getContextHistory(state: AgentState): BaseMessage[] {
+  const start = state.context_start_id
+    ? state.chat_history.findIndex((m) => m.id === state.context_start_id)
+    : -1;
+  return start === -1 ? state.chat_history : state.chat_history.slice(start);
 }
 
 async function runAgent(
   state: AgentState,
   agent: Runnable<{ chat_history: BaseMessage[] }, AgentOutcome>,
+  contextConfig: ContextConfig,
+  settings: BudgetSettings,
+  config?: LangGraphRunnableConfig,
 ): Promise<Partial<AgentState>> {
-  const response = await agent.invoke({ chat_history: state.chat_history });
-  return { agentOutcome: response };
+  // Limits may be overridden per run through `configurable.budget`.
+  const budget: RunBudget = {
+    ...settings.budget,
+    ...config?.configurable?.budget,
+  };
+  let usage =
+    state.budget_usage ?? createBudgetUsage(getRunId(config) ?? randomUUID());
+
+  const exceeded = getExceededLimit(usage, budget);
+  if (exceeded) {
+    usage = { ...usage, exceeded };
+    if (config) pushScoutBudgetUi(config, usage, budget);
+    return { agentOutcome: {}, budget_usage: usage };
+  }
+
+  const context = await manageContext(
+    getContextHistory(state),
+    state.context_summary,
+    state.context_summary_end_id,
+    contextConfig,
+  );
+  const response = await agent.invoke({ chat_history: context.messages });
+  if (response instanceof BaseMessage) {
+    usage = addModelUsage(usage, response, context.tokens, settings.pricing);
+  }
+  if (config) pushScoutBudgetUi(config, usage, budget);
+
+  return {
+    agentOutcome: response,
+    // Tool call turns are kept too, so the tool messages which answer them
+    // have a call to refer to.
+    chat_history:
+      response instanceof BaseMessage
+        ? [...context.updates, response]
+        : context.updates,
+    context_summary: context.summary,
+    context_summary_end_id: context.summaryEndId,
+    context_tokens: context.tokens,
+    budget_usage: recordActiveTime(usage),
+  };
 }
 
-function shouldContinue(state: AgentState): "continue" | "end" {
+function shouldContinue(state: AgentState): "continue" | "stop" | "end" {
+  if (state.budget_usage?.exceeded) return "stop";
   return state.agentOutcome?.tool_calls?.length ? "continue" : "end";
 }
 
-function executeToolsFactory(tools: DynamicStructuredTool[]) {
+const FINAL_SUMMARY_PROMPT = `An autonomous agent was stopped because its run hit a budget limit. Using the conversation below, write its final message to the user: what was accomplished, what is left to do, and how the user can continue. Be brief and address the user directly.`;
+
+/**
+ * Ends a run which hit a budget with a final message to the user, written by
+ * the summarizer when there is one.
+ */
+async function stopOnBudget(
+  state: AgentState,
+  summarizer: ContextConfig["summarizer"],
+): Promise<Partial<AgentState>> {
+  const limit = state.budget_usage!.exceeded!;
+  let text = `I stopped because this run reached its ${describeLimit(limit)}.`;
+  if (summarizer) {
+    const messages = getUnsummarizedMessages(
+      getContextHistory(state),
+      state.context_summary_end_id,
+    );
+    const response = await summarizer
+      .withConfig({ tags: ["nostream"] })
+      .invoke([
+        new SystemMessage(FINAL_SUMMARY_PROMPT),
+        new HumanMessage(
+          `${state.context_summary ? `Summary of earlier steps:\n${state.context_summary}\n\n` : ""}Conversation:\n${toTranscript(messages)}`,
+        ),
+      ]);
+    text += `\n\n${getText(response)}`;
+  }
+  return { chat_history: [new AIMessage(text)] };
+}
+
+function executeToolsFactory(
+  tools: DynamicStructuredTool[],
+  concurrency: number,
+) {
   return async function executeTools(
     state: AgentState,
+    config?: LangGraphRunnableConfig,
   ): Promise<Partial<AgentState>> {
     const actions = state.agentOutcome?.tool_calls ?? [];
-    const outputs: Array<{
-      toolName: string;
-      result: Record<string, unknown>;
-      input: Record<string, unknown>;
-    }> = [];
-
-    for (const call of actions) {
-      const tool = tools.find((t) => t.name === call.name);
-      if (!tool) continue;
-      const raw = await tool.invoke(call.args);
-      let parsed: Record<string, unknown>;
-      try {
-        parsed = JSON.parse(raw as string);
-      } catch {
-        parsed = { raw } as Record<string, unknown>;
+    // Handoffs act on the workflow state only, once every other call has run.
+    const calls = actions.filter((call) => call.name !== "handoff");
+    const handoff = actions.findLast((call) => call.name === "handoff");
+
+    // Independent calls run concurrently. The outputs keep the order of the
+    // calls, so the messages and UI built from them are deterministic.
+    const outputs = await runToolCalls(
+      calls,
+      async (call) => {
+        const tool = tools.find((t) => t.name === call.name);
+        let raw: string;
+        if (handoff && waitsForUser(call)) {
+          // The handoff resets the context, so the run moves on instead of
+          // pausing. The handoff message tells the model.
+          raw = JSON.stringify({
+            error: `'${call.name}' was not run: it waits for the user and the same turn called handoff.`,
+            tool: call.name,
+            status: "SKIPPED",
+          });
+        } else if (call.name === "message_ask") {
+          // Answered by the `ask` node once every other call has run.
+          raw = JSON.stringify({
+            status: "PENDING",
+            message: "The user's answer follows in the next message.",
+          });
+        } else if (!tool) {
+          raw = JSON.stringify({
+            error: `Unknown tool '${call.name}'.`,
+            tool: call.name,
+            status: "FAILURE",
+          });
+        } else {
+          try {
+            // Forward the config so tools can stream UI updates to the client,
+            // attached to the message which made the call.
+            const approved = state.tool_approvals?.[call.id ?? ""];
+            raw = String(
+              await tool.invoke(call.args, {
+                ...config,
+                configurable: {
+                  ...config?.configurable,
+                  [TOOL_MESSAGE_ID_KEY]: state.agentOutcome?.id,
+                  ...(approved !== undefined && {
+                    [POLICY_APPROVAL_KEY]: { tool: call.name, approved },
+                  }),
+                },
+              }),
+            );
+          } catch (error: unknown) {
+            raw = JSON.stringify({
+              error: error instanceof Error ? error.message : String(error),
+              tool: call.name,
+              status: "FAILURE",
+            });
+          }
+        }
+        let parsed: Record<string, unknown>;
+        try {
+          parsed = JSON.parse(raw);
+        } catch {
+          parsed = { raw } as Record<string, unknown>;
+        }
+        return {
+          call,
+          raw,
+          toolName: call.name,
+          result: parsed,
+          input: call.args,
+        };
+      },
+      concurrency,
+    );
+
+    if (config) {
+      for (const output of outputs) {
+        if (
+          output.toolName === "message_ask" ||
+          output.result.status === "SKIPPED"
+        ) {
+          continue;
+        }
+        pushScoutToolUi(
+          config,
+          output.toolName,
+          output.input,
+          output.result,
+          state.agentOutcome,
+        );
       }
-      outputs.push({ toolName: call.name, result: parsed, input: call.args });
     }
 
+    // Every call is answered by a tool message. Screenshots follow as
+    // observations, since tool messages cannot carry images.
+    const toolMessages = outputs.map(
+      ({ call, raw, result }) =>
+        new ToolMessage({
+          tool_call_id: call.id ?? "",
+          name: call.name,
+          content:
+            call.name === "computer" && result.screenshot
+              ? JSON.stringify({
+                  ...result,
+                  screenshot: "[Attached in the next message]",
+                })
+              : raw,
+        }),
+    );
+
     const newState: Partial<AgentState> = {};
     const multimodalMessages: BaseMessage[] = [];
 
@@ -68,7 +372,7 @@ function executeToolsFactory(tools: DynamicStructuredTool[]) {
             content: [
               {
                 type: "text",
-                text: `[System Observation] Screenshot after action: ${String(
+                text: `${OBSERVATION_PREFIX} Screenshot after action: ${String(
                   output.input.action,
                 )}`,
               },
@@ -88,29 +392,301 @@ function executeToolsFactory(tools: DynamicStructuredTool[]) {
           status: String(output.input.status),
           emoji: String(output.input.status_emoji),
         };
-      } else if (output.toolName === "todo") {
+      } else if (
+        output.toolName === "todo" &&
+        output.result.status !== "SKIPPED"
+      ) {
         newState.current_todo_list = output.input.tasks as Array<object>;
       }
     }
 
-    if (multimodalMessages.length) {
-      newState.chat_history = [...state.chat_history, ...multimodalMessages];
+    if (config) {
+      pushScoutStateUi(config, newState);
+    }
+
+    if (state.budget_usage) {
+      newState.budget_usage = recordActiveTime({
+        ...state.budget_usage,
+        screenshots: state.budget_usage.screenshots + multimodalMessages.length,
+      });
+    }
+
+    if (handoff) {
+      const summary = handoff.args as unknown as HandoffSummary;
+      const handoffMessage = createHandoffMessage(
+        summary,
+        (newState.current_todo_list ?? state.current_todo_list) as
+          | TodoTask[]
+          | undefined,
+        newState.latest_screenshot ?? state.latest_screenshot,
+        calls.filter(waitsForUser).map((call) => call.name),
+      );
+      // The model's context starts over at the summary, replacing the
+      // context summary too. The history before it stays in the thread, with
+      // the UI attached to its messages.
+      newState.chat_history = [
+        ...toolMessages,
+        ...multimodalMessages,
+        handoffMessage,
+      ];
+      newState.context_start_id = handoffMessage.id;
+      newState.context_summary = "";
+      if (config && canPushUi(config)) {
+        typedUi<typeof ComponentMap>(config).push(
+          {
+            id: `handoff-${handoffMessage.id}`,
+            name: "handoff-divider",
+            props: {
+              reason: summary.reason,
+              sections: getHandoffSections(summary),
+            },
+          },
+          { message: handoffMessage },
+        );
+      }
+    } else {
+      newState.chat_history = [...toolMessages, ...multimodalMessages];
     }
 
     return newState;
   };
 }
 
+/**
+ * Whether the call pauses the run for the user, in the `ask` or
+ * `approve_plan` node.
+ */
+function waitsForUser(call: AgentToolCall): boolean {
+  return (
+    call.name === "message_ask" ||
+    (call.name === "todo" && call.args.request_user_approval === true)
+  );
+}
+
+function getMessageAsk(state: AgentState): AgentToolCall | undefined {
+  return state.agentOutcome?.tool_calls?.find(
+    (call) => call.name === "message_ask",
+  );
+}
+
+function getTodoApproval(state: AgentState): AgentToolCall | undefined {
+  return state.agentOutcome?.tool_calls?.findLast(
+    (call) => call.name === "todo" && waitsForUser(call),
+  );
+}
+
+/**
+ * Derived from the last message, so the ID is stable when a node re-runs on
+ * resume.
+ */
+function getInterruptId(prefix: string, state: AgentState): string {
+  return `${prefix}-${state.chat_history.at(-1)?.id ?? state.chat_history.length}`;
+}
+
+/**
+ * Starts the budget's clock again in a node which resumed from an interrupt,
+ * so the time the user took to answer does not count.
+ */
+function resumeBudget(state: AgentState): Partial<AgentState> {
+  return state.budget_usage
+    ? { budget_usage: restartClock(state.budget_usage) }
+    : {};
+}
+
+/**
+ * Attaches the card of an answered interrupt to the AI message which made
+ * the call, like the cards of the turn's other tools.
+ */
+function getUiOptions(state: AgentState) {
+  const message = state.agentOutcome;
+  return message?.id ? { message: { id: message.id } } : undefined;
+}
+
+/**
+ * Pauses the run until the user approves or blocks the turn's calls which a
+ * `require_approval` policy rule holds back. Runs before the tools so that
+ * resuming never repeats a call.
+ */
+async function approveToolCalls(
+  state: AgentState,
+  config: LangGraphRunnableConfig,
+  policy: ToolPolicyEngine | undefined,
+): Promise<Partial<AgentState>> {
+  const requests: PolicyApprovalRequest[] = [];
+  for (const call of state.agentOutcome?.tool_calls ?? []) {
+    const decision = policy?.evaluate(call.name, call.args);
+    if (call.id && decision?.effect === "require_approval") {
+      requests.push({
+        callId: call.id,
+        tool: call.name,
+        input: call.args,
+        reason: decision.reason,
+      });
+    }
+  }
+  if (!requests.length) return { tool_approvals: {} };
+
+  const id = getInterruptId("policy-approval", state);
+  const response = interrupt<PolicyApprovalInterrupt, PolicyApprovalResponse>(
+    createPolicyApprovalInterrupt(id, requests, config),
+  );
+
+  if (canPushUi(config)) {
+    typedUi<typeof ComponentMap>(config).push(
+      {
+        id,
+        name: "policy-approval",
+        props: { calls: requests, response },
+      },
+      getUiOptions(state),
+    );
+  }
+
+  return {
+    ...resumeBudget(state),
+    tool_approvals: Object.fromEntries(
+      requests.map(({ callId }) => [
+        callId,
+        response.approved.includes(callId),
+      ]),
+    ),
+  };
+}
+
+function afterTools(state: AgentState): "approve_plan" | "ask" | "agent" {
+  // The calls which wait for the user were skipped in a handoff turn.
+  if (state.agentOutcome?.tool_calls?.some((call) => call.name === "handoff")) {
+    return "agent";
+  }
+  if (getTodoApproval(state)) return "approve_plan";
+  return getMessageAsk(state) ? "ask" : "agent";
+}
+
+function afterPlanApproval(state: AgentState): "ask" | "agent" {
+  return getMessageAsk(state) ? "ask" : "agent";
+}
+
+/**
+ * Pauses the run until the user reviews a plan submitted with
+ * `request_user_approval`. The user's version replaces the todo list and is
+ * added to the conversation so the agent follows it.
+ */
+async function approvePlan(
+  state: AgentState,
+  config: LangGraphRunnableConfig,
+): Promise<Partial<AgentState>> {
+  const call = getTodoApproval(state);
+  if (!call) return {};
+
+  const tasks = call.args.tasks as TodoTask[];
+  const id = getInterruptId("todo-approval", state);
+  const response = interrupt<TodoApprovalInterrupt, TodoApprovalResponse>(
+    createTodoApprovalInterrupt(id, tasks, config),
+  );
+
+  if (canPushUi(config)) {
+    typedUi<typeof ComponentMap>(config).push(
+      {
+        id,
+        name: "todo-approval",
+        props: { tasks, response },
+      },
+      getUiOptions(state),
+    );
+  }
+  pushScoutStateUi(config, { current_todo_list: response.tasks });
+
+  return {
+    ...resumeBudget(state),
+    current_todo_list: response.tasks,
+    chat_history: [
+      ...state.chat_history,
+      new HumanMessage(formatApprovedPlan(tasks, response.tasks)),
+    ],
+  };
+}
+
+/**
+ * Pauses the run until the user answers a `message_ask` call, then adds their
+ * answer to the conversation. Lives in its own node so that resuming, which
+ * re-runs the node from the top, never repeats other tool calls.
+ */
+async function askUser(
+  state: AgentState,
+  config: LangGraphRunnableConfig,
+): Promise<Partial<AgentState>> {
+  const call = getMessageAsk(state);
+  if (!call) return {};
+
+  const request = call.args as unknown as MessageAskRequest;
+  const id = getInterruptId("message-ask", state);
+  const response = interrupt<MessageAskInterrupt, MessageAskResponse>(
+    createMessageAskInterrupt(id, request, config),
+  );
+
+  if (canPushUi(config)) {
+    typedUi<typeof ComponentMap>(config).push(
+      {
+        id,
+        name: "message-ask",
+        props: { ...request, response },
+      },
+      getUiOptions(state),
+    );
+  }
+
+  return {
+    ...resumeBudget(state),
+    chat_history: [
+      ...state.chat_history,
+      new HumanMessage(formatMessageAskResponse(response)),
+    ],
+  };
+}
+
+export interface ScoutWorkflowOptions {
+  /**
+   * Limits of `chat_history`. Defaults to the `AGENT_CONTEXT_*` variables.
+   */
+  context?: ContextConfig;
+  /**
+   * Maximum tool calls run at once. Defaults to `AGENT_TOOL_CONCURRENCY`.
+   */
+  toolConcurrency?: number;
+  /**
+   * Limits of each run. Defaults to the `AGENT_BUDGET_*` variables.
+   */
+  budget?: RunBudget;
+  /**
+   * Prices the run's token usage. Defaults to `gpt-5` pricing.
+   */
+  pricing?: ModelPricing;
+  /**
+   * Policy of the tools, whose `require_approval` calls the workflow asks
+   * the user about.
+   */
+  toolPolicy?: ToolPolicyEngine;
+}
+
 export function createScoutWorkflow(
   agent: Runnable<{ chat_history: BaseMessage[] }, AgentOutcome>,
   tools: DynamicStructuredTool[],
+  options: ScoutWorkflowOptions = {},
 ) {
+  const contextConfig = options.context ?? loadContextConfig();
+  const toolConcurrency = options.toolConcurrency ?? getToolConcurrency();
+  const budgetSettings: BudgetSettings = {
+    budget: options.budget ?? loadRunBudget(),
+    pricing: options.pricing ?? getModelPricing("gpt-5"),
+  };
   const builder = new StateGraph<AgentState>({
     channels: {
-      chat_history: (left: BaseMessage[], right: BaseMessage[]) => [
-        ...(left ?? []),
-        ...right,
-      ],
+      // Merges by message ID, so nodes may return either new messages or the
+      // whole history with additions.
+      chat_history: {
+        reducer: messagesStateReducer,
+        default: () => [],
+      },
       agentOutcome: (
         _left: AgentOutcome | undefined,
         right: AgentOutcome | undefined,
@@ -127,15 +703,68 @@ export function createScoutWorkflow(
         _left: Array<object> | undefined,
         right: Array<object> | undefined,
       ) => right,
+      context_summary: (_left: string | undefined, right: string | undefined) =>
+        right,
+      context_summary_end_id: (
+        _left: string | undefined,
+        right: string | undefined,
+      ) => right,
+      context_start_id: (
+        _left: string | undefined,
+        right: string | undefined,
+      ) => right,
+      context_tokens: (_left: number | undefined, right: number | undefined) =>
+        right,
+      budget_usage: (
+        _left: BudgetUsage | undefined,
+        right: BudgetUsage | undefined,
+      ) => right,
+      tool_approvals: (
+        _left: Record<string, boolean> | undefined,
+        right: Record<string, boolean> | undefined,
+      ) => right,
+      ui: {
+        reducer: uiMessageReducer,
+        default: () => [],
+      },
     },
   } as any)
-    .addNode("agent", (state: AgentState) => runAgent(state, agent))
-    .addNode("tools", executeToolsFactory(tools))
-    .addEdge(START, "agent")
+    .addNode(
+      "start_run",
+      (_state: AgentState, config: LangGraphRunnableConfig) => startRun(config),
+    )
+    .addNode("agent", (state: AgentState, config: LangGraphRunnableConfig) =>
+      runAgent(state, agent, contextConfig, budgetSettings, config),
+    )
+    .addNode(
+      "approve_tools",
+      (state: AgentState, config: LangGraphRunnableConfig) =>
+        approveToolCalls(state, config, options.toolPolicy),
+    )
+    .addNode("tools", executeToolsFactory(tools, toolConcurrency))
+    .addNode("approve_plan", approvePlan)
+    .addNode("ask", askUser)
+    .addNode("stop", (state: AgentState) =>
+      stopOnBudget(state, contextConfig.summarizer),
+    )
+    .addEdge(START, "start_run")
+    .addEdge("start_run", "agent")
     .addConditionalEdges("agent", shouldContinue, {
-      continue: "tools",
+      continue: "approve_tools",
+      stop: "stop",
       end: END,
     })
-    .addEdge("tools", "agent");
+    .addEdge("approve_tools", "tools")
+    .addEdge("stop", END)
+    .addConditionalEdges("tools", afterTools, {
+      approve_plan: "approve_plan",
+      ask: "ask",
+      agent: "agent",
+    })
+    .addConditionalEdges("approve_plan", afterPlanApproval, {
+      ask: "ask",
+      agent: "agent",
+    })
+    .addEdge("ask", "agent");
   return builder.compile();
 }
@@ -0,0 +1,105 @@
+import type { ComputerAction } from "./approval";
+
+// CUA key names which differ from X keysyms, matching the mapping
+// `@langchain/langgraph-cua` uses for Scrapybara.
+const CUA_KEY_TO_KEYSYM: Record<string, string> = {
+  "/": "slash",
+  "\\": "backslash",
+  alt: "Alt_L",
+  arrowdown: "Down",
+  arrowleft: "Left",
+  arrowright: "Right",
+  arrowup: "Up",
+  backspace: "BackSpace",
+  capslock: "Caps_Lock",
+  cmd: "Meta_L",
+  ctrl: "Control_L",
+  delete: "Delete",
+  end: "End",
+  enter: "Return",
+  esc: "Escape",
+  home: "Home",
+  insert: "Insert",
+  option: "Alt_L",
+  pagedown: "Page_Down",
+  pageup: "Page_Up",
+  shift: "Shift_L",
+  space: "space",
+  tab: "Tab",
+  win: "Meta_L",
+};
+
+const MOUSE_BUTTONS: Record<string, string> = {
+  left: "1",
+  wheel: "2",
+  right: "3",
+  back: "8",
+  forward: "9",
+};
+
+// Pixels the model expects one wheel click to scroll.
+const SCROLL_PIXELS_PER_CLICK = 100;
+
+function scrollClicks(button: string, pixels: number): string[][] {
+  const clicks = Math.round(Math.abs(pixels) / SCROLL_PIXELS_PER_CLICK);
+  return clicks ? [["click", "--repeat", String(clicks), button]] : [];
+}
+
+/**
+ * Translates a computer action into the xdotool commands which perform it,
+ * in order. Screenshots and waits need no input, so they have none.
+ */
+export function getXdotoolCommands(action: ComputerAction): string[][] {
+  const moveTo = (x: number, y: number) => [
+    "mousemove",
+    "--sync",
+    String(x),
+    String(y),
+  ];
+
+  switch (action.type) {
+    case "click":
+      return [
+        moveTo(action.x, action.y),
+        ["click", MOUSE_BUTTONS[action.button] ?? "1"],
+      ];
+    case "double_click":
+      return [moveTo(action.x, action.y), ["click", "--repeat", "2", "1"]];
+    case "drag": {
+      const [start, ...rest] = action.path;
+      if (!start) return [];
+      return [
+        moveTo(start.x, start.y),
+        ["mousedown", "1"],
+        ...rest.map(({ x, y }) => moveTo(x, y)),
+        ["mouseup", "1"],
+      ];
+    }
+    case "keypress":
+      return [
+        [
+          "key",
+          action.keys
+            .map((key) => CUA_KEY_TO_KEYSYM[key.toLowerCase()] ?? key)
+            .join("+"),
+        ],
+      ];
+    case "move":
+      return [moveTo(action.x, action.y)];
+    case "scroll":
+      return [
+        moveTo(action.x, action.y),
+        ...scrollClicks(action.scroll_y > 0 ? "5" : "4", action.scroll_y),
+        ...scrollClicks(action.scroll_x > 0 ? "7" : "6", action.scroll_x),
+      ];
+    case "type":
+      return [["type", "--delay", "12", "--", action.text]];
+    case "screenshot":
+    case "wait":
+      return [];
+    default:
+      throw new Error(
+        `Unknown computer action received: ${JSON.stringify(action, null, 2)}`,
+      );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { VmProviderConfigError } from "@/agent/vm-provider";
+import { INSTANCE_TIMEOUT_HOURS } from "@/lib/constants";
+import { handleProviderRequest } from "../handler";
+
+export async function POST(req: NextRequest) {
+  return handleProviderRequest(
+    req,
+    "create instance",
+    async (provider, { userId, image }) => {
+      // An instance without an owner could never be acted on.
+      if (!userId) {
+        return NextResponse.json(
+          { error: "`userId` is required." },
+          { status: 400 },
+        );
+      }
+      if (image && !provider.images.includes(image)) {
+        throw new VmProviderConfigError(`Unknown image '${image}'.`);
+      }
+      const instance = await provider.create({
+        userId,
+        image,
+        timeoutHours: INSTANCE_TIMEOUT_HOURS,
+      });
+      return { instance, streamUrl: await provider.streamUrl(instance.id) };
+    },
+  );
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createVmProvider,
+  VmInstance,
+  VmNotFoundError,
+  VmProvider,
+  VmProviderConfigError,
+  VmUnsupportedError,
+} from "@/agent/vm-provider";
+
+/**
+ * Handles a request to the configured VM provider: runs `action` with the
+ * JSON body and returns its result as JSON. `description` completes
+ * "Failed to ..." in error messages.
+ */
+export async function handleProviderRequest(
+  req: NextRequest,
+  description: string,
+  action: (
+    provider: VmProvider,
+    body: Record<string, any>,
+  ) => Promise<object | NextResponse>,
+) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const result = await action(createVmProvider(), body ?? {});
+    return result instanceof NextResponse
+      ? result
+      : NextResponse.json(result, { status: 200 });
+  } catch (error: any) {
+    if (error instanceof VmProviderConfigError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof VmNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    if (error instanceof VmUnsupportedError) {
+      return NextResponse.json({ error: error.message }, { status: 501 });
+    }
+    console.error(`Failed to ${description}:`, error);
+
+    return NextResponse.json(
+      { error: `Failed to ${description}.` + error.message },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * Whether `userId` owns the instance. Nobody does where the provider does
+ * not record owners.
+ */
+export function isInstanceOwner(
+  provider: VmProvider,
+  instance: VmInstance,
+  userId: string | undefined,
+): boolean {
+  return provider.recordsOwners && !!userId && instance.userId === userId;
+}
+
+/**
+ * Checks that `userId` owns the instance. Instances of other users are
+ * reported as not found, as `list` leaves them out.
+ *
+ * @throws VmUnsupportedError if the provider does not record owners.
+ * @throws VmNotFoundError if the instance is missing or not the user's.
+ */
+export async function assertInstanceOwner(
+  provider: VmProvider,
+  instanceId: string,
+  userId: string | undefined,
+): Promise<void> {
+  if (!provider.recordsOwners) throw new VmUnsupportedError("owner checks");
+  const instance = await provider.get(instanceId);
+  if (!isInstanceOwner(provider, instance, userId)) {
+    throw new VmNotFoundError(instanceId);
+  }
+}
+
+/**
+ * Handles a request acting on an existing instance, which requires the
+ * `instanceId` in the body and may only come from its owner, the `userId`
+ * of the body. `description` completes "Failed to ... instance" in error
+ * messages.
+ */
+export async function handleInstanceRequest(
+  req: NextRequest,
+  description: string,
+  action: (
+    provider: VmProvider,
+    instanceId: string,
+    body: Record<string, any>,
+  ) => Promise<object>,
+) {
+  return handleProviderRequest(
+    req,
+    `${description} instance`,
+    async (provider, body) => {
+      const { instanceId } = body as { instanceId?: string };
+      if (!instanceId) {
+        return NextResponse.json(
+          { error: "`instanceId` is required." },
+          { status: 400 },
+        );
+      }
+      await assertInstanceOwner(provider, instanceId, body.userId);
+      return action(provider, instanceId, body);
+    },
+  );
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { handleProviderRequest } from "../handler";
+
+export async function POST(req: NextRequest) {
+  return handleProviderRequest(
+    req,
+    "list instances",
+    async (provider, { userId }) => {
+      // Without one, the provider would list the instances of every user.
+      if (!userId) {
+        return NextResponse.json(
+          { error: "`userId` is required." },
+          { status: 400 },
+        );
+      }
+      return {
+        instances: await provider.list({ userId }),
+        images: provider.images,
+        snapshots: (await provider.listSnapshots?.({ userId })) ?? [],
+        canSnapshot: !!provider.snapshot,
+      };
+    },
+  );
+}
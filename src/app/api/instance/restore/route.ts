@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { VmUnsupportedError } from "@/agent/vm-provider";
+import { handleProviderRequest } from "../handler";
+
+export async function POST(req: NextRequest) {
+  return handleProviderRequest(
+    req,
+    "restore snapshot",
+    async (provider, { snapshotId, userId }) => {
+      if (!snapshotId) {
+        return NextResponse.json(
+          { error: "`snapshotId` is required." },
+          { status: 400 },
+        );
+      }
+      if (!provider.restore || !provider.listSnapshots) {
+        throw new VmUnsupportedError("snapshots");
+      }
+      // Only the user's own snapshots can be restored.
+      const snapshots = userId ? await provider.listSnapshots({ userId }) : [];
+      if (!snapshots.some((snapshot) => snapshot.id === snapshotId)) {
+        return NextResponse.json(
+          { error: `Snapshot ${snapshotId} was not found.` },
+          { status: 404 },
+        );
+      }
+      const instance = await provider.restore(snapshotId, { userId });
+      return { instance, streamUrl: await provider.streamUrl(instance.id) };
+    },
+  );
+}
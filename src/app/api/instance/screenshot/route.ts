@@ -0,0 +1,17 @@
+import { NextRequest } from "next/server";
+import { createScreenshotStore } from "@/agent/screenshot-store";
+import { handleInstanceRequest } from "../handler";
+
+export async function POST(req: NextRequest) {
+  return handleInstanceRequest(
+    req,
+    "screenshot",
+    // Stored like the agent's own screenshots, so messages carry a URL
+    // rather than the image data.
+    async (provider, instanceId) => ({
+      screenshot: await createScreenshotStore().save(
+        await provider.screenshot(instanceId),
+      ),
+    }),
+  );
+}
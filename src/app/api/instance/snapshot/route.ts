@@ -0,0 +1,14 @@
+import { NextRequest } from "next/server";
+import { VmUnsupportedError } from "@/agent/vm-provider";
+import { handleInstanceRequest } from "../handler";
+
+export async function POST(req: NextRequest) {
+  return handleInstanceRequest(
+    req,
+    "snapshot",
+    async (provider, instanceId) => {
+      if (!provider.snapshot) throw new VmUnsupportedError("snapshots");
+      return { snapshot: await provider.snapshot(instanceId) };
+    },
+  );
+}
@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createVmProvider,
+  VmInstance,
+  VmNotFoundError,
+  VmProvider,
+  VmProviderConfigError,
+} from "@/agent/vm-provider";
+import { isInstanceOwner } from "../../handler";
+
+const POLL_INTERVAL_MS = 5000;
+
+/**
+ * Data of each event on the stream.
+ */
+interface InstanceStatusEvent {
+  status: VmInstance["status"];
+  uptimeSeconds: number | null;
+  /**
+   * Seconds until the provider stops the instance on its own, or null where
+   * it never does or the timeout is unknown.
+   */
+  remainingSeconds: number | null;
+}
+
+async function getStatusEvent(
+  provider: VmProvider,
+  instanceId: string,
+  userId: string | undefined,
+  timeoutHours: number | undefined,
+): Promise<InstanceStatusEvent> {
+  let instance: VmInstance;
+  try {
+    instance = await provider.get(instanceId);
+    if (!isInstanceOwner(provider, instance, userId)) {
+      throw new VmNotFoundError(instanceId);
+    }
+  } catch (error) {
+    // Providers forget stopped instances. Those of other users are reported
+    // the same way.
+    if (error instanceof VmNotFoundError) {
+      return {
+        status: "terminated",
+        uptimeSeconds: null,
+        remainingSeconds: null,
+      };
+    }
+    throw error;
+  }
+
+  const launchTime = instance.launchTime?.getTime();
+  const uptimeSeconds =
+    launchTime && instance.status !== "terminated"
+      ? Math.max(0, Math.round((Date.now() - launchTime) / 1000))
+      : null;
+  const remainingSeconds =
+    uptimeSeconds !== null && timeoutHours && provider.hasTimeout
+      ? Math.max(0, Math.round(timeoutHours * 3600 - uptimeSeconds))
+      : null;
+  return { status: instance.status, uptimeSeconds, remainingSeconds };
+}
+
+/**
+ * Streams the status of `instanceId`, which has to belong to `userId`, as
+ * server-sent events, polling the VM provider every few seconds. Each event
+ * carries the status, the uptime and, when `timeoutHours` is given and the
+ * provider has timeouts, the time left before the provider stops the instance.
+ * Polling errors are sent as `failure` events, since `error` is reserved for
+ * connection errors in `EventSource`. The stream ends once the instance is
+ * terminated.
+ */
+export async function GET(req: NextRequest) {
+  const instanceId = req.nextUrl.searchParams.get("instanceId");
+  const userId = req.nextUrl.searchParams.get("userId") ?? undefined;
+  const timeoutHours =
+    Number(req.nextUrl.searchParams.get("timeoutHours")) || undefined;
+
+  if (!instanceId) {
+    return NextResponse.json(
+      { error: "`instanceId` is required." },
+      { status: 400 },
+    );
+  }
+
+  let provider: VmProvider;
+  try {
+    provider = createVmProvider();
+  } catch (error: any) {
+    if (error instanceof VmProviderConfigError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+
+  const encoder = new TextEncoder();
+  let cancelled = false;
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: string, data: object) => {
+        // The client may disconnect while the provider is polled.
+        if (cancelled) return;
+        controller.enqueue(
+          encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`),
+        );
+      };
+
+      while (!cancelled && !req.signal.aborted) {
+        try {
+          const event = await getStatusEvent(
+            provider,
+            instanceId,
+            userId,
+            timeoutHours,
+          );
+          send("status", event);
+          if (event.status === "terminated") break;
+        } catch (error: any) {
+          console.error("Failed to get the status of instance:", error);
+          send("failure", { error: error.message });
+        }
+        await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+      }
+      if (!cancelled) controller.close();
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+
+  return new NextResponse(stream, {
+    status: 200,
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
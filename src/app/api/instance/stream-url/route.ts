@@ -0,0 +1,12 @@
+import { NextRequest } from "next/server";
+import { handleInstanceRequest } from "../handler";
+
+export async function POST(req: NextRequest) {
+  return handleInstanceRequest(
+    req,
+    "get the stream URL of",
+    async (provider, instanceId) => ({
+      streamUrl: await provider.streamUrl(instanceId),
+    }),
+  );
+}
@@ -0,0 +1,48 @@
+import { readFile } from "node:fs/promises";
+import { join, resolve } from "node:path";
+import { NextRequest, NextResponse } from "next/server";
+
+/**
+ * Serves screenshots written by the agent's `LocalScreenshotStore`.
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ file: string }> },
+) {
+  const { file } = await params;
+
+  if (!/^[a-zA-Z0-9-]+\.png$/.test(file)) {
+    return NextResponse.json(
+      { error: "Invalid screenshot file name." },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const directory = resolve(
+      process.env.SCREENSHOT_LOCAL_DIR ?? ".screenshots",
+    );
+    const image = await readFile(join(directory, file));
+
+    return new NextResponse(image, {
+      status: 200,
+      headers: {
+        "Content-Type": "image/png",
+        "Cache-Control": "public, max-age=31536000, immutable",
+      },
+    });
+  } catch (error: any) {
+    if (error?.code === "ENOENT") {
+      return NextResponse.json(
+        { error: "Screenshot not found." },
+        { status: 404 },
+      );
+    }
+    console.error("Failed to read screenshot:", error);
+
+    return NextResponse.json(
+      { error: "Failed to read screenshot." },
+      { status: 500 },
+    );
+  }
+}
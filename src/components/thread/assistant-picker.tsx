@@ -0,0 +1,40 @@
+import { ASSISTANTS } from "@/lib/assistants";
+import { useAssistant } from "@/hooks/useAssistant";
+import { cn } from "@/lib/utils";
+
+/**
+ * Segmented control for choosing which graph new threads run on.
+ */
+export function AssistantPicker({ className }: { className?: string }) {
+  const [assistant, setAssistantId] = useAssistant();
+
+  return (
+    <div
+      role="radiogroup"
+      aria-label="Assistant"
+      className={cn(
+        "flex items-center p-1 rounded-lg bg-gray-200 shadow-inner border-[1px] border-slate-300",
+        className,
+      )}
+    >
+      {ASSISTANTS.map((option) => (
+        <button
+          key={option.id}
+          type="button"
+          role="radio"
+          aria-checked={assistant.id === option.id}
+          title={option.description}
+          onClick={() => setAssistantId(option.id)}
+          className={cn(
+            "px-4 py-1.5 rounded-md text-sm font-medium transition-colors",
+            assistant.id === option.id
+              ? "bg-white shadow-sm text-gray-900"
+              : "text-gray-600 hover:text-gray-900",
+          )}
+        >
+          {option.name}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { Button } from "@/components/ui/button";
 import { useThreads } from "@/providers/Thread";
 import { Thread } from "@langchain/langgraph-sdk";
 import { useEffect, useState } from "react";
+import { useAssistant } from "@/hooks/useAssistant";
 
 import { getContentString } from "../utils";
 import { useQueryState, parseAsBoolean } from "nuqs";
@@ -25,19 +26,18 @@ function ThreadList({
   onThreadClick?: (threadId: string) => void;
 }) {
   const [threadId, setThreadId] = useQueryState("threadId");
+  const [{ messagesKey }] = useAssistant();
 
   return (
     <div className="h-full flex flex-col w-full gap-2 items-start justify-start overflow-y-scroll [&::-webkit-scrollbar]:w-1.5 [&::-webkit-scrollbar-thumb]:rounded-full [&::-webkit-scrollbar-thumb]:bg-gray-300 [&::-webkit-scrollbar-track]:bg-transparent">
       {threads.map((t) => {
         let itemText = t.thread_id;
-        if (
-          typeof t.values === "object" &&
-          t.values &&
-          "messages" in t.values &&
-          Array.isArray(t.values.messages) &&
-          t.values.messages?.length > 0
-        ) {
-          const firstMessage = t.values.messages[0];
+        const threadMessages =
+          typeof t.values === "object" && t.values
+            ? (t.values as Record<string, unknown>)[messagesKey]
+            : undefined;
+        if (Array.isArray(threadMessages) && threadMessages.length > 0) {
+          const firstMessage = threadMessages[0];
           itemText = getContentString(firstMessage.content);
         }
         return (
@@ -90,7 +90,8 @@ export default function ThreadHistory() {
         .catch(console.error)
         .finally(() => setThreadsLoading(false));
     }
-  }, []);
+    // Refetch when the selected assistant, and so `getThreads`, changes.
+  }, [getThreads, setThreads, setThreadsLoading]);
 
   return (
     <>
@@ -6,25 +6,40 @@ import { v4 as uuidv4 } from "uuid";
 import { ReactNode, useEffect, useRef } from "react";
 import { motion } from "framer-motion";
 import { cn } from "@/lib/utils";
+import { getItem, USER_ID_KEY } from "@/lib/local-storage";
 import { useStreamContext } from "@/providers/Stream";
 import { useState, FormEvent } from "react";
 import { Button } from "../ui/button";
 import { Checkpoint, Message } from "@langchain/langgraph-sdk";
-import { AssistantMessage, AssistantMessageLoading } from "./messages/ai";
+import {
+  AssistantMessage,
+  AssistantMessageLoading,
+  CustomComponent,
+} from "./messages/ai";
 import { HumanMessage } from "./messages/human";
-import { DO_NOT_RENDER_ID_PREFIX } from "@/lib/constants";
+import {
+  DO_NOT_RENDER_ID_PREFIX,
+  INSTANCE_TIMEOUT_HOURS,
+} from "@/lib/constants";
+import { getInterruptUIMessage } from "./utils";
 import { LangGraphLogoSVG } from "../icons/langgraph";
 import { TooltipIconButton } from "./tooltip-icon-button";
 import {
   ArrowDown,
+  Film,
   LoaderCircle,
   PanelRightOpen,
   PanelRightClose,
+  Server,
   SquarePen,
 } from "lucide-react";
 import { useQueryState, parseAsBoolean } from "nuqs";
 import { StickToBottom, useStickToBottomContext } from "use-stick-to-bottom";
 import ThreadHistory from "./history";
+import ThreadReplay from "./replay";
+import ThreadInstances, { AdoptedInstance } from "./instances";
+import { AssistantPicker } from "./assistant-picker";
+import { useAssistant } from "@/hooks/useAssistant";
 import { useMediaQuery } from "@/hooks/useMediaQuery";
 import {
   experimental_loadShare,
@@ -129,6 +144,9 @@ function ChatView({
   handleRegenerate,
 }: ChatViewProps) {
   const stream = useStreamContext();
+  const interruptUi = getInterruptUIMessage(stream.interrupt);
+  // Components describing the whole run, e.g. the todo list, aren't tied to a message.
+  const runUi = stream.values.ui?.filter((ui) => !ui.metadata?.message_id);
   // Removed direct useStickToBottomContext here to avoid usage outside provider during SSR
 
   return (
@@ -156,24 +174,46 @@ function ChatView({
         )}
         content={
           <>
-            {stream.messages
-              .filter((m) => !m.id?.startsWith(DO_NOT_RENDER_ID_PREFIX))
-              .map((message, index) =>
-                message.type === "human" ? (
-                  <HumanMessage
-                    key={message.id || `${message.type}-${index}`}
-                    message={message}
-                    isLoading={stream.isLoading}
-                  />
-                ) : (
-                  <AssistantMessage
-                    key={message.id || `${message.type}-${index}`}
-                    message={message}
-                    isLoading={stream.isLoading}
-                    handleRegenerate={handleRegenerate}
-                  />
-                ),
-              )}
+            {stream.messages.map((message, index) =>
+              // Hidden messages only show the UI attached to them, such as
+              // the divider of a context handoff.
+              message.id?.startsWith(DO_NOT_RENDER_ID_PREFIX) ? (
+                <CustomComponent
+                  key={message.id}
+                  message={message}
+                  thread={stream}
+                />
+              ) : message.type === "human" ? (
+                <HumanMessage
+                  key={message.id || `${message.type}-${index}`}
+                  message={message}
+                  isLoading={stream.isLoading}
+                />
+              ) : (
+                <AssistantMessage
+                  key={message.id || `${message.type}-${index}`}
+                  message={message}
+                  isLoading={stream.isLoading}
+                  handleRegenerate={handleRegenerate}
+                />
+              ),
+            )}
+            {runUi?.map((ui) => (
+              <LoadExternalComponent
+                key={ui.id}
+                stream={stream}
+                message={ui}
+                meta={{ ui }}
+              />
+            ))}
+            {interruptUi && (
+              <LoadExternalComponent
+                key={interruptUi.id}
+                stream={stream}
+                message={interruptUi}
+                meta={{ ui: interruptUi }}
+              />
+            )}
             {stream.isLoading && !firstTokenReceived && (
               <AssistantMessageLoading />
             )}
@@ -189,6 +229,7 @@ function ChatView({
                 </h1>
               </div>
             )}
+            {!chatStarted && <AssistantPicker />}
 
             <ScrollToBottom className="absolute bottom-full left-1/2 -translate-x-1/2 mb-4 animate-in fade-in-0 zoom-in-95" />
 
@@ -250,9 +291,20 @@ export function Thread() {
     "isShowingInstanceFrame",
     parseAsBoolean,
   );
+  const [_replayOpen, setReplayOpen] = useQueryState(
+    "replayOpen",
+    parseAsBoolean.withDefault(false),
+  );
+  const [_instancesOpen, setInstancesOpen] = useQueryState(
+    "instancesOpen",
+    parseAsBoolean.withDefault(false),
+  );
+  // Instance picked before the thread exists, sent with the first message.
+  const [pendingInstance, setPendingInstance] = useState<AdoptedInstance>();
   const isLargeScreen = useMediaQuery("(min-width: 1024px)");
 
   const stream = useStreamContext();
+  const [assistant] = useAssistant();
   const messages = stream.messages;
   const isLoading = stream.isLoading;
 
@@ -312,23 +364,59 @@ export function Thread() {
     };
 
     stream.submit(
-      { messages: [newHumanMessage] },
+      { [assistant.messagesKey]: [newHumanMessage], ...pendingInstance },
       {
         streamMode: ["values"],
+        // The thread's metadata gets the user ID only once it is created,
+        // which may be after the run has started a VM for them.
+        metadata: { user_id: getItem(USER_ID_KEY) },
         config: {
           recursion_limit: 150,
           configurable: {
-            timeoutHours: 0.1,
+            timeoutHours: INSTANCE_TIMEOUT_HOURS,
           },
         },
         optimisticValues: (prev) => ({
           ...prev,
-          messages: [...(prev.messages ?? []), newHumanMessage],
+          [assistant.messagesKey]: [
+            ...(prev[assistant.messagesKey] ?? []),
+            newHumanMessage,
+          ],
         }),
       },
     );
 
     setInput("");
+    setPendingInstance(undefined);
+  };
+
+  const adoptInstance = (instance: AdoptedInstance) => {
+    if (!threadId) {
+      setPendingInstance(instance);
+      toast.success(`Instance ${instance.instanceId} will be used`, {
+        description: "It is attached to the thread with your first message.",
+        richColors: true,
+        closeButton: true,
+        duration: 5000,
+      });
+      return;
+    }
+    // Same update the stop action makes, so the next run reuses the VM
+    // instead of creating one.
+    stream.submit(null, {
+      command: {
+        update: {
+          instanceId: instance.instanceId,
+          streamUrl: instance.streamUrl,
+        },
+        goto: "__end__",
+      },
+    });
+    toast.success(`Instance ${instance.instanceId} is used in this thread`, {
+      richColors: true,
+      closeButton: true,
+      duration: 5000,
+    });
   };
 
   const handleRegenerate = (
@@ -348,6 +436,7 @@ export function Thread() {
   const newThread = () => {
     setThreadId(null);
     setIsShowingInstanceFrame(null);
+    setPendingInstance(undefined);
   };
 
   const customInstanceViewComponent = stream.values.ui?.find(
@@ -415,6 +504,17 @@ export function Thread() {
                 )}
               </Button>
             )}
+            {assistant.usesVm && (
+              <TooltipIconButton
+                size="lg"
+                className="p-4"
+                tooltip="Instances"
+                variant="ghost"
+                onClick={() => setInstancesOpen(true)}
+              >
+                <Server className="size-5" />
+              </TooltipIconButton>
+            )}
           </div>
         )}
         {chatStarted && (
@@ -454,15 +554,37 @@ export function Thread() {
               </motion.button>
             </div>
 
-            <TooltipIconButton
-              size="lg"
-              className="p-4"
-              tooltip="New thread"
-              variant="ghost"
-              onClick={() => newThread()}
-            >
-              <SquarePen className="size-5" />
-            </TooltipIconButton>
+            <div className="flex items-center gap-2">
+              {assistant.usesVm && (
+                <TooltipIconButton
+                  size="lg"
+                  className="p-4"
+                  tooltip="Instances"
+                  variant="ghost"
+                  onClick={() => setInstancesOpen(true)}
+                >
+                  <Server className="size-5" />
+                </TooltipIconButton>
+              )}
+              <TooltipIconButton
+                size="lg"
+                className="p-4"
+                tooltip="Replay run"
+                variant="ghost"
+                onClick={() => setReplayOpen(true)}
+              >
+                <Film className="size-5" />
+              </TooltipIconButton>
+              <TooltipIconButton
+                size="lg"
+                className="p-4"
+                tooltip="New thread"
+                variant="ghost"
+                onClick={() => newThread()}
+              >
+                <SquarePen className="size-5" />
+              </TooltipIconButton>
+            </div>
 
             <div className="absolute inset-x-0 top-full h-5 bg-gradient-to-b from-background to-background/0" />
           </div>
@@ -547,6 +669,8 @@ export function Thread() {
             </div>
           )}
         </div>
+        {chatStarted && <ThreadReplay />}
+        {assistant.usesVm && <ThreadInstances onAdopt={adoptInstance} />}
         {chatStarted && isShowingInstance && (
           <div className={cn("overflow-hidden lg:hidden mx-auto my-auto")}>
             <LoadExternalComponent
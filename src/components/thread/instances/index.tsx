@@ -0,0 +1,330 @@
+"use client";
+import { FormEvent, useCallback, useEffect, useState } from "react";
+import { useQueryState, parseAsBoolean } from "nuqs";
+import { toast } from "sonner";
+import { Camera, LoaderCircle, Plus, RotateCcw, Square } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { getItem, USER_ID_KEY } from "@/lib/local-storage";
+
+interface InstanceSummary {
+  id: string;
+  status: string;
+  launchTime?: string;
+  image?: string;
+}
+
+interface SnapshotSummary {
+  id: string;
+  instanceId: string;
+  createdAt: string;
+}
+
+interface InstanceList {
+  instances: InstanceSummary[];
+  images: string[];
+  snapshots: SnapshotSummary[];
+  canSnapshot: boolean;
+}
+
+/**
+ * An instance a thread can use instead of having the graph create one.
+ */
+export interface AdoptedInstance {
+  instanceId: string;
+  streamUrl: string;
+}
+
+async function postInstanceRoute<T>(route: string, body: object): Promise<T> {
+  const response = await fetch(`/api/instance/${route}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ userId: getItem(USER_ID_KEY), ...body }),
+  });
+  const json = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(json.error ?? `Request to ${route} failed`);
+  }
+  return json;
+}
+
+function showError(title: string, e: any) {
+  console.error(e);
+  toast.error(title, {
+    description: e?.message,
+    richColors: true,
+    closeButton: true,
+    duration: 5000,
+  });
+}
+
+function formatDate(date: string | undefined) {
+  return date ? new Date(date).toLocaleString() : "";
+}
+
+export default function ThreadInstances({
+  onAdopt,
+}: {
+  onAdopt: (instance: AdoptedInstance) => void;
+}) {
+  const [instancesOpen, setInstancesOpen] = useQueryState(
+    "instancesOpen",
+    parseAsBoolean.withDefault(false),
+  );
+  const [list, setList] = useState<InstanceList>();
+  const [image, setImage] = useState("");
+  // ID of the instance or snapshot an action is pending on.
+  const [busyId, setBusyId] = useState<string>();
+
+  const refresh = useCallback(async () => {
+    try {
+      const result = await postInstanceRoute<InstanceList>("list", {});
+      setList(result);
+      setImage((i) => i || result.images[0] || "");
+    } catch (e) {
+      showError("Failed to list instances", e);
+      setList({ instances: [], images: [], snapshots: [], canSnapshot: false });
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!instancesOpen) return;
+    setList(undefined);
+    refresh();
+  }, [instancesOpen, refresh]);
+
+  const runAction = async (id: string, action: () => Promise<void>) => {
+    setBusyId(id);
+    try {
+      await action();
+      await refresh();
+    } finally {
+      setBusyId(undefined);
+    }
+  };
+
+  const adopt = async (instanceId: string) => {
+    try {
+      const { streamUrl } = await postInstanceRoute<{ streamUrl: string }>(
+        "stream-url",
+        { instanceId },
+      );
+      onAdopt({ instanceId, streamUrl });
+      setInstancesOpen(false);
+    } catch (e) {
+      showError("Failed to use instance", e);
+    }
+  };
+
+  const handleCreate = (e: FormEvent) => {
+    e.preventDefault();
+    return runAction("create", async () => {
+      try {
+        const { instance } = await postInstanceRoute<{
+          instance: InstanceSummary;
+        }>("create", { image });
+        toast.success(`Instance ${instance.id} created`, {
+          richColors: true,
+          closeButton: true,
+          duration: 5000,
+        });
+      } catch (e) {
+        showError("Failed to create instance", e);
+      }
+    });
+  };
+
+  const handleSnapshot = (instanceId: string) =>
+    runAction(instanceId, async () => {
+      try {
+        await postInstanceRoute("snapshot", { instanceId });
+        toast.success("Snapshot saved", {
+          richColors: true,
+          closeButton: true,
+          duration: 5000,
+        });
+      } catch (e) {
+        showError("Failed to snapshot instance", e);
+      }
+    });
+
+  const handleStop = (instanceId: string) =>
+    runAction(instanceId, async () => {
+      try {
+        await postInstanceRoute("stop", { instanceId });
+      } catch (e) {
+        showError("Failed to stop instance", e);
+      }
+    });
+
+  const handleRestore = (snapshotId: string) =>
+    runAction(snapshotId, async () => {
+      try {
+        const { instance, streamUrl } = await postInstanceRoute<{
+          instance: InstanceSummary;
+          streamUrl: string;
+        }>("restore", { snapshotId });
+        onAdopt({ instanceId: instance.id, streamUrl });
+        setInstancesOpen(false);
+      } catch (e) {
+        showError("Failed to restore snapshot", e);
+      }
+    });
+
+  const activeInstances = list?.instances.filter(
+    (instance) => instance.status !== "terminated",
+  );
+
+  return (
+    <Sheet open={instancesOpen} onOpenChange={setInstancesOpen}>
+      <SheetContent side="right" className="w-full sm:max-w-xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Instances</SheetTitle>
+          <SheetDescription>
+            Start a VM up front, save its disk state, or pick up from a snapshot
+            in this thread.
+          </SheetDescription>
+        </SheetHeader>
+        {!list ? (
+          <div className="flex items-center justify-center p-8">
+            <LoaderCircle className="w-8 h-8 animate-spin" />
+          </div>
+        ) : (
+          <div className="flex flex-col gap-6 px-4 pb-4 text-sm">
+            <form className="flex items-center gap-2" onSubmit={handleCreate}>
+              <select
+                className="flex-1 h-9 rounded-md border px-2"
+                value={image}
+                onChange={(e) => setImage(e.target.value)}
+                aria-label="Image"
+              >
+                {list.images.map((i) => (
+                  <option key={i} value={i}>
+                    {i}
+                  </option>
+                ))}
+              </select>
+              <Button
+                type="submit"
+                size="sm"
+                disabled={!image || busyId === "create"}
+              >
+                {busyId === "create" ? (
+                  <LoaderCircle className="size-4 animate-spin" />
+                ) : (
+                  <Plus className="size-4" />
+                )}
+                Create
+              </Button>
+            </form>
+
+            <section className="flex flex-col gap-2">
+              <h3 className="font-medium">Running</h3>
+              {activeInstances?.length ? (
+                activeInstances.map((instance) => (
+                  <div
+                    key={instance.id}
+                    className="flex items-center justify-between gap-2 rounded border p-2"
+                  >
+                    <div className="min-w-0">
+                      <p className="font-mono truncate">{instance.id}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {[
+                          instance.status,
+                          instance.image,
+                          formatDate(instance.launchTime),
+                        ]
+                          .filter(Boolean)
+                          .join(" · ")}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={!!busyId}
+                        onClick={() => adopt(instance.id)}
+                      >
+                        Use in thread
+                      </Button>
+                      {list.canSnapshot && (
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          disabled={!!busyId}
+                          onClick={() => handleSnapshot(instance.id)}
+                          aria-label="Snapshot"
+                        >
+                          <Camera className="size-4" />
+                        </Button>
+                      )}
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        disabled={!!busyId}
+                        onClick={() => handleStop(instance.id)}
+                        aria-label="Stop"
+                      >
+                        {busyId === instance.id ? (
+                          <LoaderCircle className="size-4 animate-spin" />
+                        ) : (
+                          <Square className="size-4" />
+                        )}
+                      </Button>
+                    </div>
+                  </div>
+                ))
+              ) : (
+                <p className="text-muted-foreground">No running instances.</p>
+              )}
+            </section>
+
+            {list.canSnapshot && (
+              <section className="flex flex-col gap-2">
+                <h3 className="font-medium">Snapshots</h3>
+                {list.snapshots.length ? (
+                  list.snapshots.map((snapshot) => (
+                    <div
+                      key={snapshot.id}
+                      className="flex items-center justify-between gap-2 rounded border p-2"
+                    >
+                      <div className="min-w-0">
+                        <p className="font-mono truncate">{snapshot.id}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {formatDate(snapshot.createdAt)}
+                        </p>
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={!!busyId}
+                        onClick={() => handleRestore(snapshot.id)}
+                      >
+                        {busyId === snapshot.id ? (
+                          <LoaderCircle className="size-4 animate-spin" />
+                        ) : (
+                          <RotateCcw className="size-4" />
+                        )}
+                        Restore
+                      </Button>
+                    </div>
+                  ))
+                ) : (
+                  <p className="text-muted-foreground">No snapshots yet.</p>
+                )}
+              </section>
+            )}
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
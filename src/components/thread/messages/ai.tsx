@@ -7,6 +7,8 @@ import { BranchSwitcher, CommandBar } from "./shared";
 import { MarkdownText } from "../markdown-text";
 import { LoadExternalComponent } from "@langchain/langgraph-sdk/react-ui";
 import { cn } from "@/lib/utils";
+import { useAssistant } from "@/hooks/useAssistant";
+import { ToolCalls, ToolResult } from "./tool-calls";
 import { Fragment } from "react/jsx-runtime";
 
 export function hasToolOutputs(message: AIMessage): boolean {
@@ -23,7 +25,7 @@ export function hasToolOutputs(message: AIMessage): boolean {
   );
 }
 
-function CustomComponent({
+export function CustomComponent({
   message,
   thread,
 }: {
@@ -67,6 +69,7 @@ export function AssistantMessage({
   const meta = thread.getMessagesMetadata(message);
   const interrupt = thread.interrupt;
   const parentCheckpoint = meta?.firstSeenState?.parent_checkpoint;
+  const [assistant] = useAssistant();
   const isToolMessage = message.type === "tool";
   const isToolCallMsg =
     message.type === "ai" &&
@@ -81,6 +84,15 @@ export function AssistantMessage({
           </div>
         )}
 
+        {assistant.showToolMessages &&
+          (isToolMessage ? (
+            <ToolResult message={message} />
+          ) : (
+            message.type === "ai" && (
+              <ToolCalls toolCalls={message.tool_calls} />
+            )
+          ))}
+
         <CustomComponent message={message} thread={thread} />
         {!isToolCallMsg && !isToolMessage && (
           <div
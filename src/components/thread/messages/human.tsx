@@ -5,6 +5,7 @@ import { getContentString } from "../utils";
 import { cn } from "@/lib/utils";
 import { Textarea } from "@/components/ui/textarea";
 import { BranchSwitcher, CommandBar } from "./shared";
+import { useAssistant } from "@/hooks/useAssistant";
 
 function EditableContent({
   value,
@@ -40,6 +41,7 @@ export function HumanMessage({
   isLoading: boolean;
 }) {
   const thread = useStreamContext();
+  const [{ messagesKey }] = useAssistant();
   const meta = thread.getMessagesMetadata(message);
   const parentCheckpoint = meta?.firstSeenState?.parent_checkpoint;
 
@@ -52,7 +54,7 @@ export function HumanMessage({
 
     const newMessage: Message = { type: "human", content: value };
     thread.submit(
-      { messages: [newMessage] },
+      { [messagesKey]: [newMessage] },
       {
         checkpoint: parentCheckpoint,
         streamMode: ["values"],
@@ -62,7 +64,7 @@ export function HumanMessage({
 
           return {
             ...values,
-            messages: [...(values.messages ?? []), newMessage],
+            [messagesKey]: [...(values[messagesKey] ?? []), newMessage],
           };
         },
       },
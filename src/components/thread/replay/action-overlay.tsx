@@ -0,0 +1,153 @@
+import { useId } from "react";
+import type { ComputerAction } from "@/agent/approval";
+import { DISPLAY_HEIGHT, DISPLAY_WIDTH } from "@/lib/constants";
+import { cn } from "@/lib/utils";
+import { describeAction } from "./frames";
+
+const MARKER_COLOR = "#ef4444";
+
+function Crosshair({ x, y }: { x: number; y: number }) {
+  return (
+    <g stroke={MARKER_COLOR} strokeWidth={3} fill="none">
+      <circle cx={x} cy={y} r={16} />
+      <line x1={x - 26} y1={y} x2={x - 8} y2={y} />
+      <line x1={x + 8} y1={y} x2={x + 26} y2={y} />
+      <line x1={x} y1={y - 26} x2={x} y2={y - 8} />
+      <line x1={x} y1={y + 8} x2={x} y2={y + 26} />
+    </g>
+  );
+}
+
+function Badge({ text }: { text: string }) {
+  const width = Math.min(DISPLAY_WIDTH - 32, 24 + text.length * 11);
+  return (
+    <g>
+      <rect
+        x={16}
+        y={DISPLAY_HEIGHT - 56}
+        width={width}
+        height={40}
+        rx={8}
+        fill="rgba(0, 0, 0, 0.7)"
+      />
+      <text
+        x={28}
+        y={DISPLAY_HEIGHT - 30}
+        fill="white"
+        fontSize={18}
+        fontFamily="monospace"
+      >
+        {text}
+      </text>
+    </g>
+  );
+}
+
+/**
+ * Draws a computer action on top of the screenshot taken after it. Coordinates
+ * are in screen space, so the overlay scales with the screenshot it covers.
+ */
+export function ActionOverlay({
+  action,
+  className,
+}: {
+  action?: ComputerAction;
+  className?: string;
+}) {
+  // Every card draws its own overlay, so each needs its own marker ID. Colons
+  // in React's IDs would have to be escaped in `url()`.
+  const arrowId = `action-overlay-arrow-${useId().replace(/:/g, "")}`;
+  if (!action) return null;
+
+  const renderAction = () => {
+    switch (action.type) {
+      case "click":
+        return <Crosshair x={action.x} y={action.y} />;
+      case "double_click":
+        return (
+          <>
+            <Crosshair x={action.x} y={action.y} />
+            <circle
+              cx={action.x}
+              cy={action.y}
+              r={24}
+              stroke={MARKER_COLOR}
+              strokeWidth={3}
+              fill="none"
+            />
+          </>
+        );
+      case "move":
+        return <circle cx={action.x} cy={action.y} r={8} fill={MARKER_COLOR} />;
+      case "drag": {
+        const points = action.path.map(({ x, y }) => `${x},${y}`).join(" ");
+        const start = action.path[0];
+        return (
+          <>
+            <polyline
+              points={points}
+              stroke={MARKER_COLOR}
+              strokeWidth={4}
+              fill="none"
+              markerEnd={`url(#${arrowId})`}
+            />
+            {start && (
+              <circle cx={start.x} cy={start.y} r={8} fill={MARKER_COLOR} />
+            )}
+          </>
+        );
+      }
+      case "scroll": {
+        // Scroll deltas are in pixels; clamp them so the arrow stays on screen.
+        const length = Math.hypot(action.scroll_x, action.scroll_y) || 1;
+        const scale = Math.min(120, length) / length;
+        return (
+          <>
+            <circle cx={action.x} cy={action.y} r={6} fill={MARKER_COLOR} />
+            <line
+              x1={action.x}
+              y1={action.y}
+              x2={action.x + action.scroll_x * scale}
+              y2={action.y + action.scroll_y * scale}
+              stroke={MARKER_COLOR}
+              strokeWidth={4}
+              markerEnd={`url(#${arrowId})`}
+            />
+          </>
+        );
+      }
+      case "type":
+      case "keypress":
+        return <Badge text={describeAction(action)} />;
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <svg
+      viewBox={`0 0 ${DISPLAY_WIDTH} ${DISPLAY_HEIGHT}`}
+      preserveAspectRatio="none"
+      className={cn(
+        "absolute inset-0 w-full h-full pointer-events-none",
+        className,
+      )}
+      aria-label={describeAction(action)}
+    >
+      <defs>
+        <marker
+          id={arrowId}
+          viewBox="0 0 10 10"
+          refX={5}
+          refY={5}
+          markerWidth={4}
+          markerHeight={4}
+          orient="auto-start-reverse"
+        >
+          <path d="M 0 0 L 10 5 L 0 10 z" fill={MARKER_COLOR} />
+        </marker>
+      </defs>
+      {renderAction()}
+    </svg>
+  );
+}
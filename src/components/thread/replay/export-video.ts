@@ -0,0 +1,157 @@
+import type { ComputerAction } from "@/agent/approval";
+import { DISPLAY_HEIGHT, DISPLAY_WIDTH } from "@/lib/constants";
+import { ReplayFrame, describeAction } from "./frames";
+
+const MARKER_COLOR = "#ef4444";
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    // Required so screenshots served from storage buckets don't taint the canvas.
+    image.crossOrigin = "anonymous";
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`Failed to load ${src}`));
+    image.src = src;
+  });
+}
+
+function drawArrow(
+  ctx: CanvasRenderingContext2D,
+  from: { x: number; y: number },
+  to: { x: number; y: number },
+) {
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+  ctx.beginPath();
+  ctx.moveTo(to.x, to.y);
+  ctx.lineTo(
+    to.x - 16 * Math.cos(angle - Math.PI / 6),
+    to.y - 16 * Math.sin(angle - Math.PI / 6),
+  );
+  ctx.lineTo(
+    to.x - 16 * Math.cos(angle + Math.PI / 6),
+    to.y - 16 * Math.sin(angle + Math.PI / 6),
+  );
+  ctx.closePath();
+  ctx.fill();
+}
+
+/**
+ * Canvas counterpart of `ActionOverlay`, used when encoding a replay.
+ */
+function drawAction(ctx: CanvasRenderingContext2D, action?: ComputerAction) {
+  if (!action) return;
+  ctx.strokeStyle = MARKER_COLOR;
+  ctx.fillStyle = MARKER_COLOR;
+  ctx.lineWidth = 3;
+
+  switch (action.type) {
+    case "click":
+    case "double_click":
+      ctx.beginPath();
+      ctx.arc(action.x, action.y, 16, 0, Math.PI * 2);
+      ctx.moveTo(action.x - 26, action.y);
+      ctx.lineTo(action.x + 26, action.y);
+      ctx.moveTo(action.x, action.y - 26);
+      ctx.lineTo(action.x, action.y + 26);
+      ctx.stroke();
+      break;
+    case "move":
+      ctx.beginPath();
+      ctx.arc(action.x, action.y, 8, 0, Math.PI * 2);
+      ctx.fill();
+      break;
+    case "drag": {
+      if (action.path.length < 2) break;
+      ctx.lineWidth = 4;
+      ctx.beginPath();
+      action.path.forEach(({ x, y }, i) =>
+        i === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y),
+      );
+      ctx.stroke();
+      drawArrow(
+        ctx,
+        action.path[action.path.length - 2],
+        action.path[action.path.length - 1],
+      );
+      break;
+    }
+    case "scroll": {
+      const length = Math.hypot(action.scroll_x, action.scroll_y) || 1;
+      const scale = Math.min(120, length) / length;
+      const to = {
+        x: action.x + action.scroll_x * scale,
+        y: action.y + action.scroll_y * scale,
+      };
+      ctx.lineWidth = 4;
+      ctx.beginPath();
+      ctx.moveTo(action.x, action.y);
+      ctx.lineTo(to.x, to.y);
+      ctx.stroke();
+      drawArrow(ctx, action, to);
+      break;
+    }
+    default:
+      break;
+  }
+
+  // Every frame gets a caption so the exported video is self explanatory.
+  const caption = describeAction(action);
+  ctx.font = "18px monospace";
+  ctx.fillStyle = "rgba(0, 0, 0, 0.7)";
+  ctx.fillRect(
+    16,
+    DISPLAY_HEIGHT - 56,
+    ctx.measureText(caption).width + 24,
+    40,
+  );
+  ctx.fillStyle = "white";
+  ctx.fillText(caption, 28, DISPLAY_HEIGHT - 30);
+}
+
+/**
+ * Encodes replay frames, with their action overlays, into a WebM video
+ * entirely in the browser using `MediaRecorder`.
+ *
+ * @param frames - The frames to encode, in order.
+ * @param frameDurationMs - How long each frame is shown for.
+ */
+export async function exportReplayAsWebm(
+  frames: ReplayFrame[],
+  frameDurationMs: number,
+): Promise<Blob> {
+  if (typeof MediaRecorder === "undefined") {
+    throw new Error("This browser does not support recording video.");
+  }
+
+  const images = await Promise.all(frames.map((f) => loadImage(f.screenshot)));
+
+  const canvas = document.createElement("canvas");
+  canvas.width = DISPLAY_WIDTH;
+  canvas.height = DISPLAY_HEIGHT;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) {
+    throw new Error("Failed to create a canvas to record the replay.");
+  }
+
+  const stream = canvas.captureStream(30);
+  const recorder = new MediaRecorder(stream, { mimeType: "video/webm" });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size) chunks.push(e.data);
+  };
+  const stopped = new Promise<void>((resolve) => {
+    recorder.onstop = () => resolve();
+  });
+
+  recorder.start();
+  for (let i = 0; i < frames.length; i++) {
+    ctx.drawImage(images[i], 0, 0, DISPLAY_WIDTH, DISPLAY_HEIGHT);
+    drawAction(ctx, frames[i].action);
+    await new Promise((resolve) => setTimeout(resolve, frameDurationMs));
+  }
+  recorder.stop();
+  await stopped;
+  stream.getTracks().forEach((track) => track.stop());
+
+  return new Blob(chunks, { type: "video/webm" });
+}
@@ -0,0 +1,110 @@
+import type { Message, ThreadState } from "@langchain/langgraph-sdk";
+import type { ResponseComputerToolCall } from "openai/resources/responses/responses";
+import type { ComputerAction } from "@/agent/approval";
+
+export interface ReplayFrame {
+  /**
+   * The `call_id` of the computer call which produced this screenshot.
+   */
+  callId: string;
+  /**
+   * The action taken before the screenshot. Undefined if the matching computer
+   * call could not be found.
+   */
+  action?: ComputerAction;
+  /**
+   * URL (or base64 data URL) of the screenshot.
+   */
+  screenshot: string;
+  /**
+   * When the checkpoint containing the screenshot was created.
+   */
+  createdAt?: string;
+}
+
+function getComputerCalls(message: Message): ResponseComputerToolCall[] {
+  if (message.type !== "ai") return [];
+  const toolOutputs = (message.additional_kwargs?.tool_outputs ??
+    message.response_metadata?.output) as unknown;
+  if (!Array.isArray(toolOutputs)) return [];
+  return toolOutputs.filter(
+    (output): output is ResponseComputerToolCall =>
+      output?.type === "computer_call",
+  );
+}
+
+/**
+ * Walks a thread's checkpoints from oldest to newest and pairs every
+ * `computer_call_output` screenshot with the computer call that produced it.
+ */
+export function buildReplayFrames(
+  history: ThreadState<{ messages?: Message[] }>[],
+): ReplayFrame[] {
+  const states = [...history].sort((a, b) =>
+    (a.created_at ?? "").localeCompare(b.created_at ?? ""),
+  );
+  const frames: ReplayFrame[] = [];
+  const seen = new Set<string>();
+  const actionsByCallId = new Map<string, ComputerAction>();
+
+  for (const state of states) {
+    const messages = state.values?.messages ?? [];
+    for (const message of messages) {
+      for (const call of getComputerCalls(message)) {
+        actionsByCallId.set(call.call_id, call.action);
+      }
+    }
+
+    for (const message of messages) {
+      if (
+        message.type !== "tool" ||
+        message.additional_kwargs?.type !== "computer_call_output" ||
+        typeof message.content !== "string" ||
+        seen.has(message.tool_call_id)
+      ) {
+        continue;
+      }
+      seen.add(message.tool_call_id);
+      frames.push({
+        callId: message.tool_call_id,
+        action: actionsByCallId.get(message.tool_call_id),
+        screenshot: message.content,
+        createdAt: state.created_at ?? undefined,
+      });
+    }
+  }
+
+  return frames;
+}
+
+/**
+ * A short, human readable description of a computer action.
+ */
+export function describeAction(action?: ComputerAction): string {
+  if (!action) return "Screenshot";
+  switch (action.type) {
+    case "click":
+      return `Click (${action.button}) at ${action.x}, ${action.y}`;
+    case "double_click":
+      return `Double click at ${action.x}, ${action.y}`;
+    case "drag": {
+      const start = action.path[0];
+      const end = action.path[action.path.length - 1];
+      return `Drag from ${start?.x}, ${start?.y} to ${end?.x}, ${end?.y}`;
+    }
+    case "keypress":
+      return `Keypress: ${action.keys.join(" + ")}`;
+    case "move":
+      return `Move to ${action.x}, ${action.y}`;
+    case "screenshot":
+      return "Take screenshot";
+    case "scroll":
+      return `Scroll x: ${action.scroll_x}, y: ${action.scroll_y} at ${action.x}, ${action.y}`;
+    case "type":
+      return `Type: "${action.text}"`;
+    case "wait":
+      return "Wait";
+    default:
+      return "Unknown action";
+  }
+}
@@ -0,0 +1,234 @@
+"use client";
+import { useEffect, useState } from "react";
+import { useQueryState, parseAsBoolean } from "nuqs";
+import { toast } from "sonner";
+import {
+  ChevronLeft,
+  ChevronRight,
+  Download,
+  LoaderCircle,
+  Pause,
+  Play,
+} from "lucide-react";
+import { useStreamContext } from "@/providers/Stream";
+import { Button } from "@/components/ui/button";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { cn } from "@/lib/utils";
+import { ActionOverlay } from "./action-overlay";
+import { buildReplayFrames, describeAction, ReplayFrame } from "./frames";
+import { exportReplayAsWebm } from "./export-video";
+
+const BASE_FRAME_DURATION_MS = 1000;
+const SPEEDS = [0.5, 1, 2, 4];
+
+function ReplayPlayer({ frames }: { frames: ReplayFrame[] }) {
+  const [index, setIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [showOverlay, setShowOverlay] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const frame = frames[index];
+  const isLastFrame = index >= frames.length - 1;
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (isLastFrame) {
+      setIsPlaying(false);
+      return;
+    }
+    const timeoutId = setTimeout(
+      () => setIndex((i) => i + 1),
+      BASE_FRAME_DURATION_MS / speed,
+    );
+    return () => clearTimeout(timeoutId);
+  }, [isPlaying, index, speed, isLastFrame]);
+
+  const handlePlay = () => {
+    // Restart from the beginning if playback previously reached the end.
+    if (isLastFrame) setIndex(0);
+    setIsPlaying((p) => !p);
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const blob = await exportReplayAsWebm(
+        frames,
+        BASE_FRAME_DURATION_MS / speed,
+      );
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = "computer-use-replay.webm";
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (e: any) {
+      console.error(e);
+      toast.error("Failed to export replay", {
+        description: e?.message,
+        richColors: true,
+        closeButton: true,
+        duration: 5000,
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3 px-4 pb-4">
+      <div className="relative w-full border border-gray-200 rounded overflow-hidden aspect-[4/3] bg-gray-50">
+        <img
+          src={frame.screenshot}
+          alt={`Step ${index + 1}: ${describeAction(frame.action)}`}
+          className="w-full h-full object-fill"
+        />
+        {showOverlay && <ActionOverlay action={frame.action} />}
+      </div>
+
+      <div className="flex items-center justify-between gap-2 text-sm">
+        <p className="font-medium truncate">{describeAction(frame.action)}</p>
+        <p className="text-xs text-gray-500 whitespace-nowrap">
+          Step {index + 1} of {frames.length}
+        </p>
+      </div>
+
+      <input
+        type="range"
+        min={0}
+        max={frames.length - 1}
+        value={index}
+        onChange={(e) => {
+          setIsPlaying(false);
+          setIndex(Number(e.target.value));
+        }}
+        className="w-full"
+        aria-label="Replay position"
+      />
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-1">
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => setIndex((i) => Math.max(0, i - 1))}
+            disabled={index === 0}
+            aria-label="Previous step"
+          >
+            <ChevronLeft className="size-4" />
+          </Button>
+          <Button
+            size="icon"
+            onClick={handlePlay}
+            aria-label={isPlaying ? "Pause" : "Play"}
+          >
+            {isPlaying ? (
+              <Pause className="size-4" />
+            ) : (
+              <Play className="size-4" />
+            )}
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => setIndex((i) => Math.min(frames.length - 1, i + 1))}
+            disabled={isLastFrame}
+            aria-label="Next step"
+          >
+            <ChevronRight className="size-4" />
+          </Button>
+        </div>
+
+        <div className="flex items-center gap-1">
+          {SPEEDS.map((s) => (
+            <Button
+              key={s}
+              variant="ghost"
+              size="sm"
+              className={cn(speed === s && "bg-gray-100 font-semibold")}
+              onClick={() => setSpeed(s)}
+            >
+              {s}x
+            </Button>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setShowOverlay((s) => !s)}
+          >
+            {showOverlay ? "Hide" : "Show"} actions
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleExport}
+            disabled={isExporting}
+          >
+            {isExporting ? (
+              <LoaderCircle className="size-4 animate-spin" />
+            ) : (
+              <Download className="size-4" />
+            )}
+            WebM
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function ThreadReplay() {
+  const [replayOpen, setReplayOpen] = useQueryState(
+    "replayOpen",
+    parseAsBoolean.withDefault(false),
+  );
+  const [threadId] = useQueryState("threadId");
+  const { client } = useStreamContext();
+  const [frames, setFrames] = useState<ReplayFrame[]>();
+
+  useEffect(() => {
+    if (!replayOpen || !threadId) return;
+    setFrames(undefined);
+    client.threads
+      .getHistory<{ messages?: any[] }>(threadId, { limit: 1000 })
+      .then((history) => setFrames(buildReplayFrames(history)))
+      .catch((e) => {
+        console.error("Failed to load thread history:", e);
+        setFrames([]);
+      });
+  }, [client, replayOpen, threadId]);
+
+  return (
+    <Sheet open={replayOpen} onOpenChange={setReplayOpen}>
+      <SheetContent side="right" className="w-full sm:max-w-3xl">
+        <SheetHeader>
+          <SheetTitle>Replay</SheetTitle>
+          <SheetDescription>
+            Step through every computer action taken in this thread.
+          </SheetDescription>
+        </SheetHeader>
+        {!frames ? (
+          <div className="flex items-center justify-center p-8">
+            <LoaderCircle className="w-8 h-8 animate-spin" />
+          </div>
+        ) : frames.length ? (
+          <ReplayPlayer frames={frames} />
+        ) : (
+          <p className="px-4 text-sm text-muted-foreground">
+            No computer actions have been recorded in this thread yet.
+          </p>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
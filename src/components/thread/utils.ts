@@ -1,4 +1,5 @@
-import type { Message } from "@langchain/langgraph-sdk";
+import type { Interrupt, Message } from "@langchain/langgraph-sdk";
+import type { UIMessage } from "@langchain/langgraph-sdk/react-ui";
 
 export function getContentString(content: Message["content"]): string {
   if (typeof content === "string") return content;
@@ -7,3 +8,15 @@ export function getContentString(content: Message["content"]): string {
     .map((c) => c.text);
   return texts.join(" ");
 }
+
+/**
+ * Returns the UI message attached to an interrupt, if the graph paused with one.
+ * Interrupted nodes do not persist their UI writes, so these are rendered from
+ * the interrupt value instead of the thread's `ui` state.
+ */
+export function getInterruptUIMessage(
+  interrupt: Interrupt | undefined,
+): UIMessage | undefined {
+  const value = interrupt?.value as { ui?: UIMessage } | undefined;
+  return value?.ui?.type === "ui" ? value.ui : undefined;
+}
@@ -0,0 +1,17 @@
+import { parseAsString, useQueryState } from "nuqs";
+import { ASSISTANTS, DEFAULT_ASSISTANT_ID } from "@/lib/assistants";
+
+/**
+ * The assistant selected through the `assistantId` query param. Unknown IDs
+ * fall back to the default assistant.
+ */
+export function useAssistant() {
+  const [assistantId, setAssistantId] = useQueryState(
+    "assistantId",
+    parseAsString.withDefault(DEFAULT_ASSISTANT_ID),
+  );
+  const assistant =
+    ASSISTANTS.find((a) => a.id === assistantId) ??
+    ASSISTANTS.find((a) => a.id === DEFAULT_ASSISTANT_ID)!;
+  return [assistant, setAssistantId] as const;
+}
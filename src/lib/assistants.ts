@@ -0,0 +1,43 @@
+export interface AssistantOption {
+  /**
+   * Graph ID from `langgraph.json`, or an assistant's UUID.
+   */
+  id: string;
+  name: string;
+  description: string;
+  /**
+   * State key holding the conversation's messages.
+   */
+  messagesKey: "messages" | "chat_history";
+  /**
+   * Whether tool calls and their results are shown in the thread. Off for
+   * assistants which render their tools through generative UI only.
+   */
+  showToolMessages: boolean;
+  /**
+   * Whether the assistant works in a VM, whose instances can then be managed
+   * from the thread.
+   */
+  usesVm: boolean;
+}
+
+export const ASSISTANTS: AssistantOption[] = [
+  {
+    id: "agent",
+    name: "CUA",
+    description: "Uses a virtual desktop through screenshots and mouse clicks.",
+    messagesKey: "messages",
+    showToolMessages: false,
+    usesVm: true,
+  },
+  {
+    id: "scout",
+    name: "Scout",
+    description: "Works with files, the shell and the web through tools.",
+    messagesKey: "chat_history",
+    showToolMessages: true,
+    usesVm: false,
+  },
+];
+
+export const DEFAULT_ASSISTANT_ID = ASSISTANTS[0].id;
@@ -1 +1,20 @@
 export const DO_NOT_RENDER_ID_PREFIX = "do-not-render-";
+
+/**
+ * Hours after which VMs started by the agent or from the UI stop on their own,
+ * on providers which support a timeout.
+ */
+export const INSTANCE_TIMEOUT_HOURS = 0.1;
+
+/**
+ * Store namespace of take-over requests, keyed by instance ID. The client
+ * puts one while the agent runs, and the agent pauses before its next action.
+ */
+export const TAKEOVER_NAMESPACE = ["takeover"];
+
+/**
+ * Screen size of every VM, and so of every screenshot. Scrapybara does not
+ * allow for configuring it, and local desktops are started at the same size.
+ */
+export const DISPLAY_WIDTH = 1024;
+export const DISPLAY_HEIGHT = 768;
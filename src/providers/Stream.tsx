@@ -19,9 +19,14 @@ import { parseAsBoolean, useQueryState } from "nuqs";
 import { useThreads } from "./Thread";
 import { getItem, setItem, USER_ID_KEY } from "@/lib/local-storage";
 import { createClient } from "./client";
+import { useAssistant } from "@/hooks/useAssistant";
 
 export type StateType = {
   messages: Message[];
+  /**
+   * The Scout assistant's conversation.
+   */
+  chat_history?: Message[];
   ui?: UIMessage[];
   streamUrl?: string;
   instanceId?: string;
@@ -33,6 +38,7 @@ const useTypedStream = useStream<
   {
     UpdateType: {
       messages?: Message[] | Message | string;
+      chat_history?: Message[] | Message | string;
       ui?: (UIMessage | RemoveUIMessage)[] | UIMessage | RemoveUIMessage;
       streamUrl?: string;
       instanceId?: string;
@@ -53,10 +59,12 @@ const StreamSession = ({
   children,
   apiUrl,
   assistantId,
+  messagesKey,
 }: {
   children: ReactNode;
   apiUrl: string;
   assistantId: string;
+  messagesKey: string;
 }) => {
   const [threadId, setThreadId] = useQueryState("threadId");
   const client = createClient(apiUrl);
@@ -69,6 +77,7 @@ const StreamSession = ({
   const streamValue = useTypedStream({
     apiUrl,
     assistantId,
+    messagesKey,
     threadId: threadId ?? null,
     onCustomEvent: (event, options) => {
       options.mutate((prev) => {
@@ -122,10 +131,14 @@ export const StreamProvider: React.FC<{ children: ReactNode }> = ({
   children,
 }) => {
   const apiUrl = process.env.NEXT_PUBLIC_API_URL ?? "/api";
-  const assistantId = "agent";
+  const [assistant] = useAssistant();
 
   return (
-    <StreamSession apiUrl={apiUrl} assistantId={assistantId}>
+    <StreamSession
+      apiUrl={apiUrl}
+      assistantId={assistant.id}
+      messagesKey={assistant.messagesKey}
+    >
       {children}
     </StreamSession>
   );
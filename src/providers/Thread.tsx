@@ -12,6 +12,7 @@ import {
 } from "react";
 import { createClient } from "./client";
 import { getItem, USER_ID_KEY } from "@/lib/local-storage";
+import { useAssistant } from "@/hooks/useAssistant";
 
 interface ThreadContextType {
   getThreads: (userId: string) => Promise<Thread[]>;
@@ -35,7 +36,7 @@ function getThreadSearchMetadata(
 
 export function ThreadProvider({ children }: { children: ReactNode }) {
   const apiUrl = process.env.NEXT_PUBLIC_API_URL ?? "/api";
-  const assistantId = "agent";
+  const [{ id: assistantId }] = useAssistant();
 
   const [threads, setThreads] = useState<Thread[]>([]);
   const [threadsLoading, setThreadsLoading] = useState(false);